@@ -0,0 +1,37 @@
+/**
+ * Checkpoint files for long solver runs
+ *
+ * A checkpoint is plain JSON. It is written to a temporary file next to the
+ * target and renamed over it, so a run that dies while saving leaves the
+ * previous checkpoint intact.
+ */
+
+import fs from "fs";
+import path from "path";
+import type { SolverCheckpoint } from "../types/index.js";
+
+/**
+ * Format version written to SolverCheckpoint.version
+ */
+export const CHECKPOINT_VERSION = 1;
+
+/**
+ * Save a checkpoint, replacing the file atomically
+ */
+export function writeCheckpoint(filePath: string, checkpoint: SolverCheckpoint): void {
+  const dir = path.dirname(filePath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const temporaryPath = `${filePath}.tmp`;
+  fs.writeFileSync(temporaryPath, JSON.stringify(checkpoint));
+  fs.renameSync(temporaryPath, filePath);
+}
+
+/**
+ * Load a checkpoint written by a solver (resume() checks that it fits the solver)
+ */
+export function readCheckpoint(filePath: string): SolverCheckpoint {
+  return JSON.parse(fs.readFileSync(filePath, "utf-8")) as SolverCheckpoint;
+}
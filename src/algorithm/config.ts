@@ -10,8 +10,27 @@ import type {
   HardConstraintsConfig,
   SoftConstraintsConfig,
   LoggingConfig,
+  RandomNumberGenerator,
+  FitnessEvaluationMode,
+  CoolingScheduleOption,
+  TemperatureCalibrationConfig,
+  ScheduleEntry,
+  RepairConfig,
+  PerturbationWeights,
+  NeighborhoodOperator,
+  OperatorSelectionOption,
+  ParallelTemperingConfig,
+  TabuSearchConfig,
+  LateAcceptanceConfig,
+  PolishOption,
+  MultiObjectiveConfig,
+  CheckpointConfig,
+  TraceConfig,
+  AdaptiveWeightsConfig,
+  ConstraintRule,
 } from "../types/index.js";
 import { DEFAULT_PAGI_CONFIG, DEFAULT_SORE_CONFIG, DEFAULT_DAYS } from "../constants/time-slots.js";
+import { parseConstraintRules } from "../constraints/rules.js";
 
 export const DEFAULT_SOFT_CONSTRAINT_WEIGHTS: Required<SoftConstraintWeights> = {
   preferredTime: 10,
@@ -22,6 +41,7 @@ export const DEFAULT_SOFT_CONSTRAINT_WEIGHTS: Required<SoftConstraintWeights> =
   eveningClassPriority: 25,
   labRequirement: 10,
   overflowPenalty: 5,
+  researchDay: 50,
 };
 
 export const DEFAULT_HARD_CONSTRAINTS_CONFIG: Required<HardConstraintsConfig> = {
@@ -57,6 +77,90 @@ export const DEFAULT_LOGGING_CONFIG: Required<LoggingConfig> = {
   includeLevel: true,
 };
 
+/**
+ * Starting temperature, also used when "auto" calibration finds no worsening neighbour
+ */
+export const DEFAULT_INITIAL_TEMPERATURE = 10000;
+
+export const DEFAULT_TEMPERATURE_CALIBRATION_CONFIG: Required<TemperatureCalibrationConfig> = {
+  targetAcceptanceRatio: 0.8,
+  samples: 200,
+};
+
+/**
+ * Repair mode: penalty per entry whose day / start time / room differs from the previous solution
+ */
+export const DEFAULT_PERTURBATION_WEIGHTS: Required<PerturbationWeights> = {
+  day: 30,
+  startTime: 20,
+  room: 10,
+};
+
+/**
+ * Parallel tempering: replica count and iterations per replica between exchanges
+ * (the temperature ladder defaults depend on the initial temperature)
+ */
+export const DEFAULT_PARALLEL_TEMPERING_CONFIG = {
+  replicas: 4,
+  exchangeInterval: 100,
+};
+
+/**
+ * Tabu search: tabu tenure and neighbours scored per iteration
+ */
+export const DEFAULT_TABU_SEARCH_CONFIG: Required<TabuSearchConfig> = {
+  tenure: 20,
+  candidates: 20,
+};
+
+/**
+ * Late acceptance hill climbing: length of the fitness history
+ */
+export const DEFAULT_LATE_ACCEPTANCE_CONFIG: Required<LateAcceptanceConfig> = {
+  historyLength: 1000,
+};
+
+/**
+ * Checkpoints: iterations between two saves
+ */
+export const DEFAULT_CHECKPOINT_CONFIG = {
+  interval: 10000,
+};
+
+/**
+ * Adaptive soft constraint weights: update interval, growth and bounds
+ */
+export const DEFAULT_ADAPTIVE_WEIGHTS_CONFIG: Required<AdaptiveWeightsConfig> = {
+  interval: 1000,
+  learningRate: 0.5,
+  maxRatio: 3,
+};
+
+/**
+ * Convergence trace: iterations between two trace points
+ */
+export const DEFAULT_TRACE_CONFIG = {
+  interval: 100,
+};
+
+/**
+ * Hyperparameter tuning: race size, seeds and elimination test
+ */
+export const DEFAULT_TUNING_OPTIONS = {
+  candidates: 20,
+  runsPerCandidate: 10, // Default maxRuns = candidates * runsPerCandidate
+  minSeeds: 5,
+  maxSeeds: 20,
+  alpha: 0.05,
+};
+
+/**
+ * Multi-objective mode: size of the Pareto archive
+ */
+export const DEFAULT_MULTI_OBJECTIVE_CONFIG = {
+  archiveSize: 50,
+};
+
 export const DEFAULT_TIME_SLOT_CONFIG: Required<TimeSlotConfig> = {
   pagi: DEFAULT_PAGI_CONFIG,
   sore: DEFAULT_SORE_CONFIG,
@@ -64,7 +168,8 @@ export const DEFAULT_TIME_SLOT_CONFIG: Required<TimeSlotConfig> = {
 };
 
 export const DEFAULT_ALGORITHM_CONFIG = {
-  initialTemperature: 10000,
+  initialTemperature: DEFAULT_INITIAL_TEMPERATURE as number | "auto",
+  temperatureCalibration: DEFAULT_TEMPERATURE_CALIBRATION_CONFIG,
   minTemperature: 0.0000001,
   coolingRate: 0.997,
   maxIterations: 15000,
@@ -73,14 +178,40 @@ export const DEFAULT_ALGORITHM_CONFIG = {
   maxReheats: 7,
   hardConstraintWeight: 100000,
   softConstraintWeights: DEFAULT_SOFT_CONSTRAINT_WEIGHTS,
+  unassignedClassWeight: 10000,
+  insertionRate: 0.1,
+  operators: [] as NeighborhoodOperator[],
+  operatorSelection: "success-rate" as OperatorSelectionOption,
+  operatorUsageWindow: 1000,
+  coolingSchedule: "geometric" as CoolingScheduleOption,
+  phase1TemperatureRatio: 0.1,
+  parallelTempering: undefined as ParallelTemperingConfig | undefined,
+  tabuSearch: undefined as TabuSearchConfig | undefined,
+  lateAcceptance: undefined as LateAcceptanceConfig | undefined,
+  multiObjective: undefined as MultiObjectiveConfig | undefined,
+  checkpoint: undefined as CheckpointConfig | undefined,
+  trace: undefined as TraceConfig | undefined,
+  adaptiveWeights: undefined as AdaptiveWeightsConfig | undefined,
+  polish: undefined as PolishOption | undefined,
+  initialSchedule: undefined as ScheduleEntry[] | undefined,
+  repair: undefined as RepairConfig | undefined,
+  timeLimitMs: undefined as number | undefined,
+  targetFitness: undefined as number | undefined,
+  stagnationLimit: undefined as number | undefined,
+  softPenaltyThreshold: undefined as number | undefined,
   timeSlotConfig: DEFAULT_TIME_SLOT_CONFIG,
   customTimeSlots: undefined as CustomTimeSlots | undefined,
   constraints: {
     hardConstraints: DEFAULT_HARD_CONSTRAINTS_CONFIG,
     softConstraints: DEFAULT_SOFT_CONSTRAINTS_CONFIG,
     customConstraints: [],
+    rules: [] as ConstraintRule[],
   },
   logging: DEFAULT_LOGGING_CONFIG,
+  quiet: false,
+  fitnessEvaluation: "delta" as FitnessEvaluationMode,
+  seed: undefined as number | undefined,
+  random: undefined as RandomNumberGenerator | undefined,
 };
 
 /**
@@ -111,6 +242,7 @@ export function mergeConfig(userConfig?: AlgorithmConfig): typeof DEFAULT_ALGORI
       ...userConfig?.constraints?.softConstraints,
     } as Required<SoftConstraintsConfig>,
     customConstraints: (userConfig?.constraints?.customConstraints || []) as typeof DEFAULT_ALGORITHM_CONFIG.constraints.customConstraints,
+    rules: parseConstraintRules(userConfig?.constraints?.rules || []),
   };
 
   // Merge logging configuration
@@ -126,6 +258,10 @@ export function mergeConfig(userConfig?: AlgorithmConfig): typeof DEFAULT_ALGORI
       ...DEFAULT_SOFT_CONSTRAINT_WEIGHTS,
       ...userConfig?.softConstraintWeights,
     },
+    temperatureCalibration: {
+      ...DEFAULT_TEMPERATURE_CALIBRATION_CONFIG,
+      ...userConfig?.temperatureCalibration,
+    },
     timeSlotConfig: mergedTimeSlotConfig,
     // customTimeSlots will override everything if provided
     customTimeSlots: userConfig?.customTimeSlots,
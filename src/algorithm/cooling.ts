@@ -0,0 +1,151 @@
+/**
+ * Cooling schedules for Simulated Annealing
+ *
+ * A schedule maps the temperature after an iteration to the temperature of
+ * the next one. Schedules are applied step by step, so reheating (which
+ * multiplies the current temperature) works with all of them.
+ */
+
+import type {
+  AcceptanceWindowState,
+  CoolingFunction,
+  CoolingScheduleConfig,
+  CoolingScheduleOption,
+  CoolingStats,
+} from "../types/index.js";
+
+/**
+ * Parameters of a run that built-in schedules derive their defaults from
+ */
+export interface CoolingParameters {
+  initialTemperature: number;
+  minTemperature: number;
+  maxIterations: number;
+  coolingRate: number;
+}
+
+/**
+ * T * rate
+ */
+export function geometricCooling(rate: number): CoolingFunction {
+  return (_iteration, temperature) => temperature * rate;
+}
+
+/**
+ * Constant decrease that reaches minTemperature after maxIterations
+ */
+export function linearCooling(params: CoolingParameters): CoolingFunction {
+  const decrement = (params.initialTemperature - params.minTemperature) / params.maxIterations;
+  return (_iteration, temperature) => Math.max(temperature - decrement, params.minTemperature);
+}
+
+/**
+ * T(k) = initialTemperature / (1 + alpha * ln(1 + k)), applied as a ratio
+ * between consecutive iterations
+ */
+export function logarithmicCooling(alpha: number = 1): CoolingFunction {
+  return (iteration, temperature) =>
+    temperature * (1 + alpha * Math.log(1 + iteration)) / (1 + alpha * Math.log(2 + iteration));
+}
+
+/**
+ * Lundy–Mees: T / (1 + beta * T)
+ * Without beta, it is chosen so that the temperature reaches minTemperature after maxIterations.
+ */
+export function lundyMeesCooling(params: CoolingParameters, beta?: number): CoolingFunction {
+  const b = beta ?? (params.initialTemperature - params.minTemperature) /
+    (params.maxIterations * params.initialTemperature * params.minTemperature);
+  return (_iteration, temperature) => temperature / (1 + b * temperature);
+}
+
+/**
+ * Acceptance-ratio targeting: cool while more neighbours are accepted than
+ * the target, heat when fewer are. The target decreases linearly to 0 at
+ * maxIterations, so the run still cools down.
+ */
+export function adaptiveCooling(params: CoolingParameters, targetAcceptanceRatio: number = 0.5): CoolingFunction {
+  return (iteration, temperature, stats: CoolingStats) => {
+    const progress = Math.min(iteration / params.maxIterations, 1);
+    const target = targetAcceptanceRatio * (1 - progress);
+    return stats.acceptanceRatio >= target ? temperature * params.coolingRate : temperature / params.coolingRate;
+  };
+}
+
+/**
+ * Name of a cooling schedule option, for logs
+ */
+export function getCoolingScheduleName(option: CoolingScheduleOption): string {
+  if (typeof option === "function") {
+    return "custom";
+  }
+  return typeof option === "string" ? option : option.type;
+}
+
+/**
+ * Resolve AlgorithmConfig.coolingSchedule to a cooling function
+ */
+export function createCoolingSchedule(option: CoolingScheduleOption, params: CoolingParameters): CoolingFunction {
+  if (typeof option === "function") {
+    return option;
+  }
+
+  const config: CoolingScheduleConfig = typeof option === "string" ? { type: option } : option;
+
+  switch (config.type) {
+    case "geometric":
+      return geometricCooling(params.coolingRate);
+    case "linear":
+      return linearCooling(params);
+    case "logarithmic":
+      return logarithmicCooling(config.alpha);
+    case "lundy-mees":
+      return lundyMeesCooling(params, config.beta);
+    case "adaptive":
+      return adaptiveCooling(params, config.targetAcceptanceRatio);
+    default:
+      throw new Error(`Unknown cooling schedule: ${String((config as { type: unknown }).type)}`);
+  }
+}
+
+/**
+ * Share of accepted neighbours over a sliding window of recent iterations
+ */
+export class AcceptanceWindow {
+  private outcomes: Uint8Array;
+  private next = 0;
+  private count = 0;
+  private accepted = 0;
+
+  constructor(size: number = 100) {
+    this.outcomes = new Uint8Array(size);
+  }
+
+  record(accepted: boolean): void {
+    if (this.count === this.outcomes.length) {
+      this.accepted -= this.outcomes[this.next]!;
+    } else {
+      this.count++;
+    }
+    this.outcomes[this.next] = accepted ? 1 : 0;
+    this.accepted += accepted ? 1 : 0;
+    this.next = (this.next + 1) % this.outcomes.length;
+  }
+
+  get ratio(): number {
+    return this.count === 0 ? 1 : this.accepted / this.count;
+  }
+
+  /**
+   * Recorded outcomes as plain data (for checkpoints)
+   */
+  getState(): AcceptanceWindowState {
+    return { outcomes: [...this.outcomes], next: this.next, count: this.count };
+  }
+
+  setState(state: AcceptanceWindowState): void {
+    this.outcomes = Uint8Array.from(state.outcomes);
+    this.next = state.next;
+    this.count = state.count;
+    this.accepted = this.outcomes.reduce((sum, outcome) => sum + outcome, 0);
+  }
+}
@@ -0,0 +1,398 @@
+/**
+ * Fitness evaluation for timetable schedules
+ *
+ * - FitnessEvaluator: full pass over the schedule with the ConstraintChecker
+ * - DeltaFitnessEvaluator: keeps per-entry scores of the current schedule and
+ *   rescores only the entries a neighbour move can affect
+ *
+ * Both sum penalties in exactly the same order, so their results are
+ * bit-for-bit identical.
+ */
+
+import type { ScheduleEntry, SoftConstraintWeights } from "../types/index.js";
+import type { ConstraintChecker } from "../constraints/index.js";
+
+/**
+ * Result of evaluating a schedule
+ */
+export interface FitnessResult {
+  fitness: number;
+  hardViolations: number; // Built-in hard constraint violations (HC1-HC12)
+  customHardViolations: number; // Custom constraints and rules
+  softPenalty: number;
+  softTerms?: number[]; // Penalty per SOFT_PENALTY_TERMS entry (when the evaluator tracks them)
+  objectives?: number[]; // Multi-objective scores (set by the solver)
+}
+
+/**
+ * Soft penalty terms in the order of EntryScore.softTerms, then the custom soft constraints and rules
+ */
+export const SOFT_PENALTY_TERMS = [
+  "preferredTime",
+  "preferredRoom",
+  "transitTime",
+  "compactness",
+  "labRequirement",
+  "prayerTimeOverlap",
+  "eveningClassPriority",
+  "overflowPenalty",
+  "researchDay",
+  "customConstraints",
+] as const;
+
+/**
+ * Custom constraint score of a single entry against the entries before it
+ */
+interface CustomScore {
+  hardViolations: number;
+  softPenalty: number;
+}
+
+/**
+ * Built-in constraint and rule score of a single entry against the entries before it
+ */
+interface EntryScore {
+  hardViolations: number;
+  softTerms: number[];
+  rules: CustomScore; // Counted with the custom constraints
+}
+
+const NO_CUSTOM_SCORE: CustomScore = { hardViolations: 0, softPenalty: 0 };
+
+export class FitnessEvaluator {
+  private checker: ConstraintChecker;
+  private hardConstraintWeight: number;
+  private softConstraintWeights: Required<SoftConstraintWeights>;
+  private hasCustomConstraints: boolean;
+  private hasRules: boolean;
+  private trackSoftTerms: boolean;
+
+  /**
+   * @param trackSoftTerms - Also total the penalty of each soft constraint (FitnessResult.softTerms)
+   */
+  constructor(
+    checker: ConstraintChecker,
+    hardConstraintWeight: number,
+    softConstraintWeights: Required<SoftConstraintWeights>,
+    trackSoftTerms = false
+  ) {
+    this.checker = checker;
+    this.hardConstraintWeight = hardConstraintWeight;
+    this.softConstraintWeights = softConstraintWeights;
+    this.hasCustomConstraints = checker.hasCustomConstraints();
+    this.hasRules = checker.hasRules();
+    this.trackSoftTerms = trackSoftTerms;
+  }
+
+  getChecker(): ConstraintChecker {
+    return this.checker;
+  }
+
+  /**
+   * Change the soft constraint weights (scores computed before are not updated)
+   */
+  setSoftConstraintWeights(weights: Required<SoftConstraintWeights>): void {
+    this.softConstraintWeights = weights;
+  }
+
+  usesCustomConstraints(): boolean {
+    return this.hasCustomConstraints;
+  }
+
+  /**
+   * Score an entry on the built-in constraints and the declarative rules
+   *
+   * Every built-in pairwise constraint and rule only looks at entries on the
+   * same day, so `scheduleBeforeEntry` may be either the full prefix or just
+   * the same-day part of it.
+   */
+  scoreEntry(scheduleBeforeEntry: ScheduleEntry[], entry: ScheduleEntry): EntryScore {
+    const checker = this.checker;
+    const weights = this.softConstraintWeights;
+    let hardViolations = 0;
+
+    // HARD CONSTRAINTS
+    if (!checker.checkNoLecturerConflict(scheduleBeforeEntry, entry)) hardViolations++;
+    if (!checker.checkNoRoomConflict(scheduleBeforeEntry, entry)) hardViolations++;
+    if (!checker.checkRoomCapacity(entry)) hardViolations++;
+    if (!checker.checkNoClassConflictSameProdi(scheduleBeforeEntry, entry)) hardViolations++;
+    if (!checker.checkMaxDailyPeriods(scheduleBeforeEntry, entry)) hardViolations++;
+    if (!checker.checkClassTypeTime(entry)) hardViolations++;
+    if (!checker.checkSaturdayRestriction(entry)) hardViolations++;
+    if (!checker.checkFridayTimeRestriction(entry)) hardViolations++;
+    if (!checker.checkNotStartingDuringPrayerTime(entry)) hardViolations++;
+    if (!checker.checkExclusiveRoomConstraint(entry)) hardViolations++;
+
+    // SOFT CONSTRAINTS
+    const softTerms = [
+      (1 - checker.checkPreferredTime(entry)) * weights.preferredTime,
+      (1 - checker.checkPreferredRoom(entry)) * weights.preferredRoom,
+      (1 - checker.checkTransitTime(scheduleBeforeEntry, entry)) * weights.transitTime,
+      (1 - checker.checkCompactness(scheduleBeforeEntry, entry)) * weights.compactness,
+      (1 - checker.checkLabRequirement(entry)) * weights.labRequirement,
+      (1 - checker.checkPrayerTimeOverlap(entry)) * weights.prayerTimeOverlap,
+      (1 - checker.checkEveningClassPriority(entry)) * weights.eveningClassPriority,
+      (1 - checker.checkOverflowPenalty(entry)) * weights.overflowPenalty,
+      (1 - checker.checkResearchDay(entry)) * weights.researchDay,
+    ];
+
+    const rules = this.hasRules ? checker.checkRules(scheduleBeforeEntry, entry) : NO_CUSTOM_SCORE;
+
+    return { hardViolations, softTerms, rules };
+  }
+
+  /**
+   * Score an entry on the custom constraints (these always get the full prefix)
+   */
+  scoreCustom(scheduleBeforeEntry: ScheduleEntry[], entry: ScheduleEntry): CustomScore {
+    if (!this.hasCustomConstraints) {
+      return NO_CUSTOM_SCORE;
+    }
+    return this.checker.checkCustomConstraints(scheduleBeforeEntry, entry);
+  }
+
+  /**
+   * Full evaluation of a schedule (records violations in the checker)
+   */
+  evaluate(schedule: ScheduleEntry[]): FitnessResult {
+    this.checker.resetViolations();
+
+    const scores: EntryScore[] = [];
+    const customScores: CustomScore[] = [];
+
+    for (let i = 0; i < schedule.length; i++) {
+      const entry = schedule[i]!;
+      const scheduleBeforeEntry = schedule.slice(0, i);
+
+      scores.push(this.scoreEntry(scheduleBeforeEntry, entry));
+      customScores.push(this.scoreCustom(scheduleBeforeEntry, entry));
+    }
+
+    return this.combine(scores, customScores);
+  }
+
+  /**
+   * Penalty of each soft constraint in a schedule, in SOFT_PENALTY_TERMS order
+   * (records violations in the checker)
+   */
+  measureSoftTerms(schedule: ScheduleEntry[]): number[] {
+    this.checker.resetViolations();
+
+    const softTerms = new Array<number>(SOFT_PENALTY_TERMS.length).fill(0);
+    for (let i = 0; i < schedule.length; i++) {
+      const scheduleBeforeEntry = schedule.slice(0, i);
+      const score = this.scoreEntry(scheduleBeforeEntry, schedule[i]!);
+      score.softTerms.forEach((term, t) => (softTerms[t]! += term));
+      softTerms[softTerms.length - 1]! += this.scoreCustom(scheduleBeforeEntry, schedule[i]!).softPenalty + score.rules.softPenalty;
+    }
+    return softTerms;
+  }
+
+  /**
+   * Sum per-entry scores into a fitness value
+   */
+  combine(
+    scores: ReadonlyArray<EntryScore>,
+    customScores: ReadonlyArray<CustomScore>,
+    overrides?: ReadonlyMap<number, EntryScore>,
+    customOverrides?: ReadonlyMap<number, CustomScore>
+  ): FitnessResult {
+    let hardViolations = 0;
+    let customHardViolations = 0;
+    let softPenalty = 0;
+    const softTerms = this.trackSoftTerms ? new Array<number>(SOFT_PENALTY_TERMS.length).fill(0) : undefined;
+
+    for (let i = 0; i < scores.length; i++) {
+      const score = overrides?.get(i) ?? scores[i]!;
+      const customScore = customOverrides?.get(i) ?? customScores[i]!;
+
+      hardViolations += score.hardViolations;
+      for (const term of score.softTerms) {
+        softPenalty += term;
+      }
+
+      customHardViolations += customScore.hardViolations + score.rules.hardViolations;
+      softPenalty += customScore.softPenalty + score.rules.softPenalty;
+
+      if (softTerms) {
+        score.softTerms.forEach((term, t) => (softTerms[t]! += term));
+        softTerms[softTerms.length - 1]! += customScore.softPenalty + score.rules.softPenalty;
+      }
+    }
+
+    const fitness = (hardViolations + customHardViolations) * this.hardConstraintWeight + softPenalty;
+    const result: FitnessResult = {
+      fitness,
+      hardViolations,
+      customHardViolations,
+      softPenalty,
+    };
+    if (softTerms) {
+      result.softTerms = softTerms;
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Change to the current schedule that has been scored but not yet committed
+ */
+interface PendingDelta {
+  days: Map<number, string>;
+  dayIndex: Map<string, number[]>;
+  scores: Map<number, EntryScore>;
+  customScores: Map<number, CustomScore>;
+}
+
+/**
+ * Incremental evaluator for neighbour moves
+ *
+ * The schedule is indexed by day: every built-in pairwise constraint
+ * (lecturer, room, prodi-class, daily periods, transit time, compactness)
+ * and declarative rule only compares entries on the same day, and
+ * compactness compares an entry with every other class on that day. So when
+ * entries change, only the changed entries and the later entries on their
+ * old and new days need to be rescored. Custom constraints may look at anything, so they are rescored
+ * in full when present.
+ */
+export class DeltaFitnessEvaluator {
+  private evaluator: FitnessEvaluator;
+  private days: string[] = [];
+  private dayIndex = new Map<string, number[]>();
+  private scores: EntryScore[] = [];
+  private customScores: CustomScore[] = [];
+  private pending: PendingDelta | null = null;
+
+  constructor(evaluator: FitnessEvaluator) {
+    this.evaluator = evaluator;
+  }
+
+  /**
+   * Score a schedule from scratch and make it the current schedule
+   */
+  reset(schedule: ScheduleEntry[]): FitnessResult {
+    this.evaluator.getChecker().resetViolations();
+
+    this.days = schedule.map((entry) => entry.timeSlot.day);
+    this.dayIndex = new Map();
+    this.scores = [];
+    this.customScores = [];
+    this.pending = null;
+
+    for (let i = 0; i < schedule.length; i++) {
+      const entry = schedule[i]!;
+      const bucket = this.dayIndex.get(entry.timeSlot.day) ?? [];
+
+      this.scores.push(this.evaluator.scoreEntry(bucket.map((idx) => schedule[idx]!), entry));
+      this.customScores.push(this.evaluator.scoreCustom(schedule.slice(0, i), entry));
+
+      bucket.push(i);
+      this.dayIndex.set(entry.timeSlot.day, bucket);
+    }
+
+    return this.evaluator.combine(this.scores, this.customScores);
+  }
+
+  /**
+   * Score a neighbour of the current schedule
+   *
+   * `schedule` must equal the current schedule except at `changedIndices`
+   * (it may be a modified copy or the current schedule modified in place).
+   * The result stays pending until commit() is called.
+   */
+  evaluate(schedule: ScheduleEntry[], changedIndices: number[]): FitnessResult {
+    this.evaluator.getChecker().resetViolations();
+
+    const changed = [...new Set(changedIndices)].sort((a, b) => a - b);
+    const days = new Map<number, string>();
+    const dayIndex = new Map<string, number[]>();
+    const firstChangeByDay = new Map<string, number>();
+
+    const bucketFor = (day: string): number[] => {
+      let bucket = dayIndex.get(day);
+      if (!bucket) {
+        bucket = [...(this.dayIndex.get(day) ?? [])];
+        dayIndex.set(day, bucket);
+      }
+      return bucket;
+    };
+
+    for (const idx of changed) {
+      const oldDay = this.days[idx]!;
+      const newDay = schedule[idx]!.timeSlot.day;
+      days.set(idx, newDay);
+
+      if (oldDay !== newDay) {
+        const oldBucket = bucketFor(oldDay);
+        oldBucket.splice(oldBucket.indexOf(idx), 1);
+
+        const newBucket = bucketFor(newDay);
+        const insertAt = newBucket.findIndex((other) => other > idx);
+        newBucket.splice(insertAt === -1 ? newBucket.length : insertAt, 0, idx);
+      }
+
+      // Changed indices are sorted, so the first one seen per day is the lowest
+      for (const day of [oldDay, newDay]) {
+        if (!firstChangeByDay.has(day)) {
+          firstChangeByDay.set(day, idx);
+        }
+      }
+    }
+
+    // Rescore every entry at or after the first change on each affected day
+    const scores = new Map<number, EntryScore>();
+    for (const [day, firstChange] of firstChangeByDay) {
+      const bucket = dayIndex.get(day) ?? this.dayIndex.get(day) ?? [];
+      const scheduleBeforeEntry: ScheduleEntry[] = [];
+
+      for (const idx of bucket) {
+        const entry = schedule[idx]!;
+        if (idx >= firstChange) {
+          scores.set(idx, this.evaluator.scoreEntry(scheduleBeforeEntry, entry));
+        }
+        scheduleBeforeEntry.push(entry);
+      }
+    }
+
+    const customScores = new Map<number, CustomScore>();
+    if (this.evaluator.usesCustomConstraints() && changed.length > 0) {
+      for (let i = 0; i < schedule.length; i++) {
+        customScores.set(i, this.evaluator.scoreCustom(schedule.slice(0, i), schedule[i]!));
+      }
+    }
+
+    this.pending = { days, dayIndex, scores, customScores };
+
+    return this.evaluator.combine(this.scores, this.customScores, scores, customScores);
+  }
+
+  /**
+   * Make the last evaluated neighbour the current schedule
+   */
+  commit(): void {
+    if (!this.pending) return;
+
+    for (const [idx, day] of this.pending.days) {
+      this.days[idx] = day;
+    }
+    for (const [day, bucket] of this.pending.dayIndex) {
+      this.dayIndex.set(day, bucket);
+    }
+    for (const [idx, score] of this.pending.scores) {
+      this.scores[idx] = score;
+    }
+    for (const [idx, score] of this.pending.customScores) {
+      this.customScores[idx] = score;
+    }
+
+    this.pending = null;
+  }
+
+  /**
+   * Discard the last evaluated neighbour
+   */
+  discard(): void {
+    this.pending = null;
+  }
+}
@@ -3,4 +3,22 @@
  */
 
 export { SimulatedAnnealing } from "./simulated-annealing.js";
+export { TabuSearch } from "./tabu-search.js";
+export { LateAcceptanceHillClimbing } from "./late-acceptance.js";
+export { ParallelSolver } from "./parallel-solver.js";
+export { HyperparameterTuner } from "./tuner.js";
+export { readCheckpoint } from "./checkpoint.js";
+export { traceToCsv } from "./trace.js";
 export { DEFAULT_ALGORITHM_CONFIG, DEFAULT_SOFT_CONSTRAINT_WEIGHTS, mergeConfig } from "./config.js";
+export { FitnessEvaluator, DeltaFitnessEvaluator } from "./fitness-evaluator.js";
+export type { FitnessResult } from "./fitness-evaluator.js";
+export { PlacementMove, getPlacement, placeAtTimeSlot } from "./moves.js";
+export {
+  createCoolingSchedule,
+  geometricCooling,
+  linearCooling,
+  logarithmicCooling,
+  lundyMeesCooling,
+  adaptiveCooling,
+} from "./cooling.js";
+export type { CoolingParameters } from "./cooling.js";
@@ -0,0 +1,129 @@
+/**
+ * Late acceptance hill climbing for the University Course Timetabling Problem (UCTP)
+ *
+ * Shares the SimulatedAnnealing machinery (initial solution, operators,
+ * delta evaluation, locks, repair mode, stopping criteria and reports) and
+ * replaces the temperature-based acceptance with a comparison against the
+ * score of historyLength iterations ago (Burke & Bykov).
+ */
+
+import type { Room, Lecturer, ClassRequirement, AlgorithmConfig } from "../types/index.js";
+import { SimulatedAnnealing } from "./simulated-annealing.js";
+import type { SearchState, Score } from "./simulated-annealing.js";
+import { DEFAULT_LATE_ACCEPTANCE_CONFIG } from "./config.js";
+import { getOperatorSelectionName } from "./operator-selection.js";
+
+export class LateAcceptanceHillClimbing extends SimulatedAnnealing {
+  protected override algorithm = "late-acceptance";
+  private historyLength: number;
+  // Scores of the current solution over the last historyLength iterations (circular)
+  private history: Score[] = [];
+
+  constructor(
+    rooms: Room[],
+    lecturers: Lecturer[],
+    classes: ClassRequirement[],
+    config?: AlgorithmConfig
+  ) {
+    super(rooms, lecturers, classes, config);
+    this.rejectAnnealingSettings(config);
+
+    this.historyLength = { ...DEFAULT_LATE_ACCEPTANCE_CONFIG, ...config?.lateAcceptance }.historyLength;
+    if (!(Number.isInteger(this.historyLength) && this.historyLength >= 1)) {
+      throw new Error("lateAcceptance.historyLength must be a whole number of at least 1");
+    }
+  }
+
+  protected override logSearchStart(): void {
+    this.output.log("🚀 Starting Late Acceptance Hill Climbing...");
+    this.output.log(`   Seed: ${this.seed ?? "custom generator"}`);
+    this.output.log(`   Operator selection: ${getOperatorSelectionName(this.operatorSelection)}`);
+    this.output.log(`   History length: ${this.historyLength}\n`);
+
+    this.logger.info("Starting Late Acceptance Hill Climbing optimization");
+    this.logger.info("Algorithm configuration", {
+      historyLength: this.historyLength,
+      operatorSelection: getOperatorSelectionName(this.operatorSelection),
+      maxIterations: this.maxIterations,
+    });
+  }
+
+  protected override startSearch(state: SearchState): void {
+    state.temperature = 0;
+    this.history = new Array<Score>(this.historyLength).fill(this.currentScore(state.currentSolution));
+  }
+
+  protected override saveSearch(): { history: Score[] } {
+    return { history: this.history };
+  }
+
+  protected override restoreSearch(_state: SearchState, search: unknown): void {
+    this.history = (search as { history: Score[] }).history.map((score) => ({ ...score }));
+  }
+
+  protected override rescoreSearch(state: SearchState): void {
+    // Scores from before a weight update are not comparable: start a new history
+    this.history.fill(this.currentScore(state.currentSolution));
+  }
+
+  /**
+   * Accept a neighbour no worse than the current solution or the one from
+   * historyLength iterations ago
+   */
+  protected override advance(state: SearchState): boolean {
+    if (state.iteration >= this.maxIterations) {
+      state.stopReason = "max-iterations";
+      return false;
+    }
+
+    const solution = state.currentSolution;
+    const { move, operator } = this.generateNeighbor(solution);
+
+    this.operatorStats[operator]!.attempts++;
+
+    const current = this.currentScore(solution);
+    const neighbor = this.applyMove(solution, move);
+    const slot = state.iteration % this.historyLength;
+    const delta = this.compareScores(neighbor, current);
+    const accepted = delta <= 0 || this.compareScores(neighbor, this.history[slot]!) <= 0;
+    this.creditOperator(state, operator, accepted && delta < 0);
+
+    if (accepted) {
+      this.acceptMove(solution, neighbor);
+      this.recordOutcome(state, true);
+      state.currentHardViolations = neighbor.hardViolations;
+
+      if (this.improvesBest(state, neighbor)) {
+        this.recordBest(state, neighbor);
+
+        this.output.log(
+          `✨ [LAHC] New best! Iteration ${state.iteration}, ` +
+          `Hard violations: ${state.bestHardViolations}, ` +
+          `Fitness: ${state.bestSolution.fitness.toFixed(2)}, ` +
+          `Operator: ${operator.toUpperCase()}`
+        );
+      }
+    } else {
+      this.rejectMove(solution, move);
+      this.recordOutcome(state, false);
+    }
+
+    this.history[slot] = this.currentScore(solution);
+    state.iteration++;
+    this.checkFeasible(state);
+
+    if (state.iteration % 1000 === 0) {
+      this.output.log(
+        `⏳ [LAHC] Iteration ${state.iteration}, ` +
+        `Current: ${solution.fitness.toFixed(2)}, ` +
+        `Best: ${state.bestSolution.fitness.toFixed(2)}`
+      );
+    }
+
+    return true;
+  }
+
+  protected override reportSearch(): void {
+    // No algorithm-specific results beyond the shared metadata
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Locked (pinned) placements
+ *
+ * A class can lock its day, start time and/or room through the Locked_*
+ * columns of its requirement, or lock its whole placement with Locked: "yes".
+ * Neighbourhood moves and greedy placement never change a locked attribute;
+ * the constraint checker still evaluates locked entries as usual.
+ */
+
+import type { ClassRequirement, TimeSlot } from "../types/index.js";
+
+/**
+ * Locked attributes of a schedule entry (undefined = free)
+ */
+export interface EntryLock {
+  day?: string;
+  startTime?: string;
+  room?: string;
+}
+
+/**
+ * Normalize "8.20", "08:20" or "8:20" to "08:20"
+ * Excel time cells (a fraction of a day, e.g. 0.347 for 08:20) are converted too.
+ */
+export function normalizeLockTime(time: string | number): string {
+  if (typeof time === "number" && time >= 0 && time < 1) {
+    const totalMinutes = Math.round(time * 24 * 60);
+    return `${String(Math.floor(totalMinutes / 60)).padStart(2, "0")}:${String(totalMinutes % 60).padStart(2, "0")}`;
+  }
+
+  const [hours = "0", minutes = "0"] = String(time).trim().split(/[.:]/);
+  return `${hours.padStart(2, "0")}:${minutes.padEnd(2, "0").slice(0, 2)}`;
+}
+
+/**
+ * Normalize "tuesday" or "TUESDAY" to "Tuesday"
+ */
+function normalizeLockDay(day: string): string {
+  const trimmed = String(day).trim();
+  return trimmed.charAt(0).toUpperCase() + trimmed.slice(1).toLowerCase();
+}
+
+/**
+ * Attributes locked by the Locked_Day / Locked_Time / Locked_Room columns of a class
+ */
+export function getClassLock(classReq: ClassRequirement): EntryLock | undefined {
+  const lock: EntryLock = {};
+
+  if (classReq.Locked_Day) {
+    lock.day = normalizeLockDay(classReq.Locked_Day);
+  }
+  if (classReq.Locked_Time) {
+    lock.startTime = normalizeLockTime(classReq.Locked_Time);
+  }
+  if (classReq.Locked_Room) {
+    lock.room = String(classReq.Locked_Room).trim();
+  }
+
+  return Object.keys(lock).length > 0 ? lock : undefined;
+}
+
+/**
+ * Whether the class keeps its whole initial placement (Locked: "yes")
+ */
+export function isClassLocked(classReq: ClassRequirement): boolean {
+  return String(classReq.Locked ?? "").trim().toLowerCase() === "yes";
+}
+
+/**
+ * Whether day, start time and room are all locked
+ */
+export function isFullyLocked(lock: EntryLock | undefined): boolean {
+  return lock !== undefined && lock.day !== undefined && lock.startTime !== undefined && lock.room !== undefined;
+}
+
+/**
+ * Whether a time slot keeps the locked day and start time
+ */
+export function allowsTimeSlot(lock: EntryLock | undefined, slot: TimeSlot): boolean {
+  if (!lock) return true;
+  return (lock.day === undefined || lock.day === slot.day) &&
+    (lock.startTime === undefined || lock.startTime === slot.startTime);
+}
+
+/**
+ * Whether a room keeps the locked room
+ */
+export function allowsRoom(lock: EntryLock | undefined, room: string): boolean {
+  return lock?.room === undefined || lock.room === room;
+}
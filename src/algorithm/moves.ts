@@ -0,0 +1,212 @@
+/**
+ * Neighbourhood moves applied to a schedule in place
+ *
+ * A move records the placements it overwrites when applied, so a rejected
+ * move is reverted with undo() instead of cloning the whole schedule.
+ */
+
+import type { ScheduleEntry, Solution, TimeSlot, Placement, PlacementChange, Move } from "../types/index.js";
+import { calculateEndTime, hasClassOverlap, timeToMinutes } from "../utils/index.js";
+
+/**
+ * Read the current placement of an entry
+ */
+export function getPlacement(entry: ScheduleEntry): Placement {
+  return {
+    timeSlot: entry.timeSlot,
+    room: entry.room,
+    prayerTimeAdded: entry.prayerTimeAdded,
+    isOverflowToLab: entry.isOverflowToLab,
+  };
+}
+
+/**
+ * Overwrite the placement of an entry
+ *
+ * Time slot objects are replaced, never modified, so placements can safely
+ * share them.
+ */
+export function setPlacement(entry: ScheduleEntry, placement: Placement): void {
+  entry.timeSlot = placement.timeSlot;
+  entry.room = placement.room;
+  entry.prayerTimeAdded = placement.prayerTimeAdded;
+  if (placement.isOverflowToLab === undefined) {
+    delete entry.isOverflowToLab;
+  } else {
+    entry.isOverflowToLab = placement.isOverflowToLab;
+  }
+}
+
+/**
+ * Placement of an entry moved to another time slot (room unchanged)
+ * The end time is recalculated from the entry's SKS
+ */
+export function placeAtTimeSlot(entry: ScheduleEntry, placement: Placement, slot: TimeSlot): Placement {
+  const calc = calculateEndTime(slot.startTime, entry.sks, slot.day);
+  return {
+    ...placement,
+    timeSlot: {
+      ...slot,
+      endTime: calc.endTime,
+    },
+    prayerTimeAdded: calc.prayerTimeAdded,
+  };
+}
+
+/**
+ * Whether two time slots start on the same day and time
+ */
+export function isSameStart(a: TimeSlot, b: TimeSlot): boolean {
+  return a.day === b.day && a.startTime === b.startTime;
+}
+
+/**
+ * Whether two entries share a lecturer, a class of the same prodi or a room
+ */
+function sharesResources(a: ScheduleEntry, b: ScheduleEntry): boolean {
+  return a.room === b.room ||
+    a.lecturers.some((lecturer) => b.lecturers.includes(lecturer)) ||
+    (a.prodi === b.prodi && hasClassOverlap(a.class, b.class));
+}
+
+/**
+ * Whether two time slots are on the same day with overlapping [start, end) times
+ */
+function overlaps(a: TimeSlot, b: TimeSlot): boolean {
+  return a.day === b.day &&
+    timeToMinutes(a.startTime) < timeToMinutes(b.endTime) &&
+    timeToMinutes(b.startTime) < timeToMinutes(a.endTime);
+}
+
+/**
+ * Kempe chain of the entry at `startIndex` between its start time and `target`
+ *
+ * Every entry in the chain moves to the other start time, keeping its room.
+ * An entry that the moved time of a chain entry overlaps, and that shares a
+ * lecturer, a prodi class or the room with it, joins the chain when it starts
+ * at one of the two times. Returns indices in breadth-first order,
+ * `startIndex` first, or undefined when the exchange would cause a conflict
+ * the chain cannot absorb: an entry starting at another time (e.g. a longer
+ * class starting a period earlier), or two chain entries that only overlap
+ * after the exchange.
+ */
+export function findKempeChain(schedule: ScheduleEntry[], startIndex: number, target: TimeSlot): number[] | undefined {
+  const source = schedule[startIndex]!.timeSlot;
+  const movedSlots = new Map<number, TimeSlot>();
+  const chain = [startIndex];
+
+  for (let i = 0; i < chain.length; i++) {
+    const entry = schedule[chain[i]!]!;
+    const slot = isSameStart(entry.timeSlot, source) ? target : source;
+    const moved = placeAtTimeSlot(entry, getPlacement(entry), slot).timeSlot;
+    movedSlots.set(chain[i]!, moved);
+
+    for (const [index, other] of schedule.entries()) {
+      if (movedSlots.has(index) || chain.includes(index)) continue;
+      if (!overlaps(moved, other.timeSlot) || !sharesResources(entry, other)) continue;
+      if (!isSameStart(other.timeSlot, source) && !isSameStart(other.timeSlot, target)) {
+        return undefined;
+      }
+      chain.push(index);
+    }
+  }
+
+  // Chain entries were checked against the others at their current times only
+  for (const [i, a] of chain.entries()) {
+    for (const b of chain.slice(i + 1)) {
+      const entryA = schedule[a]!;
+      const entryB = schedule[b]!;
+      if (
+        sharesResources(entryA, entryB) &&
+        overlaps(movedSlots.get(a)!, movedSlots.get(b)!) &&
+        !overlaps(entryA.timeSlot, entryB.timeSlot)
+      ) {
+        return undefined;
+      }
+    }
+  }
+
+  return chain;
+}
+
+/**
+ * Move that sets new placements for one or more entries
+ */
+export class PlacementMove implements Move {
+  readonly indices: number[];
+  private changes: PlacementChange[];
+  private previous: Placement[] = [];
+
+  constructor(changes: PlacementChange[]) {
+    this.changes = changes;
+    this.indices = changes.map((change) => change.index);
+  }
+
+  apply(schedule: ScheduleEntry[]): void {
+    this.previous = this.changes.map((change) => getPlacement(schedule[change.index]!));
+    for (const change of this.changes) {
+      setPlacement(schedule[change.index]!, change.placement);
+    }
+  }
+
+  undo(schedule: ScheduleEntry[]): void {
+    for (let i = this.changes.length - 1; i >= 0; i--) {
+      setPlacement(schedule[this.changes[i]!.index]!, this.previous[i]!);
+    }
+  }
+}
+
+/**
+ * Move that adds an unscheduled class at the end of the schedule, after
+ * relocating the entries it ejects
+ *
+ * `indices` lists the relocated entries; the new entry is always the last one.
+ */
+export class InsertionMove implements Move {
+  readonly indices: number[];
+  readonly classIndex: number;
+  private entry: ScheduleEntry;
+  private relocations: PlacementMove;
+
+  /**
+   * @param classIndex - Index of the inserted class in the class requirements
+   */
+  constructor(classIndex: number, entry: ScheduleEntry, relocations: PlacementChange[]) {
+    this.classIndex = classIndex;
+    this.entry = entry;
+    this.relocations = new PlacementMove(relocations);
+    this.indices = this.relocations.indices;
+  }
+
+  apply(schedule: ScheduleEntry[]): void {
+    this.relocations.apply(schedule);
+    schedule.push(this.entry);
+  }
+
+  undo(schedule: ScheduleEntry[]): void {
+    schedule.pop();
+    this.relocations.undo(schedule);
+  }
+}
+
+/**
+ * Copy a schedule so later moves on the original do not affect it
+ */
+export function cloneSchedule(schedule: ScheduleEntry[]): ScheduleEntry[] {
+  return schedule.map((entry) => ({
+    ...entry,
+    class: Array.isArray(entry.class) ? [...entry.class] : entry.class,
+    lecturers: [...entry.lecturers],
+    timeSlot: { ...entry.timeSlot },
+  }));
+}
+
+/**
+ * Copy a solution (used to capture the best solution of a run)
+ */
+export function cloneSolution(solution: Solution): Solution {
+  return {
+    ...solution,
+    schedule: cloneSchedule(solution.schedule),
+  };
+}
@@ -0,0 +1,360 @@
+/**
+ * Adaptive operator selection
+ *
+ * A selector picks the next neighbourhood operator among the applicable ones
+ * and is credited after every move: reward 1 when the accepted neighbour
+ * improved the current solution, 0 otherwise.
+ */
+
+import type {
+  OperatorSelectionConfig,
+  OperatorSelectionName,
+  OperatorSelectionOption,
+  OperatorSelectorState,
+  OperatorUsage,
+  OperatorUsageCounts,
+  RandomNumberGenerator,
+  SolverPhase,
+} from "../types/index.js";
+
+/**
+ * Chooses operators and learns from their rewards
+ */
+export interface OperatorSelector {
+  /** Name of the operator to use next, among the applicable `names` */
+  select(names: string[]): string;
+  /** Credit an operator after its move was accepted or rejected (reward in [0, 1]) */
+  reward(name: string, reward: number): void;
+  /** Learned credit as plain data (for checkpoints) */
+  getState(): OperatorSelectorState;
+  /** Continue from a state returned by getState() */
+  setState(state: OperatorSelectorState): void;
+}
+
+function toMap<T>(table: unknown): Map<string, T> {
+  return new Map(Object.entries(table as Record<string, T>));
+}
+
+/**
+ * Index drawn with probability proportional to its weight (weights sum to > 0)
+ */
+function spin(weights: number[], rng: RandomNumberGenerator): number {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let pick = rng.next() * total;
+  for (let i = 0; i < weights.length; i++) {
+    pick -= weights[i]!;
+    if (pick < 0) return i;
+  }
+  return weights.length - 1;
+}
+
+/**
+ * p_i = pMin + (1 - K * pMin) * q_i / sum(q), uniform while no operator has credit
+ */
+function matchProbabilities(qualities: number[], minProbability: number): number[] {
+  const total = qualities.reduce((sum, quality) => sum + quality, 0);
+  if (total === 0) {
+    return qualities.map(() => 1 / qualities.length);
+  }
+  const pMin = Math.min(minProbability, 1 / qualities.length);
+  return qualities.map((quality) => pMin + (1 - qualities.length * pMin) * quality / total);
+}
+
+/**
+ * Success-rate roulette (the original rule): a uniform choice 30% of the
+ * time, otherwise proportional to improvements / attempts over the whole run
+ */
+export class SuccessRateSelector implements OperatorSelector {
+  private rng: RandomNumberGenerator;
+  private attempts = new Map<string, number>();
+  private improvements = new Map<string, number>();
+
+  constructor(rng: RandomNumberGenerator) {
+    this.rng = rng;
+  }
+
+  select(names: string[]): string {
+    if (this.rng.next() < 0.3) {
+      return names[Math.floor(this.rng.next() * names.length)]!;
+    }
+
+    const rates = names.map((name) => {
+      const attempts = this.attempts.get(name) ?? 0;
+      return attempts > 0 ? (this.improvements.get(name) ?? 0) / attempts : 0;
+    });
+    if (rates.every((rate) => rate === 0)) {
+      return names[Math.floor(this.rng.next() * names.length)]!;
+    }
+    return names[spin(rates, this.rng)]!;
+  }
+
+  reward(name: string, reward: number): void {
+    this.attempts.set(name, (this.attempts.get(name) ?? 0) + 1);
+    if (reward > 0) {
+      this.improvements.set(name, (this.improvements.get(name) ?? 0) + 1);
+    }
+  }
+
+  getState(): OperatorSelectorState {
+    return { attempts: Object.fromEntries(this.attempts), improvements: Object.fromEntries(this.improvements) };
+  }
+
+  setState(state: OperatorSelectorState): void {
+    this.attempts = toMap(state.attempts);
+    this.improvements = toMap(state.improvements);
+  }
+}
+
+/**
+ * Probability matching: quality q <- q + alpha * (reward - q), chosen with
+ * probability proportional to q above a floor of minProbability
+ */
+export class ProbabilityMatchingSelector implements OperatorSelector {
+  protected rng: RandomNumberGenerator;
+  protected minProbability: number;
+  protected adaptationRate: number;
+  protected qualities = new Map<string, number>();
+
+  constructor(rng: RandomNumberGenerator, minProbability: number, adaptationRate: number) {
+    this.rng = rng;
+    this.minProbability = minProbability;
+    this.adaptationRate = adaptationRate;
+  }
+
+  select(names: string[]): string {
+    const probabilities = matchProbabilities(names.map((name) => this.quality(name)), this.minProbability);
+    return names[spin(probabilities, this.rng)]!;
+  }
+
+  reward(name: string, reward: number): void {
+    const quality = this.quality(name);
+    this.qualities.set(name, quality + this.adaptationRate * (reward - quality));
+  }
+
+  getState(): OperatorSelectorState {
+    return { qualities: Object.fromEntries(this.qualities) };
+  }
+
+  setState(state: OperatorSelectorState): void {
+    this.qualities = toMap(state.qualities);
+  }
+
+  protected quality(name: string): number {
+    return this.qualities.get(name) ?? 0;
+  }
+}
+
+/**
+ * Adaptive pursuit: the probability of the operator with the best quality
+ * moves towards pMax = 1 - (K - 1) * pMin, the others towards pMin
+ */
+export class AdaptivePursuitSelector extends ProbabilityMatchingSelector {
+  private names: string[];
+  private learningRate: number;
+  private probabilities: Map<string, number>;
+
+  constructor(
+    rng: RandomNumberGenerator,
+    names: string[],
+    minProbability: number,
+    adaptationRate: number,
+    learningRate: number
+  ) {
+    super(rng, minProbability, adaptationRate);
+    this.names = names;
+    this.learningRate = learningRate;
+    this.probabilities = new Map(names.map((name) => [name, 1 / names.length]));
+  }
+
+  override select(names: string[]): string {
+    return names[spin(names.map((name) => this.probabilities.get(name) ?? 0), this.rng)]!;
+  }
+
+  override reward(name: string, reward: number): void {
+    if (!this.probabilities.has(name)) return;
+    super.reward(name, reward);
+
+    const pMin = Math.min(this.minProbability, 1 / this.names.length);
+    const pMax = 1 - (this.names.length - 1) * pMin;
+    let best = this.names[0]!;
+    for (const candidate of this.names) {
+      if (this.quality(candidate) > this.quality(best)) best = candidate;
+    }
+
+    for (const candidate of this.names) {
+      const probability = this.probabilities.get(candidate)!;
+      const target = candidate === best ? pMax : pMin;
+      this.probabilities.set(candidate, probability + this.learningRate * (target - probability));
+    }
+  }
+
+  override getState(): OperatorSelectorState {
+    return { ...super.getState(), probabilities: Object.fromEntries(this.probabilities) };
+  }
+
+  override setState(state: OperatorSelectorState): void {
+    super.setState(state);
+    this.probabilities = toMap(state.probabilities);
+  }
+}
+
+/**
+ * UCB1 multi-armed bandit: every operator is tried once, then the one with
+ * the highest mean reward + exploration * sqrt(ln(total uses) / uses) is chosen
+ */
+export class Ucb1Selector implements OperatorSelector {
+  private exploration: number;
+  private uses = new Map<string, number>();
+  private rewards = new Map<string, number>();
+  private total = 0;
+
+  constructor(exploration: number) {
+    this.exploration = exploration;
+  }
+
+  select(names: string[]): string {
+    const untried = names.find((name) => !this.uses.has(name));
+    if (untried !== undefined) return untried;
+
+    let best = names[0]!;
+    let bestScore = -Infinity;
+    for (const name of names) {
+      const uses = this.uses.get(name)!;
+      const score = this.rewards.get(name)! / uses + this.exploration * Math.sqrt(Math.log(this.total) / uses);
+      if (score > bestScore) {
+        best = name;
+        bestScore = score;
+      }
+    }
+    return best;
+  }
+
+  reward(name: string, reward: number): void {
+    this.uses.set(name, (this.uses.get(name) ?? 0) + 1);
+    this.rewards.set(name, (this.rewards.get(name) ?? 0) + reward);
+    this.total++;
+  }
+
+  getState(): OperatorSelectorState {
+    return { uses: Object.fromEntries(this.uses), rewards: Object.fromEntries(this.rewards), total: this.total };
+  }
+
+  setState(state: OperatorSelectorState): void {
+    this.uses = toMap(state.uses);
+    this.rewards = toMap(state.rewards);
+    this.total = state.total as number;
+  }
+}
+
+/**
+ * Sliding-window credit: quality is the mean reward of an operator's last
+ * windowSize moves, chosen by probability matching; old results drop out
+ */
+export class SlidingWindowSelector extends ProbabilityMatchingSelector {
+  private windowSize: number;
+  private windows = new Map<string, number[]>();
+
+  constructor(rng: RandomNumberGenerator, minProbability: number, windowSize: number) {
+    super(rng, minProbability, 0);
+    this.windowSize = windowSize;
+  }
+
+  override reward(name: string, reward: number): void {
+    const window = this.windows.get(name) ?? [];
+    window.push(reward);
+    if (window.length > this.windowSize) window.shift();
+    this.windows.set(name, window);
+    this.qualities.set(name, window.reduce((sum, value) => sum + value, 0) / window.length);
+  }
+
+  override getState(): OperatorSelectorState {
+    return { ...super.getState(), windows: Object.fromEntries(this.windows) };
+  }
+
+  override setState(state: OperatorSelectorState): void {
+    super.setState(state);
+    this.windows = new Map([...toMap<number[]>(state.windows)].map(([name, window]) => [name, [...window]]));
+  }
+}
+
+/**
+ * Name of an operator selection option, for logs and reports
+ */
+export function getOperatorSelectionName(option: OperatorSelectionOption): OperatorSelectionName {
+  return typeof option === "string" ? option : option.type;
+}
+
+/**
+ * Resolve AlgorithmConfig.operatorSelection to a selector over `names`
+ */
+export function createOperatorSelector(
+  option: OperatorSelectionOption,
+  names: string[],
+  rng: RandomNumberGenerator
+): OperatorSelector {
+  const config: OperatorSelectionConfig = typeof option === "string" ? { type: option } : option;
+  const minProbability = config.minProbability ?? 0.05;
+  const adaptationRate = config.adaptationRate ?? 0.2;
+
+  switch (config.type) {
+    case "success-rate":
+      return new SuccessRateSelector(rng);
+    case "probability-matching":
+      return new ProbabilityMatchingSelector(rng, minProbability, adaptationRate);
+    case "adaptive-pursuit":
+      return new AdaptivePursuitSelector(rng, names, minProbability, adaptationRate, config.learningRate ?? 0.2);
+    case "ucb1":
+      return new Ucb1Selector(config.exploration ?? Math.SQRT2);
+    case "sliding-window":
+      return new SlidingWindowSelector(rng, minProbability, config.windowSize ?? 100);
+    default:
+      throw new Error(`Unknown operator selection strategy: ${String((config as { type: unknown }).type)}`);
+  }
+}
+
+/**
+ * Operator choices and improvements per phase and per window of iterations
+ */
+export class OperatorUsageTracker {
+  private usage: OperatorUsage;
+
+  constructor(strategy: OperatorSelectionName, windowSize: number) {
+    this.usage = { strategy, windowSize, phase1: {}, phase2: {}, windows: [] };
+  }
+
+  /**
+   * Record the operator used in an iteration; a new window starts every
+   * windowSize iterations and when the phase changes
+   */
+  record(phase: SolverPhase, iteration: number, operator: string, improved: boolean): void {
+    let window = this.usage.windows[this.usage.windows.length - 1];
+    if (!window || window.phase !== phase || iteration >= window.startIteration + this.usage.windowSize) {
+      window = { phase, startIteration: iteration, iterations: 0, operators: {} };
+      this.usage.windows.push(window);
+    }
+    window.iterations++;
+
+    count(window.operators, operator, improved);
+    count(phase === 1 ? this.usage.phase1 : this.usage.phase2, operator, improved);
+  }
+
+  getUsage(): OperatorUsage {
+    return this.usage;
+  }
+
+  /**
+   * Continue counting from a report of getUsage() (resumed runs)
+   */
+  setUsage(usage: OperatorUsage): void {
+    this.usage = structuredClone(usage);
+  }
+}
+
+/**
+ * Add one selection (and improvement) of an operator
+ */
+function count(counts: Record<string, OperatorUsageCounts>, operator: string, improved: boolean): void {
+  const entry = counts[operator] ?? (counts[operator] = { selections: 0, improvements: 0 });
+  entry.selections++;
+  if (improved) entry.improvements++;
+}
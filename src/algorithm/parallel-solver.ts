@@ -0,0 +1,216 @@
+/**
+ * Multi-start parallel solving
+ *
+ * Runs independent Simulated Annealing instances with different seeds in
+ * worker threads and keeps the best solution.
+ */
+
+import { Worker } from "worker_threads";
+import os from "os";
+import type {
+  Room,
+  Lecturer,
+  ClassRequirement,
+  AlgorithmConfig,
+  Solution,
+  ParallelSolverOptions,
+  ParallelSolveResult,
+  WorkerRunStats,
+} from "../types/index.js";
+import { generateSeed } from "../utils/index.js";
+import { SILENT_OUTPUT } from "../utils/logger.js";
+import type { ConsoleOutput } from "../utils/logger.js";
+import { DEFAULT_LOGGING_CONFIG } from "./config.js";
+
+/**
+ * Data sent to a worker (must be structured-cloneable)
+ */
+export interface ParallelWorkerInput {
+  rooms: Room[];
+  lecturers: Lecturer[];
+  classes: ClassRequirement[];
+  config: AlgorithmConfig;
+  seed: number;
+}
+
+/**
+ * Result posted back by a worker
+ */
+export interface ParallelWorkerOutput {
+  solution?: Solution;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * Compiled worker entry point, next to this module in dist
+ */
+const WORKER_SCRIPT = new URL("./parallel-worker.js", import.meta.url);
+
+export class ParallelSolver {
+  private rooms: Room[];
+  private lecturers: Lecturer[];
+  private classes: ClassRequirement[];
+  private config: AlgorithmConfig;
+  private options: ParallelSolverOptions;
+  private output: ConsoleOutput;
+
+  constructor(
+    rooms: Room[],
+    lecturers: Lecturer[],
+    classes: ClassRequirement[],
+    config?: AlgorithmConfig,
+    options?: ParallelSolverOptions
+  ) {
+    this.rooms = rooms;
+    this.lecturers = lecturers;
+    this.classes = classes;
+    this.config = config ?? {};
+    this.options = options ?? {};
+    this.output = this.config.quiet ? SILENT_OUTPUT : console;
+
+    if (this.config.constraints?.customConstraints?.length) {
+      throw new Error("ParallelSolver does not support custom constraint functions (they cannot be sent to worker threads)");
+    }
+    if (typeof this.config.coolingSchedule === "function") {
+      throw new Error("ParallelSolver does not support a custom cooling function; use a built-in cooling schedule");
+    }
+    if (this.config.operators?.length) {
+      throw new Error("ParallelSolver does not support custom neighbourhood operators (they cannot be sent to worker threads)");
+    }
+    if (this.config.multiObjective?.objectives?.some((objective) => typeof objective !== "string")) {
+      throw new Error("ParallelSolver does not support custom objective functions (they cannot be sent to worker threads)");
+    }
+    if (this.config.checkpoint) {
+      throw new Error("ParallelSolver does not support checkpoints (every worker would write the same file)");
+    }
+    if (this.config.trace?.filePath || this.config.trace?.chartPath) {
+      throw new Error("ParallelSolver does not support trace files (every worker would write the same file)");
+    }
+    const logging = { ...DEFAULT_LOGGING_CONFIG, ...this.config.logging };
+    if (logging.enabled && (logging.output === "file" || logging.output === "both")) {
+      throw new Error("ParallelSolver does not support log files (every worker would write the same file)");
+    }
+    if (this.config.random) {
+      throw new Error("ParallelSolver does not support a custom random generator; use seeds instead");
+    }
+  }
+
+  /**
+   * Seeds for each worker: explicit seeds > config.seed + worker index > random
+   */
+  private getSeeds(): number[] {
+    if (this.options.seeds && this.options.seeds.length > 0) {
+      return this.options.seeds;
+    }
+
+    const workerCount = Math.max(1, this.options.workers ?? os.cpus().length);
+    const baseSeed = this.config.seed;
+
+    return Array.from({ length: workerCount }, (_, i) =>
+      baseSeed !== undefined ? (baseSeed + i) >>> 0 : generateSeed()
+    );
+  }
+
+  /**
+   * Run one solver in a worker thread
+   */
+  private runWorker(workerId: number, seed: number): Promise<{ stats: WorkerRunStats; solution?: Solution }> {
+    const input: ParallelWorkerInput = {
+      rooms: this.rooms,
+      lecturers: this.lecturers,
+      classes: this.classes,
+      config: this.config,
+      seed,
+    };
+
+    return new Promise((resolve) => {
+      const worker = new Worker(this.options.workerScript ?? WORKER_SCRIPT, {
+        workerData: input,
+        stdout: !this.options.verbose,
+      });
+
+      // Discard solver console output unless verbose
+      if (!this.options.verbose) {
+        worker.stdout.resume();
+      }
+
+      let settled = false;
+      const finish = (output: ParallelWorkerOutput): void => {
+        if (settled) return;
+        settled = true;
+
+        const stats: WorkerRunStats = {
+          workerId,
+          seed,
+          durationMs: output.durationMs,
+        };
+        if (output.solution) {
+          stats.fitness = output.solution.fitness;
+          stats.hardViolations = output.solution.hardViolations;
+          stats.scheduledClasses = output.solution.schedule.length;
+        }
+        if (output.error) {
+          stats.error = output.error;
+        }
+
+        resolve(output.solution ? { stats, solution: output.solution } : { stats });
+      };
+
+      const startTime = Date.now();
+      worker.once("message", (output: ParallelWorkerOutput) => finish(output));
+      worker.once("error", (error) => finish({ error: error.message, durationMs: Date.now() - startTime }));
+      worker.once("exit", (code) => {
+        finish({ error: `Worker exited with code ${code}`, durationMs: Date.now() - startTime });
+      });
+    });
+  }
+
+  /**
+   * Run all workers and return the best solution with per-worker statistics
+   */
+  async solve(): Promise<ParallelSolveResult> {
+    const seeds = this.getSeeds();
+
+    this.output.log(`🚀 Starting ${seeds.length} parallel Simulated Annealing runs...`);
+
+    const results = await Promise.all(seeds.map((seed, workerId) => this.runWorker(workerId, seed)));
+
+    let best: { solution: Solution; workerId: number } | null = null;
+    for (const result of results) {
+      if (!result.solution) continue;
+      if (!best || comparableFitness(result.solution) < comparableFitness(best.solution)) {
+        best = { solution: result.solution, workerId: result.stats.workerId };
+      }
+    }
+
+    const workers = results.map((result) => result.stats);
+
+    if (!best) {
+      const errors = workers.map((w) => `worker ${w.workerId}: ${w.error}`).join("; ");
+      throw new Error(`All parallel solver runs failed (${errors})`);
+    }
+
+    for (const stats of workers) {
+      const status = stats.error
+        ? `failed (${stats.error})`
+        : `fitness ${stats.fitness!.toFixed(2)}, hard violations ${stats.hardViolations}`;
+      this.output.log(`   Worker ${stats.workerId} (seed ${stats.seed}): ${status}, ${stats.durationMs}ms`);
+    }
+    this.output.log(`🏆 Best solution from worker ${best.workerId}: fitness ${best.solution.fitness.toFixed(2)}\n`);
+
+    return {
+      best: best.solution,
+      bestWorkerId: best.workerId,
+      workers,
+    };
+  }
+}
+
+/**
+ * Fitness under the configured soft constraint weights: with adaptiveWeights,
+ * every worker learns its own weights and their fitness values differ in scale
+ */
+function comparableFitness(solution: Solution): number {
+  return solution.metadata?.adaptiveWeights?.initialWeightsFitness ?? solution.fitness;
+}
@@ -0,0 +1,30 @@
+/**
+ * Worker thread entry point for ParallelSolver
+ */
+
+import { parentPort, workerData } from "worker_threads";
+import { SimulatedAnnealing } from "./simulated-annealing.js";
+import type { ParallelWorkerInput, ParallelWorkerOutput } from "./parallel-solver.js";
+
+const input = workerData as ParallelWorkerInput;
+const startTime = Date.now();
+
+try {
+  const solver = new SimulatedAnnealing(input.rooms, input.lecturers, input.classes, {
+    ...input.config,
+    seed: input.seed,
+  });
+  const solution = solver.solve();
+
+  const output: ParallelWorkerOutput = {
+    solution,
+    durationMs: Date.now() - startTime,
+  };
+  parentPort?.postMessage(output);
+} catch (error) {
+  const output: ParallelWorkerOutput = {
+    error: error instanceof Error ? error.message : String(error),
+    durationMs: Date.now() - startTime,
+  };
+  parentPort?.postMessage(output);
+}
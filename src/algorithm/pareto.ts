@@ -0,0 +1,150 @@
+/**
+ * Pareto archive for multi-objective mode
+ *
+ * Keeps the non-dominated solutions seen during a run. A solution with fewer
+ * hard violations always dominates; between equally feasible solutions, one
+ * dominates another when it is no worse on every objective and better on at
+ * least one (all objectives are minimised).
+ */
+
+import type { ScheduleEntry, ParetoSolution } from "../types/index.js";
+import { cloneSchedule } from "./moves.js";
+
+/**
+ * Scores of a solution offered to the archive
+ */
+export interface ParetoScore {
+  fitness: number;
+  hardViolations: number; // Built-in and custom hard violations together
+  objectives: number[];
+}
+
+/**
+ * Whether `a` dominates `b`
+ */
+export function dominates(a: ParetoScore, b: ParetoScore): boolean {
+  if (a.hardViolations !== b.hardViolations) {
+    return a.hardViolations < b.hardViolations;
+  }
+
+  let better = false;
+  for (let i = 0; i < a.objectives.length; i++) {
+    const difference = a.objectives[i]! - b.objectives[i]!;
+    if (difference > 0) return false;
+    if (difference < 0) better = true;
+  }
+  return better;
+}
+
+/**
+ * Bounded set of mutually non-dominated solutions
+ *
+ * When the archive is full, the solution in the most crowded part of the
+ * front (smallest crowding distance, as in NSGA-II) is dropped.
+ */
+export class ParetoArchive {
+  private objectiveNames: string[];
+  private capacity: number;
+  private entries: { schedule: ScheduleEntry[]; score: ParetoScore }[] = [];
+
+  constructor(objectiveNames: string[], capacity: number) {
+    if (capacity < 1) {
+      throw new Error("multiObjective.archiveSize must be at least 1");
+    }
+    this.objectiveNames = objectiveNames;
+    this.capacity = capacity;
+  }
+
+  /**
+   * Add a solution unless an archived one dominates or equals it
+   * The schedule is copied only when it is added.
+   *
+   * @returns whether the solution was added
+   */
+  offer(schedule: ScheduleEntry[], score: ParetoScore): boolean {
+    for (const entry of this.entries) {
+      if (dominates(entry.score, score) || isEqual(entry.score, score)) {
+        return false;
+      }
+    }
+
+    this.entries = this.entries.filter((entry) => !dominates(score, entry.score));
+    this.entries.push({
+      schedule: cloneSchedule(schedule),
+      score: { ...score, objectives: [...score.objectives] },
+    });
+
+    if (this.entries.length > this.capacity) {
+      const distances = this.getCrowdingDistances();
+      const crowded = distances.indexOf(Math.min(...distances));
+      this.entries.splice(crowded, 1);
+    }
+    return true;
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Archived solutions, sorted by the first objective
+   */
+  getFront(): ParetoSolution[] {
+    const first = this.objectiveNames[0]!;
+    return this.getSolutions().sort((a, b) => a.objectives[first]! - b.objectives[first]!);
+  }
+
+  /**
+   * Archived solutions in archive order (for checkpoints)
+   */
+  getSolutions(): ParetoSolution[] {
+    return this.entries.map(({ schedule, score }) => ({
+      schedule: cloneSchedule(schedule),
+      fitness: score.fitness,
+      hardViolations: score.hardViolations,
+      objectives: Object.fromEntries(this.objectiveNames.map((name, i) => [name, score.objectives[i]!])),
+    }));
+  }
+
+  /**
+   * Replace the archive with solutions from getSolutions()
+   */
+  setSolutions(solutions: ParetoSolution[]): void {
+    this.entries = solutions.map((solution) => ({
+      schedule: cloneSchedule(solution.schedule),
+      score: {
+        fitness: solution.fitness,
+        hardViolations: solution.hardViolations,
+        objectives: this.objectiveNames.map((name) => solution.objectives[name]!),
+      },
+    }));
+  }
+
+  /**
+   * Crowding distance of every entry (the extremes of each objective are never dropped)
+   */
+  private getCrowdingDistances(): number[] {
+    const distances = new Array<number>(this.entries.length).fill(0);
+
+    for (let i = 0; i < this.objectiveNames.length; i++) {
+      const order = this.entries
+        .map((entry, index) => ({ index, value: entry.score.objectives[i]! }))
+        .sort((a, b) => a.value - b.value);
+      const range = order[order.length - 1]!.value - order[0]!.value;
+
+      distances[order[0]!.index] = Infinity;
+      distances[order[order.length - 1]!.index] = Infinity;
+      if (range === 0) continue;
+
+      for (let j = 1; j < order.length - 1; j++) {
+        distances[order[j]!.index]! += (order[j + 1]!.value - order[j - 1]!.value) / range;
+      }
+    }
+
+    return distances;
+  }
+}
+
+function isEqual(a: ParetoScore, b: ParetoScore): boolean {
+  return a.hardViolations === b.hardViolations && a.objectives.every((value, i) => value === b.objectives[i]);
+}
@@ -0,0 +1,117 @@
+/**
+ * Distance from a previous solution (minimal-perturbation repair)
+ *
+ * Every entry whose day, start time or room differs from its original
+ * placement adds the weights of the changed attributes to the fitness.
+ */
+
+import type { ScheduleEntry, PerturbationWeights, PlacementAttribute } from "../types/index.js";
+
+/**
+ * Day, start time and room of an entry in the previous solution
+ */
+export type OriginalPlacement = Pick<ScheduleEntry, "timeSlot" | "room">;
+
+/**
+ * Attributes of an entry that differ from its original placement
+ */
+export function getChangedAttributes(original: OriginalPlacement, entry: OriginalPlacement): PlacementAttribute[] {
+  const changed: PlacementAttribute[] = [];
+  if (entry.timeSlot.day !== original.timeSlot.day) changed.push("day");
+  if (entry.timeSlot.startTime !== original.timeSlot.startTime) changed.push("startTime");
+  if (entry.room !== original.room) changed.push("room");
+  return changed;
+}
+
+/**
+ * Incremental perturbation penalty, used alongside DeltaFitnessEvaluator:
+ * reset() on a new current schedule, evaluate() a neighbour, then commit()
+ * or discard() it
+ */
+export class PerturbationPenalty {
+  private originals: (OriginalPlacement | undefined)[];
+  private weights: Required<PerturbationWeights>;
+  private distances: number[] = [];
+  private pending: Map<number, number> | null = null;
+
+  /**
+   * @param originals - Original placement of each schedule entry (by index); undefined for new classes
+   */
+  constructor(originals: (OriginalPlacement | undefined)[], weights: Required<PerturbationWeights>) {
+    this.originals = originals;
+    this.weights = weights;
+  }
+
+  /**
+   * Penalty of the entry at `index`
+   */
+  distance(index: number, entry: ScheduleEntry): number {
+    const original = this.originals[index];
+    if (!original) return 0;
+
+    let distance = 0;
+    for (const attribute of getChangedAttributes(original, entry)) {
+      distance += this.weights[attribute];
+    }
+    return distance;
+  }
+
+  /**
+   * Total penalty of a schedule (does not change the current schedule)
+   */
+  measure(schedule: ScheduleEntry[]): number {
+    let total = 0;
+    for (let i = 0; i < schedule.length; i++) {
+      total += this.distance(i, schedule[i]!);
+    }
+    return total;
+  }
+
+  /**
+   * Make a schedule the current schedule
+   */
+  reset(schedule: ScheduleEntry[]): number {
+    this.distances = schedule.map((entry, index) => this.distance(index, entry));
+    this.pending = null;
+    return this.sum();
+  }
+
+  /**
+   * Penalty of a neighbour that differs from the current schedule at `changedIndices`
+   * The result stays pending until commit() is called.
+   */
+  evaluate(schedule: ScheduleEntry[], changedIndices: number[]): number {
+    this.pending = new Map();
+    for (const index of changedIndices) {
+      this.pending.set(index, this.distance(index, schedule[index]!));
+    }
+    return this.sum(this.pending);
+  }
+
+  /**
+   * Make the last evaluated neighbour the current schedule
+   */
+  commit(): void {
+    if (!this.pending) return;
+
+    for (const [index, distance] of this.pending) {
+      this.distances[index] = distance;
+    }
+    this.pending = null;
+  }
+
+  /**
+   * Discard the last evaluated neighbour
+   */
+  discard(): void {
+    this.pending = null;
+  }
+
+  private sum(overrides?: Map<number, number>): number {
+    let total = 0;
+    for (let i = 0; i < this.distances.length; i++) {
+      total += overrides?.get(i) ?? this.distances[i]!;
+    }
+    return total;
+  }
+}
@@ -3,9 +3,27 @@
  *
  * Features:
  * - Two-phase optimization (hard constraints → soft constraints)
- * - Swap and move operators with adaptive selection
+ * - Move, swap and Kempe-chain operators with adaptive selection, plus registered custom operators
+ * - Operator selection strategies (success rate, probability matching, adaptive pursuit, UCB1, sliding window)
+ * - Ejection-chain insertion of classes the initial solution could not place
  * - Reheating mechanism to escape local minima
  * - Comprehensive constraint checking
+ * - Seedable randomness for reproducible runs
+ * - Non-blocking, cancellable solving with progress events
+ * - Incremental (delta) fitness evaluation of neighbour moves
+ * - In-place moves with undo (the schedule is only cloned for a new best)
+ * - Automatic initial temperature calibration
+ * - Pluggable cooling schedules (geometric, linear, logarithmic, Lundy–Mees, adaptive, custom)
+ * - Parallel tempering (replica exchange) mode
+ * - Local-search polish of the final solution
+ * - Multi-objective mode (Pareto archive or lexicographic order)
+ * - Warm start from an existing schedule
+ * - Locked (pinned) days, start times and rooms
+ * - Minimal-perturbation repair of a previous solution
+ * - Time limit, target fitness, stagnation and soft penalty stopping criteria
+ * - Checkpoints to resume interrupted runs
+ * - Convergence trace (CSV/JSON and SVG chart)
+ * - Per-instance time slots (solvers with different slot configurations can coexist)
  */
 
 import type {
@@ -18,16 +36,45 @@ import type {
   OperatorStats,
   AlgorithmConfig,
   ViolationReport,
+  RandomNumberGenerator,
+  SolverPhase,
+  SolverProgressEvent,
+  SolveOptions,
+  FitnessEvaluationMode,
+  SoftConstraintWeights,
+  CoolingFunction,
+  CoolingScheduleOption,
+  SolutionMetadata,
+  TemperatureCalibrationConfig,
+  TemperatureCalibrationResult,
+  StopReason,
+  WarmStartReport,
+  PerturbationWeights,
+  RepairReport,
+  RepairChange,
+  UnassignedClass,
+  Move,
+  Placement,
+  PlacementChange,
+  NeighborhoodOperator,
+  OperatorContext,
+  OperatorSelectionOption,
+  ParallelTemperingConfig,
+  ParallelTemperingReport,
+  Solver,
+  PolishConfig,
+  PolishReport,
+  PolishStrategy,
+  ObjectiveFunction,
+  CheckpointConfig,
+  SolverCheckpoint,
+  TraceConfig,
+  ConvergenceTrace,
+  AdaptiveWeightsConfig,
+  AdaptiveWeightsReport,
 } from "../types/index.js";
 import { ConstraintChecker } from "../constraints/index.js";
-import {
-  TIME_SLOTS_PAGI,
-  TIME_SLOTS_SORE,
-  LAB_ROOMS,
-  EXCLUSIVE_ROOMS,
-  initializeTimeSlots,
-  setCustomTimeSlots,
-} from "../constants/index.js";
+import { LAB_ROOMS, EXCLUSIVE_ROOMS, TimeSlotRegistry } from "../constants/index.js";
 import fs from "fs";
 import path from "path";
 import {
@@ -36,33 +83,135 @@ import {
   isValidFridayStartTime,
   isStartingDuringPrayerTime,
   getAvailableRooms,
+  isRoomAvailable,
   hasClassOverlap,
+  createRandom,
+  generateSeed,
+  SeededRandom,
 } from "../utils/index.js";
-import { mergeConfig } from "./config.js";
-import { Logger } from "../utils/logger.js";
-
-export class SimulatedAnnealing {
+import {
+  mergeConfig,
+  DEFAULT_INITIAL_TEMPERATURE,
+  DEFAULT_PERTURBATION_WEIGHTS,
+  DEFAULT_PARALLEL_TEMPERING_CONFIG,
+  DEFAULT_MULTI_OBJECTIVE_CONFIG,
+  DEFAULT_CHECKPOINT_CONFIG,
+  DEFAULT_TRACE_CONFIG,
+  DEFAULT_ADAPTIVE_WEIGHTS_CONFIG,
+} from "./config.js";
+import { FitnessEvaluator, DeltaFitnessEvaluator, SOFT_PENALTY_TERMS } from "./fitness-evaluator.js";
+import type { FitnessResult } from "./fitness-evaluator.js";
+import { createCoolingSchedule, getCoolingScheduleName, AcceptanceWindow } from "./cooling.js";
+import { calibrateTemperature } from "./temperature.js";
+import { createOperatorSelector, getOperatorSelectionName, OperatorUsageTracker } from "./operator-selection.js";
+import type { OperatorSelector } from "./operator-selection.js";
+import { getClassLock, isClassLocked, isFullyLocked, allowsTimeSlot, allowsRoom } from "./locks.js";
+import type { EntryLock } from "./locks.js";
+import { PerturbationPenalty, getChangedAttributes } from "./perturbation.js";
+import { ParetoArchive } from "./pareto.js";
+import type { ParetoScore } from "./pareto.js";
+import { CHECKPOINT_VERSION, writeCheckpoint, readCheckpoint } from "./checkpoint.js";
+import { TraceRecorder, writeTrace, writeTraceChart } from "./trace.js";
+import {
+  PlacementMove,
+  InsertionMove,
+  getPlacement,
+  setPlacement,
+  placeAtTimeSlot,
+  isSameStart,
+  findKempeChain,
+  cloneSolution,
+} from "./moves.js";
+import { Logger, SILENT_OUTPUT } from "../utils/logger.js";
+import type { ConsoleOutput } from "../utils/logger.js";
+
+export class SimulatedAnnealing implements Solver {
+  // Reported in SolutionMetadata.algorithm
+  protected algorithm = "simulated-annealing";
   private rooms: Room[];
   private lecturers: Lecturer[];
   private classes: ClassRequirement[];
   private checker: ConstraintChecker;
-  private logger: Logger;
+  private evaluator: FitnessEvaluator;
+  private deltaEvaluator: DeltaFitnessEvaluator;
+  private fitnessEvaluation: FitnessEvaluationMode;
+  protected logger: Logger;
+  protected output: ConsoleOutput;
+  protected rng: RandomNumberGenerator;
+  protected seed: number | undefined;
+  private timeSlots: TimeSlotRegistry;
+  private initialSchedule: ScheduleEntry[] | undefined;
+  private warmStartReport: WarmStartReport | undefined;
+  // Locks of the current schedule entries (by schedule index) and the entries moves may change
+  private entryLocks: (EntryLock | undefined)[] = [];
+  private movableIndices: number[] = [];
+  // Repair mode: penalty for moving entries away from the previous solution
+  private perturbationWeights: Required<PerturbationWeights> | undefined;
+  private perturbation: PerturbationPenalty | undefined;
+  private repairOrigins: (RepairOrigin | undefined)[] = [];
+  private initialViolationReasons = new Map<string, string>();
+  private initialHardViolations = 0;
+  // Classes the initial solution could not place (by class index), and the classes
+  // inserted since, in the order of their entries at the end of the schedule
+  private unassignedPool: number[] = [];
+  private insertedClasses: number[] = [];
+  // Classes left out by the initial solution, for the final unscheduled classes report
+  private skippedClasses: SkippedClass[] = [];
+  private unassignedClassWeight: number;
+  private insertionRate: number;
 
   // Algorithm parameters (with defaults)
+  private initialTemperatureSetting: number | "auto";
   private initialTemperature: number;
+  private temperatureCalibration: Required<TemperatureCalibrationConfig>;
+  private calibrationResult: TemperatureCalibrationResult | undefined;
   private minTemperature: number;
   private coolingRate: number;
-  private maxIterations: number;
+  private coolingScheduleOption: CoolingScheduleOption;
+  private coolingSchedule: CoolingFunction;
+  private coolingScheduleName: string;
+  private phase1TemperatureRatio: number;
+  private parallelTempering: Required<Pick<ParallelTemperingConfig, "replicas" | "exchangeInterval">> &
+    ParallelTemperingConfig | undefined;
+  private polish: Required<Omit<PolishConfig, "maxPasses">> & PolishConfig | undefined;
+
+  // Multi-objective mode: objectives are soft penalty terms (index) or custom functions
+  private objectiveNames: string[] = [];
+  private objectives: (number | ObjectiveFunction)[] = [];
+  private lexicographic = false;
+  private archive: ParetoArchive | undefined;
+  private currentObjectives: number[] = []; // Objectives of the delta evaluator's current schedule
+
+  private checkpoint: Required<CheckpointConfig> | undefined;
+  private trace: (TraceConfig & { interval: number }) | undefined;
+  private timeLimitMs: number | undefined;
+  private targetFitness: number | undefined;
+  private stagnationLimit: number | undefined;
+  private softPenaltyThreshold: number | undefined;
+  protected maxIterations: number;
   private reheatingThreshold: number;
   private reheatingFactor: number;
   private maxReheats: number;
   private hardConstraintWeight: number;
-  private softConstraintWeights: Required<AlgorithmConfig>["softConstraintWeights"];
+  private softConstraintWeights: Required<SoftConstraintWeights>;
+
+  // Adaptive weights: the evaluator scores with learnedWeights, softConstraintWeights stay as configured
+  private adaptiveWeights: Required<AdaptiveWeightsConfig> | undefined;
+  private learnedWeights: Required<SoftConstraintWeights>;
+  private weightUpdates = 0;
+
+  // Operators in the adaptive selection: the built-in ones, then AlgorithmConfig.operators
+  private operators: NeighborhoodOperator[];
+  protected operatorSelection: OperatorSelectionOption;
+  private operatorSelector: OperatorSelector;
+  private operatorUsageWindow: number;
 
   // Operator tracking
-  private operatorStats: OperatorStats = {
+  protected operatorStats: OperatorStats = {
     move: { attempts: 0, improvements: 0, successRate: 0 },
     swap: { attempts: 0, improvements: 0, successRate: 0 },
+    kempe: { attempts: 0, improvements: 0, successRate: 0 },
+    insertion: { attempts: 0, improvements: 0, successRate: 0 },
   };
 
   constructor(
@@ -78,8 +227,9 @@ export class SimulatedAnnealing {
     // Merge user config with defaults
     const mergedConfig = mergeConfig(config);
 
-    // Initialize logger
+    // Initialize logger and progress output
     this.logger = new Logger(mergedConfig.logging);
+    this.output = mergedConfig.quiet ? SILENT_OUTPUT : console;
     this.logger.info("Initializing Simulated Annealing algorithm");
 
     // Initialize constraint checker with configuration
@@ -88,10 +238,14 @@ export class SimulatedAnnealing {
       lecturers,
       mergedConfig.constraints.hardConstraints,
       mergedConfig.constraints.softConstraints,
-      mergedConfig.constraints.customConstraints
+      mergedConfig.constraints.customConstraints,
+      mergedConfig.constraints.rules
     );
 
-    this.initialTemperature = mergedConfig.initialTemperature;
+    this.initialTemperatureSetting = mergedConfig.initialTemperature;
+    this.initialTemperature =
+      mergedConfig.initialTemperature === "auto" ? DEFAULT_INITIAL_TEMPERATURE : mergedConfig.initialTemperature;
+    this.temperatureCalibration = mergedConfig.temperatureCalibration;
     this.minTemperature = mergedConfig.minTemperature;
     this.coolingRate = mergedConfig.coolingRate;
     this.maxIterations = mergedConfig.maxIterations;
@@ -100,30 +254,169 @@ export class SimulatedAnnealing {
     this.maxReheats = mergedConfig.maxReheats;
     this.hardConstraintWeight = mergedConfig.hardConstraintWeight;
     this.softConstraintWeights = mergedConfig.softConstraintWeights;
+    this.unassignedClassWeight = mergedConfig.unassignedClassWeight;
+    this.insertionRate = mergedConfig.insertionRate;
+    this.operators = this.createOperators(mergedConfig.operators);
+    this.phase1TemperatureRatio = mergedConfig.phase1TemperatureRatio;
+    this.timeLimitMs = mergedConfig.timeLimitMs;
+    this.targetFitness = mergedConfig.targetFitness;
+    this.stagnationLimit = mergedConfig.stagnationLimit;
+    this.softPenaltyThreshold = mergedConfig.softPenaltyThreshold;
+    this.initialSchedule = mergedConfig.initialSchedule;
+    if (mergedConfig.repair) {
+      if (mergedConfig.initialSchedule) {
+        throw new Error("repair and initialSchedule cannot be combined: repair starts from repair.previous");
+      }
+      this.initialSchedule = mergedConfig.repair.previous.schedule;
+      this.perturbationWeights = { ...DEFAULT_PERTURBATION_WEIGHTS, ...mergedConfig.repair.weights };
+      // A high fixed starting temperature would shuffle the previous solution; calibrate unless set
+      if (config?.initialTemperature === undefined) {
+        this.initialTemperatureSetting = "auto";
+      }
+    }
+    this.coolingScheduleOption = mergedConfig.coolingSchedule;
+    this.coolingScheduleName = getCoolingScheduleName(mergedConfig.coolingSchedule);
+    this.coolingSchedule = this.createCoolingSchedule();
+
+    if (mergedConfig.parallelTempering) {
+      this.parallelTempering = { ...DEFAULT_PARALLEL_TEMPERING_CONFIG, ...mergedConfig.parallelTempering };
+      if ((this.parallelTempering.temperatures?.length ?? this.parallelTempering.replicas) < 2) {
+        throw new Error("parallelTempering needs at least 2 replicas");
+      }
+      if (this.parallelTempering.temperatures?.some((temperature) => !(temperature > 0))) {
+        throw new Error("parallelTempering.temperatures must be positive");
+      }
+    }
+
+    if (mergedConfig.polish) {
+      const polish = typeof mergedConfig.polish === "string" ? { type: mergedConfig.polish } : mergedConfig.polish;
+      if (polish.type !== "first-improvement" && polish.type !== "steepest") {
+        throw new Error(`Unknown polish strategy: ${String(polish.type)}`);
+      }
+      this.polish = { swaps: true, ...polish };
+    }
+
+    if (mergedConfig.multiObjective) {
+      const multiObjective = { ...DEFAULT_MULTI_OBJECTIVE_CONFIG, ...mergedConfig.multiObjective };
+      if (multiObjective.mode !== "pareto" && multiObjective.mode !== "lexicographic") {
+        throw new Error(`Unknown multi-objective mode: ${String(multiObjective.mode)}`);
+      }
+      if (multiObjective.mode === "lexicographic" && !multiObjective.objectives?.length) {
+        throw new Error("multiObjective.objectives is required in lexicographic mode");
+      }
+
+      const objectives = multiObjective.objectives ??
+        SOFT_PENALTY_TERMS.filter(
+          (name) => name !== "customConstraints" || this.checker.hasCustomConstraints() || this.checker.hasRules()
+        );
+      for (const objective of objectives) {
+        const name = typeof objective === "string" ? objective : objective.name;
+        if (this.objectiveNames.includes(name)) {
+          throw new Error(`Duplicate objective: ${name}`);
+        }
+        const term = SOFT_PENALTY_TERMS.indexOf(name as (typeof SOFT_PENALTY_TERMS)[number]);
+        if (typeof objective === "string" && term < 0) {
+          throw new Error(`Unknown objective: ${name}`);
+        }
+        this.objectiveNames.push(name);
+        this.objectives.push(typeof objective === "string" ? term : objective);
+      }
+
+      this.lexicographic = multiObjective.mode === "lexicographic";
+      if (!this.lexicographic) {
+        this.archive = new ParetoArchive(this.objectiveNames, multiObjective.archiveSize);
+      }
+    }
+
+    if (mergedConfig.adaptiveWeights) {
+      this.adaptiveWeights = { ...DEFAULT_ADAPTIVE_WEIGHTS_CONFIG, ...mergedConfig.adaptiveWeights };
+      if (this.adaptiveWeights.interval < 1) {
+        throw new Error("adaptiveWeights.interval must be at least 1");
+      }
+      if (this.adaptiveWeights.maxRatio < 1) {
+        throw new Error("adaptiveWeights.maxRatio must be at least 1");
+      }
+      // Replicas and objectives hold scores that would need rescoring at every update
+      if (this.parallelTempering || this.objectives.length > 0) {
+        throw new Error("adaptiveWeights cannot be combined with parallelTempering or multiObjective");
+      }
+    }
+    this.learnedWeights = { ...this.softConstraintWeights };
+
+    // Fitness evaluation: full pass for reports, delta for neighbour moves
+    this.evaluator = new FitnessEvaluator(
+      this.checker,
+      this.hardConstraintWeight,
+      this.learnedWeights,
+      this.objectives.some((objective) => typeof objective === "number")
+    );
+    this.deltaEvaluator = new DeltaFitnessEvaluator(this.evaluator);
+    this.fitnessEvaluation = mergedConfig.fitnessEvaluation;
 
-    // Initialize time slots based on configuration
+    // Initialize random generator: custom generator > seed > fresh random seed
+    if (mergedConfig.random) {
+      this.rng = mergedConfig.random;
+      this.seed = mergedConfig.seed;
+    } else {
+      this.seed = mergedConfig.seed ?? generateSeed();
+      this.rng = createRandom(this.seed);
+    }
+    this.logger.info("Random generator initialized", { seed: this.seed });
+
+    if (mergedConfig.checkpoint) {
+      this.checkpoint = { ...DEFAULT_CHECKPOINT_CONFIG, ...mergedConfig.checkpoint };
+      if (this.checkpoint.interval < 1) {
+        throw new Error("checkpoint.interval must be at least 1");
+      }
+      if (!(this.rng instanceof SeededRandom)) {
+        throw new Error("checkpoint needs the built-in seeded generator (a custom random generator cannot be saved)");
+      }
+    }
+    if (mergedConfig.trace) {
+      this.trace = { ...DEFAULT_TRACE_CONFIG, ...mergedConfig.trace };
+      if (this.trace.interval < 1) {
+        throw new Error("trace.interval must be at least 1");
+      }
+    }
+
+    this.operatorSelection = mergedConfig.operatorSelection;
+    this.operatorSelector = createOperatorSelector(
+      mergedConfig.operatorSelection,
+      this.operators.map((operator) => operator.name),
+      this.rng
+    );
+    this.operatorUsageWindow = mergedConfig.operatorUsageWindow;
+
+    // Initialize this solver's time slots
     // Priority: customTimeSlots > timeSlotConfig > defaults
     if (mergedConfig.customTimeSlots) {
       // Mode 2: Full custom override
-      console.log("🕐 Using custom time slots (full override mode)");
-      setCustomTimeSlots(
+      this.output.log("🕐 Using custom time slots (full override mode)");
+      this.timeSlots = TimeSlotRegistry.fromCustomSlots(
         mergedConfig.customTimeSlots.pagi,
         mergedConfig.customTimeSlots.sore
       );
     } else if (config?.timeSlotConfig) {
       // Mode 1: Merge with defaults
-      console.log("🕐 Using configurable time slots (merge mode)");
-      initializeTimeSlots(
+      this.output.log("🕐 Using configurable time slots (merge mode)");
+      this.timeSlots = TimeSlotRegistry.fromConfig(
         mergedConfig.timeSlotConfig.pagi,
         mergedConfig.timeSlotConfig.sore,
         mergedConfig.timeSlotConfig.days
       );
     } else {
-      // Use defaults (already initialized by time-slots.ts)
-      console.log("🕐 Using default time slots");
+      this.output.log("🕐 Using default time slots");
+      this.timeSlots = TimeSlotRegistry.fromConfig();
     }
   }
 
+  /**
+   * Time slots used by this solver (e.g. to pass to generateTimetablePDFs)
+   */
+  getTimeSlots(): TimeSlotRegistry {
+    return this.timeSlots;
+  }
+
   /**
    * Check if adding an entry would cause prodi conflict (HC5)
    */
@@ -182,72 +475,288 @@ export class SimulatedAnnealing {
   }
 
   /**
-   * Generate initial solution using greedy approach
+   * Reason a class requirement cannot be scheduled at all, if any
    */
-  private generateInitialSolution(): Solution {
-    const schedule: ScheduleEntry[] = [];
-    const skippedClasses: { reason: string; class: string; code: string }[] = [];
+  private getSkipReason(classReq: ClassRequirement): string | undefined {
+    if (!classReq.Kode_Matakuliah) {
+      return 'Missing course code';
+    }
+    if (!classReq.Kode_Dosen1 && !classReq.Kode_Dosen2 && !classReq.Kode_Dosen_Prodi_Lain1 && !classReq.Kode_Dosen_Prodi_Lain2) {
+      return 'No lecturers assigned';
+    }
+    return undefined;
+  }
 
-    let i = 0;
-    for (const classReq of this.classes) {
-      if (!classReq.Kode_Matakuliah) {
-        skippedClasses.push({
-          reason: 'Missing course code',
-          class: classReq.Mata_Kuliah || 'Unknown',
-          code: 'N/A',
-        });
-        continue;
+  /**
+   * Schedule entry attributes derived from a class requirement
+   */
+  private createClassTemplate(classReq: ClassRequirement): ClassTemplate {
+    const lecturers: string[] = [];
+    if (classReq.Kode_Dosen1) lecturers.push(classReq.Kode_Dosen1);
+    if (classReq.Kode_Dosen2) lecturers.push(classReq.Kode_Dosen2);
+    if (classReq.Kode_Dosen_Prodi_Lain1) lecturers.push(classReq.Kode_Dosen_Prodi_Lain1);
+    if (classReq.Kode_Dosen_Prodi_Lain2) lecturers.push(classReq.Kode_Dosen_Prodi_Lain2);
+
+    return {
+      classReq,
+      lecturers,
+      participants: classReq.Peserta || 30,
+      needsLab: classReq.should_on_the_lab?.toLowerCase() === "yes",
+      classType: classReq.Class_Type?.toLowerCase() || "pagi",
+      prodi: classReq.Prodi || "Unknown",
+      courseName: classReq.Mata_Kuliah || "Unknown",
+      sks: classReq.SKS || 3,
+    };
+  }
+
+  /**
+   * Time slots a class may start in (class type, Saturday, Friday and prayer time rules)
+   */
+  private getCandidateTimeSlots(classType: string, prodi: string): TimeSlot[] {
+    let availableTimeSlots: TimeSlot[] = [];
+
+    if (classType === "sore") {
+      availableTimeSlots = this.timeSlots.sore.slice().sort((a, b) => {
+        const aMinutes = timeToMinutes(a.startTime);
+        const bMinutes = timeToMinutes(b.startTime);
+        return aMinutes - bMinutes;
+      });
+    } else {
+      availableTimeSlots = this.timeSlots.pagi.slice();
+    }
+
+    const isMagisterManajemen = prodi.toLowerCase().includes("magister manajemen");
+    if (!isMagisterManajemen) {
+      availableTimeSlots = availableTimeSlots.filter((slot) => slot.day !== "Saturday");
+    }
+
+    availableTimeSlots = availableTimeSlots.filter((slot) => {
+      if (slot.day === "Friday") {
+        return isValidFridayStartTime(slot.startTime);
       }
+      return true;
+    });
 
-      const lecturers: string[] = [];      
-      if (classReq.Kode_Dosen1) lecturers.push(classReq.Kode_Dosen1);
-      if (classReq.Kode_Dosen2) lecturers.push(classReq.Kode_Dosen2);
-      if (classReq.Kode_Dosen_Prodi_Lain1) lecturers.push(classReq.Kode_Dosen_Prodi_Lain1);
-      if (classReq.Kode_Dosen_Prodi_Lain2) lecturers.push(classReq.Kode_Dosen_Prodi_Lain2);
+    availableTimeSlots = availableTimeSlots.filter((slot) => {
+      return !isStartingDuringPrayerTime(slot.startTime);
+    });
 
-      if (lecturers.length === 0) {
-        skippedClasses.push({
-          reason: 'No lecturers assigned',
-          class: classReq.Mata_Kuliah || 'Unknown',
-          code: classReq.Kode_Matakuliah,
-        });
-        continue;
-      }      
+    return availableTimeSlots;
+  }
+
+  /**
+   * Schedule entry for a class at a time slot and room
+   */
+  private createEntry(template: ClassTemplate, timeSlot: TimeSlot, room: string): ScheduleEntry {
+    const prayerTimeCalc = calculateEndTime(timeSlot.startTime, template.sks, timeSlot.day);
+
+    return {
+      classId: template.classReq.Kode_Matakuliah,
+      className: template.courseName,
+      class: template.classReq.Kelas || "A",
+      prodi: template.prodi,
+      lecturers: template.lecturers,
+      room,
+      // Use time slot with correct end time based on SKS
+      timeSlot: {
+        ...timeSlot,
+        endTime: prayerTimeCalc.endTime,
+      },
+      sks: template.sks,
+      needsLab: template.needsLab,
+      participants: template.participants,
+      classType: template.classType,
+      prayerTimeAdded: prayerTimeCalc.prayerTimeAdded,
+      isOverflowToLab: !template.needsLab && LAB_ROOMS.includes(room),
+    };
+  }
+
+  /**
+   * Time slots a class may be placed in, keeping its locked day and start time
+   *
+   * A fully locked time is kept even outside the class's candidate slots (the
+   * constraint checker reports any violation it causes).
+   */
+  private getLockedTimeSlots(template: ClassTemplate, lock: EntryLock | undefined): TimeSlot[] {
+    const candidates = this.getCandidateTimeSlots(template.classType, template.prodi)
+      .filter((slot) => allowsTimeSlot(lock, slot));
+    if (candidates.length > 0 || lock?.day === undefined || lock.startTime === undefined) {
+      return candidates;
+    }
+
+    const slot = this.timeSlots.all.find((candidate) => allowsTimeSlot(lock, candidate));
+    if (!slot) {
+      throw new Error(
+        `Locked time ${lock.day} ${lock.startTime} of ${template.classReq.Kode_Matakuliah} is not a configured time slot`
+      );
+    }
+    return [slot];
+  }
+
+  /**
+   * First time slot (in the given order) with an available room that causes
+   * no prodi or lecturer conflict with the schedule
+   * A locked room is used whenever it is free, regardless of room preferences.
+   */
+  private placeGreedily(
+    schedule: ScheduleEntry[],
+    template: ClassTemplate,
+    timeSlots: TimeSlot[],
+    lock?: EntryLock
+  ): ScheduleEntry | undefined {
+    for (const timeSlot of timeSlots) {
+      const lockedRoom = lock?.room;
+      const roomCodes = lockedRoom !== undefined
+        ? (isRoomAvailable(schedule, lockedRoom, timeSlot, template.sks) ? [lockedRoom] : [])
+        : getAvailableRooms(
+          this.rooms,
+          schedule,
+          template.classReq,
+          timeSlot,
+          template.participants,
+          template.needsLab,
+          template.courseName,
+          template.prodi
+        );
+
+      if (roomCodes.length > 0) {
+        const tempEntry = this.createEntry(template, timeSlot, roomCodes[0]!);
+
+        if (this.wouldCauseProdiConflict(schedule, tempEntry)) {
+          continue;
+        }
+
+        if (this.wouldCauseLecturerConflict(schedule, tempEntry)) {
+          continue;
+        }
+
+        return tempEntry;
+      }
+    }
+
+    return undefined;
+  }
 
-      const participants = classReq.Peserta || 30;
-      const needsLab = classReq.should_on_the_lab?.toLowerCase() === "yes";
-      const classType = classReq.Class_Type?.toLowerCase() || "pagi";
-      const prodi = classReq.Prodi || "Unknown";
-      const courseName = classReq.Mata_Kuliah || "Unknown";
+  /**
+   * Match the entries of a previous schedule to the current class requirements
+   *
+   * Matched entries keep their day, start time and room with the class's current
+   * attributes (lecturers, SKS, participants...). Entries whose time slot or room
+   * is no longer valid, or that break the class's locks, are returned for
+   * re-placement; entries without a matching class are dropped.
+   */
+  private carryOverSchedule(previous: ScheduleEntry[]): WarmStart {
+    const warmStart: WarmStart = {
+      entries: new Map(),
+      repairs: new Map(),
+      report: { kept: 0, repaired: [], dropped: [], inserted: 0 },
+    };
+
+    const classIndices = new Map<string, number[]>();
+    this.classes.forEach((classReq, index) => {
+      if (this.getSkipReason(classReq)) return;
+      const key = getClassKey(classReq.Kode_Matakuliah, classReq.Kelas || "A", classReq.Prodi || "Unknown");
+      const indices = classIndices.get(key) ?? [];
+      indices.push(index);
+      classIndices.set(key, indices);
+    });
+
+    const roomCodes = new Set(this.rooms.map((room) => room.Code));
 
-      let availableTimeSlots: TimeSlot[] = [];
+    for (const entry of previous) {
+      const key = getClassKey(entry.classId, entry.class, entry.prodi);
+      const indices = classIndices.get(key);
+      const index = indices?.shift();
 
-      if (classType === "sore") {
-        availableTimeSlots = TIME_SLOTS_SORE.slice().sort((a, b) => {
-          const aMinutes = timeToMinutes(a.startTime);
-          const bMinutes = timeToMinutes(b.startTime);          
-          return aMinutes - bMinutes;
+      if (index === undefined) {
+        warmStart.report.dropped.push({
+          classId: entry.classId,
+          class: entry.class,
+          reason: indices ? 'Class is already scheduled' : 'No matching class requirement',
         });
+        continue;
+      }
 
+      const classReq = this.classes[index]!;
+      const lock = getClassLock(classReq);
+      const template = this.createClassTemplate(classReq);
+      const candidates = this.getCandidateTimeSlots(template.classType, template.prodi);
+      const slot = candidates.find(
+        (candidate) => candidate.day === entry.timeSlot.day && candidate.startTime === entry.timeSlot.startTime
+      );
+
+      if (!slot) {
+        warmStart.repairs.set(index, { entry, reason: 'Time slot is no longer available', preferredSlot: undefined });
+      } else if (!roomCodes.has(entry.room)) {
+        warmStart.repairs.set(index, { entry, reason: 'Room no longer exists', preferredSlot: slot });
+      } else if (!allowsTimeSlot(lock, slot) || !allowsRoom(lock, entry.room)) {
+        warmStart.repairs.set(index, {
+          entry,
+          reason: 'Placement does not match its lock',
+          preferredSlot: allowsTimeSlot(lock, slot) ? slot : undefined,
+        });
       } else {
-        availableTimeSlots = TIME_SLOTS_PAGI.slice();
+        warmStart.entries.set(index, this.createEntry(template, slot, entry.room));
+        warmStart.report.kept++;
+      }
+    }
+
+    return warmStart;
+  }
+
+  /**
+   * Generate the initial solution: greedy placement, or a warm start from
+   * AlgorithmConfig.initialSchedule with new and repaired classes placed greedily
+   */
+  private generateInitialSolution(): Solution {
+    const placed: (ScheduleEntry | undefined)[] = new Array(this.classes.length);
+    const unplaced: number[] = [];
+    const skippedClasses: SkippedClass[] = [];
+
+    const warmStart = this.initialSchedule ? this.carryOverSchedule(this.initialSchedule) : undefined;
+    // Entries placed so far (carried-over entries first), for conflict checks
+    const schedule: ScheduleEntry[] = warmStart ? [...warmStart.entries.values()] : [];
+    if (warmStart) {
+      for (const [index, entry] of warmStart.entries) {
+        placed[index] = entry;
       }
+    }
 
-      const isMagisterManajemen = prodi.toLowerCase().includes("magister manajemen");
-      if (!isMagisterManajemen) {
-        availableTimeSlots = availableTimeSlots.filter((slot) => slot.day !== "Saturday");
+    // Locked classes are placed first, so the others work around them: fully
+    // locked ones, then the other locks and Locked: "yes" (which keeps its greedy placement)
+    const classLocks = this.classes.map((classReq) => getClassLock(classReq));
+    const lockRank = this.classes.map((classReq, index) =>
+      isFullyLocked(classLocks[index]) ? 2 : classLocks[index] !== undefined || isClassLocked(classReq) ? 1 : 0
+    );
+    const roomCodes = new Set(this.rooms.map((room) => room.Code));
+    for (const [index, lock] of classLocks.entries()) {
+      if (lock?.room !== undefined && !roomCodes.has(lock.room)) {
+        throw new Error(`Locked room ${lock.room} of ${this.classes[index]!.Kode_Matakuliah} does not exist`);
       }
+    }
+    const order = [...this.classes.keys()].sort((a, b) => lockRank[b]! - lockRank[a]!);
 
-      availableTimeSlots = availableTimeSlots.filter((slot) => {
-        if (slot.day === "Friday") {
-          return isValidFridayStartTime(slot.startTime);
-        }
-        return true;
-      });
+    for (const index of order) {
+      const classReq = this.classes[index]!;
+      if (placed[index]) {
+        continue;
+      }
 
-      availableTimeSlots = availableTimeSlots.filter((slot) => {
-        return !isStartingDuringPrayerTime(slot.startTime);
-      });
+      const skipReason = this.getSkipReason(classReq);
+      if (skipReason) {
+        skippedClasses.push({
+          reason: skipReason,
+          class: classReq.Mata_Kuliah || 'Unknown',
+          code: classReq.Kode_Matakuliah || 'N/A',
+        });
+        continue;
+      }
+
+      const template = this.createClassTemplate(classReq);
+      const courseName = template.courseName;
+      const lock = classLocks[index];
+      const availableTimeSlots = this.getLockedTimeSlots(template, lock);
+      const repair = warmStart?.repairs.get(index);
 
       if (availableTimeSlots.length === 0) {
         skippedClasses.push({
@@ -255,304 +764,432 @@ export class SimulatedAnnealing {
           class: classReq.Mata_Kuliah || 'Unknown',
           code: classReq.Kode_Matakuliah,
         });
+        if (repair) {
+          warmStart!.report.dropped.push({ classId: repair.entry.classId, class: repair.entry.class, reason: repair.reason });
+        }
         continue;
       }
 
-      let placed = false;
-      for (const timeSlot of availableTimeSlots) {
-        const roomCodes = getAvailableRooms(
-          this.rooms,
-          schedule,
-          classReq,
-          timeSlot,
-          participants,
-          needsLab,
-          courseName,
-          prodi
-        );
-
-        if (roomCodes.length > 0) {
-          const selectedRoom = roomCodes[0]!;
-          const sks = classReq.SKS || 3;
-          const prayerTimeCalc = calculateEndTime(timeSlot.startTime, sks, timeSlot.day);
-          const isOverflow = !needsLab && LAB_ROOMS.includes(selectedRoom);
-
-          // Create time slot with correct end time based on SKS
-          const actualTimeSlot: TimeSlot = {
-            ...timeSlot,
-            endTime: prayerTimeCalc.endTime,  // Use calculated end time based on SKS
-          };
-
-          const tempEntry: ScheduleEntry = {
-            classId: classReq.Kode_Matakuliah,
-            className: courseName,
-            class: classReq.Kelas || "A",
-            prodi,
-            lecturers,
-            room: selectedRoom,
-            timeSlot: actualTimeSlot,  // Use updated time slot with correct endTime
-            sks,
-            needsLab,
-            participants,
-            classType,
-            prayerTimeAdded: prayerTimeCalc.prayerTimeAdded,
-            isOverflowToLab: isOverflow,
-          };
-
-          if (this.wouldCauseProdiConflict(schedule, tempEntry)) {
-            continue;
-          }
-
-          if (this.wouldCauseLecturerConflict(schedule, tempEntry)) {
-            continue;
-          }
-
-          schedule.push(tempEntry);
-          placed = true;
-          break;
+      // A repaired entry tries its previous time slot first
+      const preferredSlot = repair?.preferredSlot;
+      const timeSlots = preferredSlot
+        ? [preferredSlot, ...availableTimeSlots.filter((slot) => slot !== preferredSlot)]
+        : availableTimeSlots;
+      // A fully locked class is placed as locked, even when it conflicts
+      const entry = isFullyLocked(lock)
+        ? this.createEntry(template, timeSlots[0]!, lock!.room!)
+        : this.placeGreedily(schedule, template, timeSlots, lock);
+
+      if (entry) {
+        schedule.push(entry);
+        placed[index] = entry;
+        if (repair) {
+          warmStart!.report.repaired.push({ classId: entry.classId, class: entry.class, reason: repair.reason });
+        } else if (warmStart) {
+          warmStart.report.inserted++;
         }
-      }
-
-      if (!placed) {
-        console.log(courseName, classReq); 
+      } else {
+        this.output.log(courseName, classReq); 
         
         skippedClasses.push({
           reason: 'Could not find valid room/time slot combination',
           class: courseName,
           code: classReq.Kode_Matakuliah,
+          classIndex: index,
         });
-        console.warn(`⚠️  Could not place class: ${classReq.Kode_Matakuliah} - ${courseName}`);
+        if (repair) {
+          warmStart!.report.dropped.push({
+            classId: repair.entry.classId,
+            class: repair.entry.class,
+            reason: `${repair.reason}; no valid placement found`,
+          });
+        }
+        unplaced.push(index);
+        this.output.warn(`⚠️  Could not place class: ${classReq.Kode_Matakuliah} - ${courseName} (kept for insertion during the search)`);
       }
     }
 
-    // Log summary of skipped classes
-    if (skippedClasses.length > 0) {
-      console.log(`\n⚠️  SCHEDULING SUMMARY:`);
-      console.log(`   Total classes to schedule: ${this.classes.length}`);
-      console.log(`   Successfully scheduled: ${schedule.length}`);
-      console.log(`   Skipped/Failed: ${skippedClasses.length}\n`);
-
-      // Group by reason
-      const byReason: { [key: string]: typeof skippedClasses } = {};
-      for (const skip of skippedClasses) {
-        if (!byReason[skip.reason]) {
-          byReason[skip.reason] = [];
-        }
-        byReason[skip.reason]!.push(skip);
-      }
+    if (warmStart) {
+      this.warmStartReport = warmStart.report;
+      this.output.log(
+        `♻️  Warm start: ${warmStart.report.kept} kept, ${warmStart.report.repaired.length} repaired, ` +
+        `${warmStart.report.dropped.length} dropped, ${warmStart.report.inserted} new classes inserted\n`
+      );
+      this.logger.info("Warm start applied", {
+        kept: warmStart.report.kept,
+        repaired: warmStart.report.repaired.length,
+        dropped: warmStart.report.dropped.length,
+        inserted: warmStart.report.inserted,
+      });
+    }
 
-      console.log(`📊 Breakdown by reason:`);
-      for (const [reason, classes] of Object.entries(byReason)) {
-        console.log(`\n   ${reason}: ${classes.length} classes`);
-        classes.slice(0, 5).forEach((c) => {
-          console.log(`     - ${c.code}: ${c.class}`);
-        });
-        if (classes.length > 5) {
-          console.log(`     ... and ${classes.length - 5} more`);
-        }
-      }
-      console.log();
+    this.skippedClasses = skippedClasses;
 
-      // Save to file for detailed review
-      const logPath = path.join(process.cwd(), 'unscheduled-classes.json');
-      fs.writeFileSync(logPath, JSON.stringify({
-        summary: {
-          totalClasses: this.classes.length,
-          scheduled: schedule.length,
-          unscheduled: skippedClasses.length,
-        },
-        skippedClasses,
-        byReason: Object.entries(byReason).map(([reason, classes]) => ({
-          reason,
-          count: classes.length,
-          classes,
-        })),
-      }, null, 2));
-      console.log(`📝 Detailed report saved to: ${logPath}\n`);
+    // Keep the order of the class requirements
+    const orderedSchedule = placed.filter((entry): entry is ScheduleEntry => entry !== undefined);
+    this.initializeLocks(placed);
+    this.unassignedPool = unplaced;
+    this.insertedClasses = [];
+    if (this.perturbationWeights && warmStart) {
+      this.initializeRepair(placed, warmStart);
     }
-
-    const fitness = this.calculateFitness(schedule);
+    const result = this.evaluateFull(orderedSchedule);
+    if (this.perturbation) {
+      this.recordInitialViolations(result);
+      result.fitness += this.perturbation.measure(orderedSchedule);
+    }
+    result.fitness += this.unassignedPenalty();
 
     return {
-      schedule,
-      fitness: isNaN(fitness) ? 999999 : fitness,
-      hardViolations: 0,
+      schedule: orderedSchedule,
+      fitness: isNaN(result.fitness) ? 999999 : result.fitness,
+      hardViolations: result.hardViolations,
       softViolations: 0,
     };
   }
 
   /**
-   * Calculate fitness score for a schedule
+   * Record the locks of the initial schedule entries
+   * Locked: "yes" locks an entry's whole initial placement.
    */
-  private calculateFitness(schedule: ScheduleEntry[]): number {
-    this.checker.resetViolations();
-
-    let hardViolations = 0;
-    let softPenalty = 0;
-
-    for (let i = 0; i < schedule.length; i++) {
-      const entry = schedule[i]!;
-      const scheduleBeforeEntry = schedule.slice(0, i);
-
-      // HARD CONSTRAINTS
-      if (!this.checker.checkNoLecturerConflict(scheduleBeforeEntry, entry)) hardViolations++;
-      if (!this.checker.checkNoRoomConflict(scheduleBeforeEntry, entry)) hardViolations++;
-      if (!this.checker.checkRoomCapacity(entry)) hardViolations++;
-      if (!this.checker.checkNoClassConflictSameProdi(scheduleBeforeEntry, entry)) hardViolations++;
-      if (!this.checker.checkMaxDailyPeriods(scheduleBeforeEntry, entry)) hardViolations++;
-      if (!this.checker.checkClassTypeTime(entry)) hardViolations++;
-      if (!this.checker.checkSaturdayRestriction(entry)) hardViolations++;
-      if (!this.checker.checkFridayTimeRestriction(entry)) hardViolations++;
-      if (!this.checker.checkNotStartingDuringPrayerTime(entry)) hardViolations++;
-      if (!this.checker.checkExclusiveRoomConstraint(entry)) hardViolations++;
-
-      // SOFT CONSTRAINTS
-      softPenalty += (1 - this.checker.checkPreferredTime(entry)) * this.softConstraintWeights.preferredTime!;
-      softPenalty += (1 - this.checker.checkPreferredRoom(entry)) * this.softConstraintWeights.preferredRoom!;
-      softPenalty += (1 - this.checker.checkTransitTime(scheduleBeforeEntry, entry)) * this.softConstraintWeights.transitTime!;
-      softPenalty += (1 - this.checker.checkCompactness(scheduleBeforeEntry, entry)) * this.softConstraintWeights.compactness!;
-      softPenalty += (1 - this.checker.checkLabRequirement(entry)) * this.softConstraintWeights.labRequirement!;
-      softPenalty += (1 - this.checker.checkPrayerTimeOverlap(entry)) * this.softConstraintWeights.prayerTimeOverlap!;
-      softPenalty += (1 - this.checker.checkEveningClassPriority(entry)) * this.softConstraintWeights.eveningClassPriority!;
-      softPenalty += (1 - this.checker.checkOverflowPenalty(entry)) * this.softConstraintWeights.overflowPenalty!;
-      softPenalty += (1 - this.checker.checkResearchDay(entry)) * 50; // SC8 Research Day
-
-      // CUSTOM CONSTRAINTS
-      const customResult = this.checker.checkCustomConstraints(scheduleBeforeEntry, entry);
-      hardViolations += customResult.hardViolations;
-      softPenalty += customResult.softPenalty;
-    }
-
-    const fitness = hardViolations * this.hardConstraintWeight + softPenalty;
+  private initializeLocks(placed: (ScheduleEntry | undefined)[]): void {
+    this.entryLocks = [];
+    for (const [index, entry] of placed.entries()) {
+      if (!entry) continue;
+      const classReq = this.classes[index]!;
+      this.entryLocks.push(
+        isClassLocked(classReq)
+          ? { day: entry.timeSlot.day, startTime: entry.timeSlot.startTime, room: entry.room }
+          : getClassLock(classReq)
+      );
+    }
 
-    this.logger.debug("Fitness calculated", {
-      hardViolations,
-      softPenalty,
-      fitness,
-    });
+    this.movableIndices = [];
+    for (const [index, lock] of this.entryLocks.entries()) {
+      if (!isFullyLocked(lock)) {
+        this.movableIndices.push(index);
+      }
+    }
 
-    return fitness;
+    const lockedCount = this.entryLocks.filter((lock) => lock !== undefined).length;
+    if (lockedCount > 0) {
+      const fixedCount = this.entryLocks.length - this.movableIndices.length;
+      this.output.log(`🔒 Locked entries: ${lockedCount} (${fixedCount} fully locked)\n`);
+      this.logger.info("Locked entries", { locked: lockedCount, fullyLocked: fixedCount });
+    }
   }
 
   /**
-   * Get indices of classes with hard constraint violations
+   * Record the original placement of every entry for repair mode
+   * (the previous placement, also for entries the warm start had to repair)
    */
-  private getViolatingClassIndices(schedule: ScheduleEntry[]): number[] {
-    const violatingIndices: number[] = [];
+  private initializeRepair(placed: (ScheduleEntry | undefined)[], warmStart: WarmStart): void {
+    this.repairOrigins = [];
+    for (const [index, entry] of placed.entries()) {
+      if (!entry) continue;
+      const repair = warmStart.repairs.get(index);
+      const kept = warmStart.entries.get(index);
+      if (repair) {
+        this.repairOrigins.push({ placement: getPlacement(repair.entry), reason: repair.reason, revertible: false });
+      } else if (kept) {
+        this.repairOrigins.push({ placement: getPlacement(kept), reason: undefined, revertible: true });
+      } else {
+        this.repairOrigins.push(undefined);
+      }
+    }
 
-    for (let i = 0; i < schedule.length; i++) {
-      const entry = schedule[i]!;
-      const scheduleBeforeEntry = schedule.slice(0, i);
-      const scheduleAfterEntry = schedule.slice(i + 1);
-      const scheduleWithoutEntry = [...scheduleBeforeEntry, ...scheduleAfterEntry];
+    this.perturbation = new PerturbationPenalty(
+      this.repairOrigins.map((origin) => origin?.placement),
+      this.perturbationWeights!
+    );
+  }
 
-      if (this.hasAnyHardViolation(scheduleWithoutEntry, entry)) {
-        violatingIndices.push(i);
+  /**
+   * Remember the hard violations of the carried-over schedule, to explain
+   * why entries were moved
+   */
+  private recordInitialViolations(result: FitnessResult): void {
+    this.initialHardViolations = result.hardViolations + result.customHardViolations;
+    this.initialViolationReasons.clear();
+
+    for (const violation of this.checker.getViolations()) {
+      if (violation.severity !== "hard") continue;
+      const reason = `${violation.constraintType} - ${violation.reason}`;
+      for (const classId of [violation.classId, violation.details?.conflictsWith]) {
+        if (typeof classId === "string" && !this.initialViolationReasons.has(classId)) {
+          this.initialViolationReasons.set(classId, reason);
+        }
       }
     }
-
-    return violatingIndices;
   }
 
   /**
-   * Generate neighbor using MOVE operator
+   * Move entries back to their original placement when that does not add
+   * hard violations or increase the fitness (repair mode)
+   *
+   * @returns number of entries moved back
    */
-  private generateNeighborMove(solution: Solution): Solution {
-    const newSchedule = JSON.parse(JSON.stringify(solution.schedule)) as ScheduleEntry[];
+  private revertUnneededChanges(solution: Solution): number {
+    let current = this.resetCurrentSchedule(solution.schedule);
+    let reverted = 0;
 
-    // Return unchanged if no schedule entries
-    if (newSchedule.length === 0) {
-      return solution;
-    }
+    for (const [index, origin] of this.repairOrigins.entries()) {
+      const entry = solution.schedule[index]!;
+      if (!origin?.revertible || getChangedAttributes(origin.placement, entry).length === 0) {
+        continue;
+      }
 
-    // Prioritize fixing hard violations
-    const violatingIndices = this.getViolatingClassIndices(newSchedule);
-    let randomIndex: number;
+      const move = new PlacementMove([{ index, placement: origin.placement }]);
+      const neighbor = this.applyMove(solution, move);
 
-    if (violatingIndices.length > 0 && Math.random() < 0.8) {
-      randomIndex = violatingIndices[Math.floor(Math.random() * violatingIndices.length)]!;
-    } else {
-      randomIndex = Math.floor(Math.random() * newSchedule.length);
+      if (
+        neighbor.hardViolations + neighbor.customHardViolations <= current.hardViolations + current.customHardViolations &&
+        neighbor.fitness < solution.fitness
+      ) {
+        this.acceptMove(solution, neighbor);
+        current = neighbor;
+        reverted++;
+      } else {
+        this.rejectMove(solution, move);
+      }
     }
 
-    const entry = newSchedule[randomIndex]!;
-    const modType = Math.random();
+    return reverted;
+  }
 
-    if (modType < 0.5) {
-      // Change time slot
-      let availableTimeSlots: TimeSlot[] = [];
+  /**
+   * Compare a repaired solution with the previous solution
+   */
+  private createRepairReport(solution: Solution): RepairReport {
+    const changed: RepairChange[] = [];
+    let unchanged = 0;
 
-      if (entry.classType === "sore") {
-        availableTimeSlots = TIME_SLOTS_SORE.slice().sort((a, b) => {
-          const aMinutes = timeToMinutes(a.startTime);
-          const bMinutes = timeToMinutes(b.startTime);
-          return aMinutes - bMinutes;
-        });
-      } else {
-        availableTimeSlots = TIME_SLOTS_PAGI.slice();
-      }
+    for (const [index, origin] of this.repairOrigins.entries()) {
+      if (!origin) continue;
+      const entry = solution.schedule[index]!;
+      const attributes = getChangedAttributes(origin.placement, entry);
 
-      const isMM = entry.prodi.toLowerCase().includes("magister manajemen");
-      if (!isMM) {
-        availableTimeSlots = availableTimeSlots.filter((slot) => slot.day !== "Saturday");
+      if (attributes.length === 0) {
+        unchanged++;
+        continue;
       }
 
-      availableTimeSlots = availableTimeSlots.filter((slot) => {
-        if (slot.day === "Friday") {
-          return isValidFridayStartTime(slot.startTime);
-        }
-        return true;
-      });
-
-      availableTimeSlots = availableTimeSlots.filter((slot) => {
-        return !isStartingDuringPrayerTime(slot.startTime);
+      changed.push({
+        classId: entry.classId,
+        class: entry.class,
+        attributes,
+        from: { day: origin.placement.timeSlot.day, startTime: origin.placement.timeSlot.startTime, room: origin.placement.room },
+        to: { day: entry.timeSlot.day, startTime: entry.timeSlot.startTime, room: entry.room },
+        reason:
+          origin.reason ??
+          this.initialViolationReasons.get(entry.classId) ??
+          (this.initialHardViolations > 0 ? 'Moved to make room for other classes' : 'Moved to reduce soft constraint penalties'),
       });
+    }
 
-      if (availableTimeSlots.length > 0) {
-        const scheduleWithoutEntry = newSchedule.filter((_, idx) => idx !== randomIndex);
+    return { unchanged, changed, distance: this.perturbation!.measure(solution.schedule) };
+  }
 
-        const validTimeSlots: TimeSlot[] = [];
-        for (const slot of availableTimeSlots) {
-          const tempEntry = { ...entry, timeSlot: slot };
-          const calc = calculateEndTime(slot.startTime, entry.sks, slot.day);
-          tempEntry.prayerTimeAdded = calc.prayerTimeAdded;
+  /**
+   * Full fitness evaluation (records violations in the checker)
+   */
+  private evaluateFull(schedule: ScheduleEntry[]): FitnessResult {
+    const result = this.evaluator.evaluate(schedule);
 
-          if (!this.hasAnyHardViolation(scheduleWithoutEntry, tempEntry)) {
-            validTimeSlots.push(slot);
-          }
-        }
+    this.logger.debug("Fitness calculated", {
+      hardViolations: result.hardViolations + result.customHardViolations,
+      softPenalty: result.softPenalty,
+      fitness: result.fitness,
+    });
 
-        let newSlot: TimeSlot;
-        if (validTimeSlots.length > 0 && Math.random() < 0.9) {
-          newSlot = validTimeSlots[Math.floor(Math.random() * validTimeSlots.length)]!;
-        } else {
-          newSlot = availableTimeSlots[Math.floor(Math.random() * availableTimeSlots.length)]!;
-        }
+    return result;
+  }
 
-        // Calculate actual end time based on SKS
-        const calc = calculateEndTime(newSlot.startTime, entry.sks, newSlot.day);
-        entry.timeSlot = {
-          ...newSlot,
-          endTime: calc.endTime,  // Use calculated end time
-        };
-        entry.prayerTimeAdded = calc.prayerTimeAdded;
-      }
-    } else {
-      // Change room
-      let requiresExclusiveRoom = false;
-      for (const [roomCode, config] of Object.entries(EXCLUSIVE_ROOMS)) {
-        const courseMatch = config.courses.some((c) => entry.className.toLowerCase().includes(c.toLowerCase()));
-        const prodiMatch = !config.prodi || entry.prodi.toLowerCase().includes(config.prodi.toLowerCase());
-        if (courseMatch && prodiMatch) {
-          requiresExclusiveRoom = true;
-          break;
-        }
-      }
+  /**
+   * Make a schedule the current solution of the delta evaluator
+   */
+  private resetCurrentSchedule(schedule: ScheduleEntry[]): FitnessResult {
+    const result = this.scoreSchedule(schedule);
+    this.currentObjectives = result.objectives ?? [];
+    return result;
+  }
 
-      if (!requiresExclusiveRoom) {
+  /**
+   * Score a schedule from scratch, leaving it in the delta evaluator
+   * (an inserted class only becomes current when its move is accepted)
+   */
+  private scoreSchedule(schedule: ScheduleEntry[]): FitnessResult {
+    this.syncInsertions(schedule.length);
+    const result = this.fitnessEvaluation === "full"
+      ? this.evaluator.evaluate(schedule)
+      : this.deltaEvaluator.reset(schedule);
+
+    if (this.perturbation) {
+      result.fitness += this.perturbation.reset(schedule);
+    }
+    result.fitness += this.unassignedPenalty();
+    this.measureObjectives(schedule, result);
+    return result;
+  }
+
+  /**
+   * Evaluate a neighbour that differs from the current schedule at `changedIndices`
+   *
+   * In "verify" mode the delta result is checked against a full pass.
+   * In repair mode the perturbation penalty is added to the fitness.
+   */
+  private evaluateNeighbor(schedule: ScheduleEntry[], changedIndices: number[]): FitnessResult {
+    const result = this.evaluateConstraints(schedule, changedIndices);
+
+    if (this.perturbation) {
+      result.fitness += this.perturbation.evaluate(schedule, changedIndices);
+    }
+    result.fitness += this.unassignedPenalty();
+    this.measureObjectives(schedule, result);
+    return result;
+  }
+
+  /**
+   * Set the multi-objective scores of a scored schedule (multi-objective mode)
+   */
+  private measureObjectives(schedule: ScheduleEntry[], result: FitnessResult): void {
+    if (this.objectives.length === 0) return;
+    result.objectives = this.objectives.map((objective) =>
+      typeof objective === "number" ? result.softTerms![objective]! : objective.evaluate(schedule)
+    );
+  }
+
+  /**
+   * Constraint score of a neighbour (full or delta evaluation)
+   */
+  private evaluateConstraints(schedule: ScheduleEntry[], changedIndices: number[]): FitnessResult {
+    if (this.fitnessEvaluation === "full") {
+      return this.evaluateFull(schedule);
+    }
+
+    const result = this.deltaEvaluator.evaluate(schedule, changedIndices);
+
+    if (this.fitnessEvaluation === "verify") {
+      const full = this.evaluator.evaluate(schedule);
+      if (
+        full.fitness !== result.fitness ||
+        full.hardViolations !== result.hardViolations ||
+        full.customHardViolations !== result.customHardViolations
+      ) {
+        throw new Error(
+          `Delta fitness mismatch: delta=${result.fitness} (hard ${result.hardViolations}), ` +
+          `full=${full.fitness} (hard ${full.hardViolations})`
+        );
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Get indices of classes with hard constraint violations
+   */
+  private getViolatingClassIndices(schedule: ScheduleEntry[]): number[] {
+    const violatingIndices: number[] = [];
+
+    // Prodi and lecturer conflicts only happen between classes on the same day
+    const entriesByDay = new Map<string, ScheduleEntry[]>();
+    for (const entry of schedule) {
+      const sameDay = entriesByDay.get(entry.timeSlot.day);
+      if (sameDay) {
+        sameDay.push(entry);
+      } else {
+        entriesByDay.set(entry.timeSlot.day, [entry]);
+      }
+    }
+
+    for (let i = 0; i < schedule.length; i++) {
+      const entry = schedule[i]!;
+      const scheduleWithoutEntry = entriesByDay.get(entry.timeSlot.day)!.filter((other) => other !== entry);
+
+      if (this.hasAnyHardViolation(scheduleWithoutEntry, entry)) {
+        violatingIndices.push(i);
+      }
+    }
+
+    return violatingIndices;
+  }
+
+  /**
+   * Check whether an entry must stay in its exclusive room (HC12)
+   */
+  private requiresExclusiveRoom(entry: ScheduleEntry): boolean {
+    for (const config of Object.values(EXCLUSIVE_ROOMS)) {
+      const courseMatch = config.courses.some((c) => entry.className.toLowerCase().includes(c.toLowerCase()));
+      const prodiMatch = !config.prodi || entry.prodi.toLowerCase().includes(config.prodi.toLowerCase());
+      if (courseMatch && prodiMatch) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Generate neighbor using MOVE operator
+   */
+  private generateNeighborMove(schedule: ScheduleEntry[]): Move {
+    // Nothing to move if no schedule entries (or all of them are locked)
+    const movable = this.movableIndices;
+    if (movable.length === 0) {
+      return new PlacementMove([]);
+    }
+
+    // Prioritize fixing hard violations
+    const violatingIndices = this.getViolatingClassIndices(schedule)
+      .filter((index) => !isFullyLocked(this.entryLocks[index]));
+    let randomIndex: number;
+
+    if (violatingIndices.length > 0 && this.rng.next() < 0.8) {
+      randomIndex = violatingIndices[Math.floor(this.rng.next() * violatingIndices.length)]!;
+    } else {
+      randomIndex = movable[Math.floor(this.rng.next() * movable.length)]!;
+    }
+
+    const entry = schedule[randomIndex]!;
+    const lock = this.entryLocks[randomIndex];
+    let placement = getPlacement(entry);
+    const modType = this.rng.next();
+
+    if (modType < 0.5) {
+      // Change time slot
+      const availableTimeSlots = this.getCandidateTimeSlots(entry.classType, entry.prodi)
+        .filter((slot) => allowsTimeSlot(lock, slot));
+
+      if (availableTimeSlots.length > 0) {
+        const scheduleWithoutEntry = schedule.filter((_, idx) => idx !== randomIndex);
+
+        const validTimeSlots: TimeSlot[] = [];
+        for (const slot of availableTimeSlots) {
+          const tempEntry = { ...entry, timeSlot: slot };
+          const calc = calculateEndTime(slot.startTime, entry.sks, slot.day);
+          tempEntry.prayerTimeAdded = calc.prayerTimeAdded;
+
+          if (!this.hasAnyHardViolation(scheduleWithoutEntry, tempEntry)) {
+            validTimeSlots.push(slot);
+          }
+        }
+
+        let newSlot: TimeSlot;
+        if (validTimeSlots.length > 0 && this.rng.next() < 0.9) {
+          newSlot = validTimeSlots[Math.floor(this.rng.next() * validTimeSlots.length)]!;
+        } else {
+          newSlot = availableTimeSlots[Math.floor(this.rng.next() * availableTimeSlots.length)]!;
+        }
+
+        // End time is recalculated based on SKS
+        placement = placeAtTimeSlot(entry, placement, newSlot);
+      }
+    } else {
+      // Change room
+      if (lock?.room === undefined && !this.requiresExclusiveRoom(entry)) {
         const classReq = this.classes.find((c) => c.Kode_Matakuliah === entry.classId);
         if (classReq) {
-          const scheduleWithoutCurrent = newSchedule.filter((_, idx) => idx !== randomIndex);
+          const scheduleWithoutCurrent = schedule.filter((_, idx) => idx !== randomIndex);
           const roomCodes = getAvailableRooms(
             this.rooms,
             scheduleWithoutCurrent,
@@ -565,489 +1202,1739 @@ export class SimulatedAnnealing {
           );
 
           if (roomCodes.length > 0) {
-            const newRoom = roomCodes[Math.floor(Math.random() * roomCodes.length)]!;
-            entry.room = newRoom;
-            entry.isOverflowToLab = !entry.needsLab && LAB_ROOMS.includes(newRoom);
+            const newRoom = roomCodes[Math.floor(this.rng.next() * roomCodes.length)]!;
+            placement = {
+              ...placement,
+              room: newRoom,
+              isOverflowToLab: !entry.needsLab && LAB_ROOMS.includes(newRoom),
+            };
           }
         }
       }
     }
 
-    const fitness = this.calculateFitness(newSchedule);
-
-    return {
-      schedule: newSchedule,
-      fitness: isNaN(fitness) ? 999999 : fitness,
-      hardViolations: 0,
-      softViolations: 0,
-    };
+    return new PlacementMove([{ index: randomIndex, placement }]);
   }
 
   /**
    * Generate neighbor using SWAP operator
    */
-  private generateNeighborSwap(solution: Solution): Solution {
-    const newSchedule = JSON.parse(JSON.stringify(solution.schedule)) as ScheduleEntry[];
-
-    if (newSchedule.length < 2) return solution;
+  private generateNeighborSwap(schedule: ScheduleEntry[]): Move {
+    const movable = this.movableIndices;
+    if (movable.length < 2) return new PlacementMove([]);
 
-    const idx1 = Math.floor(Math.random() * newSchedule.length);
-    let idx2 = Math.floor(Math.random() * newSchedule.length);
+    const idx1 = movable[Math.floor(this.rng.next() * movable.length)]!;
+    let idx2 = movable[Math.floor(this.rng.next() * movable.length)]!;
 
     while (idx2 === idx1) {
-      idx2 = Math.floor(Math.random() * newSchedule.length);
+      idx2 = movable[Math.floor(this.rng.next() * movable.length)]!;
     }
 
-    const entry1 = newSchedule[idx1]!;
-    const entry2 = newSchedule[idx2]!;
+    const entry1 = schedule[idx1]!;
+    const entry2 = schedule[idx2]!;
+    const lock1 = this.entryLocks[idx1];
+    const lock2 = this.entryLocks[idx2];
+    let placement1 = getPlacement(entry1);
+    let placement2 = getPlacement(entry2);
+
+    // Check exclusive room requirements and locks
+    const canSwapTimes = allowsTimeSlot(lock1, entry2.timeSlot) && allowsTimeSlot(lock2, entry1.timeSlot);
+    const canSwapRooms = !this.requiresExclusiveRoom(entry1) && !this.requiresExclusiveRoom(entry2) &&
+      allowsRoom(lock1, entry2.room) && allowsRoom(lock2, entry1.room);
+    const swapType = this.rng.next();
+
+    // Swap time slots, recalculating end times based on each class's SKS
+    const swapTimeSlots = (): void => {
+      if (!canSwapTimes) return;
+      placement1 = placeAtTimeSlot(entry1, placement1, entry2.timeSlot);
+      placement2 = placeAtTimeSlot(entry2, placement2, entry1.timeSlot);
+    };
 
-    // Check exclusive room requirements
-    let entry1RequiresExclusiveRoom = false;
-    let entry2RequiresExclusiveRoom = false;
+    const swapRooms = (): void => {
+      placement1 = {
+        ...placement1,
+        room: entry2.room,
+        isOverflowToLab: !entry1.needsLab && LAB_ROOMS.includes(entry2.room),
+      };
+      placement2 = {
+        ...placement2,
+        room: entry1.room,
+        isOverflowToLab: !entry2.needsLab && LAB_ROOMS.includes(entry1.room),
+      };
+    };
 
-    for (const [roomCode, config] of Object.entries(EXCLUSIVE_ROOMS)) {
-      const entry1Match = config.courses.some((c) => entry1.className.toLowerCase().includes(c.toLowerCase()));
-      const entry1ProdiMatch = !config.prodi || entry1.prodi.toLowerCase().includes(config.prodi.toLowerCase());
-      if (entry1Match && entry1ProdiMatch) {
-        entry1RequiresExclusiveRoom = true;
+    if (swapType < 0.33) {
+      // SWAP TIMESLOT ONLY
+      swapTimeSlots();
+    } else if (swapType < 0.66) {
+      // SWAP ROOM ONLY (fall back to timeslot swap for exclusive rooms)
+      if (canSwapRooms) {
+        swapRooms();
+      } else {
+        swapTimeSlots();
+      }
+    } else {
+      // SWAP BOTH
+      swapTimeSlots();
+      if (canSwapRooms) {
+        swapRooms();
       }
+    }
 
-      const entry2Match = config.courses.some((c) => entry2.className.toLowerCase().includes(c.toLowerCase()));
-      const entry2ProdiMatch = !config.prodi || entry2.prodi.toLowerCase().includes(config.prodi.toLowerCase());
-      if (entry2Match && entry2ProdiMatch) {
-        entry2RequiresExclusiveRoom = true;
+    return new PlacementMove([
+      { index: idx1, placement: placement1 },
+      { index: idx2, placement: placement2 },
+    ]);
+  }
+
+  /**
+   * Generate neighbor using the KEMPE CHAIN operator
+   *
+   * Exchanges a random start time with another one for the entry's whole Kempe
+   * chain (entries linked by a shared lecturer or prodi class, see findKempeChain),
+   * so large jumps create no new HC1/HC5 conflicts inside the chain. Rooms are
+   * kept. No move is made if an entry in the chain cannot take the other start
+   * time (locked, or not one of its candidate time slots).
+   */
+  private generateNeighborKempe(schedule: ScheduleEntry[]): Move {
+    const movable = this.movableIndices;
+    if (movable.length === 0) return new PlacementMove([]);
+
+    const startIndex = movable[Math.floor(this.rng.next() * movable.length)]!;
+    const start = schedule[startIndex]!;
+    const source = start.timeSlot;
+    const targets = this.getCandidateTimeSlots(start.classType, start.prodi)
+      .filter((slot) => allowsTimeSlot(this.entryLocks[startIndex], slot) && !isSameStart(slot, source));
+    if (targets.length === 0) return new PlacementMove([]);
+
+    const target = targets[Math.floor(this.rng.next() * targets.length)]!;
+    const chain = findKempeChain(schedule, startIndex, target);
+    if (!chain) return new PlacementMove([]);
+
+    const changes: PlacementChange[] = [];
+    for (const index of chain) {
+      const entry = schedule[index]!;
+      const slot = isSameStart(entry.timeSlot, source) ? target : source;
+      const isCandidate = this.getCandidateTimeSlots(entry.classType, entry.prodi)
+        .some((candidate) => isSameStart(candidate, slot));
+
+      if (!isCandidate || !allowsTimeSlot(this.entryLocks[index], slot)) {
+        return new PlacementMove([]);
       }
+
+      changes.push({ index, placement: placeAtTimeSlot(entry, getPlacement(entry), slot) });
     }
 
-    const canSwapRooms = !entry1RequiresExclusiveRoom && !entry2RequiresExclusiveRoom;
-    const swapType = Math.random();
+    return new PlacementMove(changes);
+  }
 
-    if (swapType < 0.33) {
-      // SWAP TIMESLOT ONLY
-      const tempTimeSlot = { ...entry1.timeSlot };
+  /**
+   * Indices of the entries that conflict with the entry at `index`
+   * (same room, shared lecturer or same prodi class at an overlapping time)
+   */
+  private getConflictingIndices(schedule: ScheduleEntry[], index: number): number[] {
+    const entry = schedule[index]!;
+    const conflicts: number[] = [];
 
-      // Swap and recalculate end times based on each class's SKS
-      const calc1 = calculateEndTime(entry2.timeSlot.startTime, entry1.sks, entry2.timeSlot.day);
-      entry1.timeSlot = {
-        ...entry2.timeSlot,
-        endTime: calc1.endTime,  // Recalculate for entry1's SKS
-      };
-      entry1.prayerTimeAdded = calc1.prayerTimeAdded;
+    for (let i = 0; i < schedule.length; i++) {
+      if (i === index || schedule[i]!.timeSlot.day !== entry.timeSlot.day) continue;
+      const other = [schedule[i]!];
+      if (!isRoomAvailable(other, entry.room, entry.timeSlot, entry.sks) || this.hasAnyHardViolation(other, entry)) {
+        conflicts.push(i);
+      }
+    }
 
-      const calc2 = calculateEndTime(tempTimeSlot.startTime, entry2.sks, tempTimeSlot.day);
-      entry2.timeSlot = {
-        ...tempTimeSlot,
-        endTime: calc2.endTime,  // Recalculate for entry2's SKS
-      };
-      entry2.prayerTimeAdded = calc2.prayerTimeAdded;
-    } else if (swapType < 0.66) {
-      // SWAP ROOM ONLY
-      if (canSwapRooms) {
-        const tempRoom = entry1.room;
-        entry1.room = entry2.room;
-        entry2.room = tempRoom;
+    return conflicts;
+  }
 
-        entry1.isOverflowToLab = !entry1.needsLab && LAB_ROOMS.includes(entry1.room);
-        entry2.isOverflowToLab = !entry2.needsLab && LAB_ROOMS.includes(entry2.room);
-      } else {
-        // Fall back to timeslot swap
-        const tempTimeSlot = { ...entry1.timeSlot };
+  /**
+   * Random conflict-free placement for the entry at `index` that keeps its locks,
+   * preferring its current room
+   */
+  private findFreePlacement(schedule: ScheduleEntry[], index: number): Placement | undefined {
+    const entry = schedule[index]!;
+    const lock = this.entryLocks[index];
+    const others = schedule.filter((_, idx) => idx !== index);
+    const classReq = this.classes.find((c) => c.Kode_Matakuliah === entry.classId);
+    const options: Placement[] = [];
 
-        const calc1 = calculateEndTime(entry2.timeSlot.startTime, entry1.sks, entry2.timeSlot.day);
-        entry1.timeSlot = {
-          ...entry2.timeSlot,
-          endTime: calc1.endTime,
-        };
-        entry1.prayerTimeAdded = calc1.prayerTimeAdded;
+    for (const slot of this.getCandidateTimeSlots(entry.classType, entry.prodi)) {
+      if (!allowsTimeSlot(lock, slot)) continue;
+
+      let placement = placeAtTimeSlot(entry, getPlacement(entry), slot);
+      if (this.hasAnyHardViolation(others, { ...entry, timeSlot: placement.timeSlot })) continue;
+
+      if (!isRoomAvailable(others, entry.room, placement.timeSlot, entry.sks)) {
+        if (lock?.room !== undefined || this.requiresExclusiveRoom(entry) || !classReq) continue;
 
-        const calc2 = calculateEndTime(tempTimeSlot.startTime, entry2.sks, tempTimeSlot.day);
-        entry2.timeSlot = {
-          ...tempTimeSlot,
-          endTime: calc2.endTime,
+        const roomCodes = getAvailableRooms(
+          this.rooms,
+          others,
+          classReq,
+          placement.timeSlot,
+          entry.participants,
+          entry.needsLab,
+          entry.className,
+          entry.prodi
+        );
+        if (roomCodes.length === 0) continue;
+
+        placement = {
+          ...placement,
+          room: roomCodes[0]!,
+          isOverflowToLab: !entry.needsLab && LAB_ROOMS.includes(roomCodes[0]!),
         };
-        entry2.prayerTimeAdded = calc2.prayerTimeAdded;
       }
-    } else {
-      // SWAP BOTH
-      const tempTimeSlot = { ...entry1.timeSlot };
 
-      const calc1 = calculateEndTime(entry2.timeSlot.startTime, entry1.sks, entry2.timeSlot.day);
-      entry1.timeSlot = {
-        ...entry2.timeSlot,
-        endTime: calc1.endTime,
-      };
-      entry1.prayerTimeAdded = calc1.prayerTimeAdded;
+      options.push(placement);
+    }
 
-      const calc2 = calculateEndTime(tempTimeSlot.startTime, entry2.sks, tempTimeSlot.day);
-      entry2.timeSlot = {
-        ...tempTimeSlot,
-        endTime: calc2.endTime,
-      };
-      entry2.prayerTimeAdded = calc2.prayerTimeAdded;
+    return options.length > 0 ? options[Math.floor(this.rng.next() * options.length)] : undefined;
+  }
 
-      if (canSwapRooms) {
-        const tempRoom = entry1.room;
-        entry1.room = entry2.room;
-        entry2.room = tempRoom;
+  /**
+   * Generate neighbor using the INSERTION operator (ejection chain)
+   *
+   * Places a missing class at a random time slot and room, then relocates every
+   * entry it conflicts with to a free placement. An entry without a free
+   * placement is moved to a random time slot and ejects the entries it
+   * conflicts with in turn, up to MAX_EJECTION_DEPTH levels. Entries are only
+   * relocated once per chain; if a conflict remains, no move is made.
+   */
+  private generateInsertion(schedule: ScheduleEntry[]): Move {
+    const unassigned = this.getUnassignedClassIndices();
+    const classIndex = unassigned[Math.floor(this.rng.next() * unassigned.length)]!;
+    const classReq = this.classes[classIndex]!;
+    const template = this.createClassTemplate(classReq);
+    const lock = getClassLock(classReq);
+
+    const timeSlots = this.getLockedTimeSlots(template, lock);
+    if (timeSlots.length === 0) {
+      return new PlacementMove([]);
+    }
+    const timeSlot = timeSlots[Math.floor(this.rng.next() * timeSlots.length)]!;
+
+    // Any suitable room, occupied or not: its occupant is ejected
+    const roomCodes = lock?.room !== undefined
+      ? [lock.room]
+      : getAvailableRooms(
+        this.rooms,
+        [],
+        classReq,
+        timeSlot,
+        template.participants,
+        template.needsLab,
+        template.courseName,
+        template.prodi
+      );
+    if (roomCodes.length === 0) {
+      return new PlacementMove([]);
+    }
+    const room = roomCodes[Math.floor(this.rng.next() * roomCodes.length)]!;
+    const entry = this.createEntry(template, timeSlot, room);
+
+    // Build the chain on the schedule itself, then restore it
+    const relocations: PlacementChange[] = [];
+    const previous: Placement[] = [];
+    schedule.push(entry);
+    const relocated = new Set<number>([schedule.length - 1]);
+    let pending = [schedule.length - 1];
+
+    let failed = false;
+
+    for (let depth = 0; depth < MAX_EJECTION_DEPTH && pending.length > 0 && !failed; depth++) {
+      const next: number[] = [];
+
+      for (const index of pending) {
+        for (const conflict of this.getConflictingIndices(schedule, index)) {
+          const conflictLock = this.entryLocks[conflict];
+          if (relocated.has(conflict) || isFullyLocked(conflictLock)) {
+            failed = true;
+            break;
+          }
+          relocated.add(conflict);
+
+          const conflictEntry = schedule[conflict]!;
+          let placement = this.findFreePlacement(schedule, conflict);
+          if (!placement) {
+            const slots = this.getCandidateTimeSlots(conflictEntry.classType, conflictEntry.prodi)
+              .filter((slot) => allowsTimeSlot(conflictLock, slot));
+            if (slots.length === 0) {
+              failed = true;
+              break;
+            }
+            const slot = slots[Math.floor(this.rng.next() * slots.length)]!;
+            placement = placeAtTimeSlot(conflictEntry, getPlacement(conflictEntry), slot);
+            next.push(conflict);
+          }
 
-        entry1.isOverflowToLab = !entry1.needsLab && LAB_ROOMS.includes(entry1.room);
-        entry2.isOverflowToLab = !entry2.needsLab && LAB_ROOMS.includes(entry2.room);
+          previous.push(getPlacement(conflictEntry));
+          relocations.push({ index: conflict, placement });
+          setPlacement(conflictEntry, placement);
+        }
+        if (failed) break;
       }
+
+      pending = next;
     }
 
-    const fitness = this.calculateFitness(newSchedule);
+    for (let i = relocations.length - 1; i >= 0; i--) {
+      setPlacement(schedule[relocations[i]!.index]!, previous[i]!);
+    }
+    schedule.pop();
 
-    return {
-      schedule: newSchedule,
-      fitness: isNaN(fitness) ? 999999 : fitness,
-      hardViolations: 0,
-      softViolations: 0,
-    };
+    if (failed || pending.length > 0) {
+      return new PlacementMove([]);
+    }
+    return new InsertionMove(classIndex, entry, relocations);
+  }
+
+  /**
+   * Classes of the initial pool that are not in the current schedule
+   */
+  private getUnassignedClassIndices(insertedCount: number = this.insertedClasses.length): number[] {
+    const inserted = new Set(this.insertedClasses.slice(0, insertedCount));
+    return this.unassignedPool.filter((index) => !inserted.has(index));
+  }
+
+  /**
+   * Fitness penalty for the classes missing from the current schedule
+   */
+  private unassignedPenalty(): number {
+    return (this.unassignedPool.length - this.insertedClasses.length) * this.unassignedClassWeight;
+  }
+
+  /**
+   * Track a class appended to the current schedule by an insertion move
+   * A class locked with Locked: "yes" keeps the placement it is inserted at.
+   */
+  private recordInsertion(classIndex: number, entry: ScheduleEntry): void {
+    const classReq = this.classes[classIndex]!;
+    const lock = isClassLocked(classReq)
+      ? { day: entry.timeSlot.day, startTime: entry.timeSlot.startTime, room: entry.room }
+      : getClassLock(classReq);
+    this.insertedClasses.push(classIndex);
+    this.entryLocks.push(lock);
+    if (!isFullyLocked(lock)) {
+      this.movableIndices.push(this.entryLocks.length - 1);
+    }
   }
 
   /**
-   * Adaptive neighbor generation (chooses between move and swap)
+   * Forget insertions beyond the end of a schedule that became current again
+   * (a rejected insertion, or a restored best solution: inserted entries are
+   * only ever appended, so a shorter schedule holds a prefix of them)
    */
-  private generateNeighbor(solution: Solution): { solution: Solution; operator: "move" | "swap" } {
-    if (this.operatorStats.move.attempts > 0) {
-      this.operatorStats.move.successRate = this.operatorStats.move.improvements / this.operatorStats.move.attempts;
+  private syncInsertions(scheduleLength: number): void {
+    while (this.entryLocks.length > scheduleLength && this.insertedClasses.length > 0) {
+      this.insertedClasses.pop();
+      this.entryLocks.pop();
+      if (this.movableIndices[this.movableIndices.length - 1] === this.entryLocks.length) {
+        this.movableIndices.pop();
+      }
     }
-    if (this.operatorStats.swap.attempts > 0) {
-      this.operatorStats.swap.successRate = this.operatorStats.swap.improvements / this.operatorStats.swap.attempts;
+  }
+
+  /**
+   * Built-in operators followed by the registered ones, each with its own stats
+   */
+  private createOperators(custom: NeighborhoodOperator[]): NeighborhoodOperator[] {
+    const operators: NeighborhoodOperator[] = [
+      { name: "move", propose: ({ schedule }) => this.generateNeighborMove(schedule) },
+      { name: "swap", propose: ({ schedule }) => this.generateNeighborSwap(schedule) },
+      { name: "kempe", propose: ({ schedule }) => this.generateNeighborKempe(schedule) },
+    ];
+
+    for (const operator of custom) {
+      if (Object.hasOwn(this.operatorStats, operator.name)) {
+        throw new Error(`Operator name "${operator.name}" is already in use`);
+      }
+      this.operatorStats[operator.name] = { attempts: 0, improvements: 0, successRate: 0 };
+      operators.push(operator);
     }
 
-    let useSwap = false;
+    return operators;
+  }
 
-    if (Math.random() < 0.3) {
-      useSwap = Math.random() < 0.5;
-    } else {
-      const moveRate = this.operatorStats.move.successRate;
-      const swapRate = this.operatorStats.swap.successRate;
+  /**
+   * View of the current schedule passed to the neighbourhood operators
+   */
+  private createOperatorContext(schedule: ScheduleEntry[]): OperatorContext {
+    return {
+      schedule,
+      random: this.rng,
+      rooms: this.rooms,
+      movableIndices: this.movableIndices,
+      getCandidateTimeSlots: (index) => {
+        const entry = schedule[index]!;
+        return this.getCandidateTimeSlots(entry.classType, entry.prodi)
+          .filter((slot) => allowsTimeSlot(this.entryLocks[index], slot));
+      },
+      allowsRoom: (index, room) => allowsRoom(this.entryLocks[index], room),
+    };
+  }
 
-      if (moveRate === 0 && swapRate === 0) {
-        useSwap = Math.random() < 0.5;
-      } else {
-        const totalRate = moveRate + swapRate;
-        useSwap = Math.random() < swapRate / totalRate;
+  /**
+   * Adaptive neighbor generation (AlgorithmConfig.operatorSelection chooses among the applicable operators)
+   */
+  protected generateNeighbor(solution: Solution): { move: Move; operator: string } {
+    for (const stats of Object.values(this.operatorStats)) {
+      if (stats.attempts > 0) {
+        stats.successRate = stats.improvements / stats.attempts;
       }
     }
 
-    const operator = useSwap ? "swap" : "move";
-    const newSolution = useSwap ? this.generateNeighborSwap(solution) : this.generateNeighborMove(solution);
+    // Missing classes are inserted by a separate operator, outside the adaptive selection
+    if (this.unassignedPool.length > this.insertedClasses.length && this.rng.next() < this.insertionRate) {
+      return { move: this.generateInsertion(solution.schedule), operator: "insertion" };
+    }
+
+    const context = this.createOperatorContext(solution.schedule);
+    const operators = this.operators.filter((candidate) => candidate.isApplicable?.(context) ?? true);
+    if (operators.length === 0) {
+      return { move: new PlacementMove([]), operator: this.operators[0]!.name };
+    }
+
+    const names = operators.map((candidate) => candidate.name);
+    const operator = operators[names.indexOf(this.operatorSelector.select(names))]!;
 
-    return { solution: newSolution, operator };
+    return { move: operator.propose(context), operator: operator.name };
   }
 
   /**
-   * Acceptance probability for standard SA
+   * Apply a move to the current solution and score the result
+   * The move stays applied; call rejectMove() to revert it.
    */
-  private acceptanceProbability(currentFitness: number, newFitness: number, temperature: number): number {
-    if (newFitness < currentFitness) {
-      return 1.0;
+  protected applyMove(solution: Solution, move: Move): FitnessResult {
+    move.apply(solution.schedule);
+
+    let result: FitnessResult;
+    if (move instanceof InsertionMove) {
+      // The schedule grew: score it from scratch
+      this.recordInsertion(move.classIndex, solution.schedule[solution.schedule.length - 1]!);
+      result = this.scoreSchedule(solution.schedule);
+    } else {
+      result = this.evaluateNeighbor(solution.schedule, move.indices);
     }
-    return Math.exp((currentFitness - newFitness) / temperature);
+
+    return {
+      ...result,
+      fitness: isNaN(result.fitness) ? 999999 : result.fitness,
+    };
   }
 
   /**
-   * Acceptance probability for Phase 1 (strict on hard constraints)
+   * Keep an applied move: the solution takes the neighbour's scores
    */
-  private acceptanceProbabilityPhase1(
-    currentHardViolations: number,
-    newHardViolations: number,
-    currentFitness: number,
-    newFitness: number,
-    temperature: number
-  ): number {
-    if (newHardViolations < currentHardViolations) {
-      return 1.0;
+  protected acceptMove(solution: Solution, neighbor: FitnessResult): void {
+    solution.fitness = neighbor.fitness;
+    solution.hardViolations = neighbor.hardViolations;
+    if (neighbor.objectives) {
+      this.currentObjectives = neighbor.objectives;
+      this.archive?.offer(solution.schedule, toParetoScore(neighbor));
     }
+    if (this.fitnessEvaluation !== "full") {
+      this.deltaEvaluator.commit();
+    }
+    this.perturbation?.commit();
+  }
 
-    if (newHardViolations === currentHardViolations) {
-      if (newFitness < currentFitness) {
-        return 1.0;
-      }
-      return Math.exp((currentFitness - newFitness) / temperature);
+  /**
+   * Revert an applied move
+   */
+  protected rejectMove(solution: Solution, move: Move): void {
+    move.undo(solution.schedule);
+    if (move instanceof InsertionMove) {
+      this.resetCurrentSchedule(solution.schedule);
+      return;
+    }
+    if (this.fitnessEvaluation !== "full") {
+      this.deltaEvaluator.discard();
     }
+    this.perturbation?.discard();
+  }
 
-    return 0.0;
+  /**
+   * How much worse `a` is than `b` (negative when it is better)
+   *
+   * The fitness difference, except in lexicographic mode: the difference
+   * in hard violations (times the hard constraint weight), else in the
+   * first objective that differs, else in fitness.
+   */
+  protected compareScores(a: Score, b: Score): number {
+    if (!this.lexicographic) {
+      return a.fitness - b.fitness;
+    }
+    if (a.hardViolations !== b.hardViolations) {
+      return (a.hardViolations - b.hardViolations) * this.hardConstraintWeight;
+    }
+    for (let i = 0; i < this.objectives.length; i++) {
+      const difference = a.objectives![i]! - b.objectives![i]!;
+      if (Math.abs(difference) > 1e-9) return difference;
+    }
+    return a.fitness - b.fitness;
   }
 
   /**
-   * Count hard violations in a solution
+   * Scores of the current solution (the one the delta evaluator holds)
    */
-  private countHardViolations(schedule: ScheduleEntry[]): number {
-    this.checker.resetViolations();
-    let hardViolations = 0;
+  protected currentScore(solution: Solution): Score {
+    return { fitness: solution.fitness, hardViolations: solution.hardViolations, objectives: this.currentObjectives };
+  }
 
-    for (let i = 0; i < schedule.length; i++) {
-      const entry = schedule[i]!;
-      const scheduleBeforeEntry = schedule.slice(0, i);
+  /**
+   * Scores of the best solution so far
+   */
+  private bestScore(state: SearchState): Score {
+    return {
+      fitness: state.bestSolution.fitness,
+      hardViolations: state.bestHardViolations,
+      objectives: state.bestResult.objectives ?? [],
+    };
+  }
 
-      if (!this.checker.checkNoLecturerConflict(scheduleBeforeEntry, entry)) hardViolations++;
-      if (!this.checker.checkNoRoomConflict(scheduleBeforeEntry, entry)) hardViolations++;
-      if (!this.checker.checkRoomCapacity(entry)) hardViolations++;
-      if (!this.checker.checkNoClassConflictSameProdi(scheduleBeforeEntry, entry)) hardViolations++;
-      if (!this.checker.checkMaxDailyPeriods(scheduleBeforeEntry, entry)) hardViolations++;
-      if (!this.checker.checkClassTypeTime(entry)) hardViolations++;
-      if (!this.checker.checkSaturdayRestriction(entry)) hardViolations++;
-      if (!this.checker.checkFridayTimeRestriction(entry)) hardViolations++;
-      if (!this.checker.checkNotStartingDuringPrayerTime(entry)) hardViolations++;
-      if (!this.checker.checkExclusiveRoomConstraint(entry)) hardViolations++;
+  /**
+   * Acceptance probability for standard SA
+   */
+  private acceptanceProbability(current: Score, neighbor: Score, temperature: number): number {
+    const delta = this.compareScores(neighbor, current);
+    if (delta < 0) {
+      return 1.0;
     }
-
-    return hardViolations;
+    return Math.exp(-delta / temperature);
   }
 
   /**
-   * Main solve method using two-phase Simulated Annealing
+   * Acceptance probability for Phase 1 (strict on hard constraints)
    */
-  solve(): Solution {
-    console.log("🚀 Starting Enhanced Simulated Annealing V3 - TWO PHASE...");
-    console.log("   PHASE 1: Eliminate hard constraints");
-    console.log("   PHASE 2: Optimize soft constraints\n");
+  private acceptanceProbabilityPhase1(current: Score, neighbor: Score, temperature: number): number {
+    if (neighbor.hardViolations < current.hardViolations) {
+      return 1.0;
+    }
 
-    this.logger.info("Starting Simulated Annealing optimization");
-    this.logger.info("Algorithm configuration", {
+    if (neighbor.hardViolations === current.hardViolations) {
+      return this.acceptanceProbability(current, neighbor, temperature);
+    }
+
+    return 0.0;
+  }
+
+  /**
+   * Cooling function for the current initial temperature
+   */
+  private createCoolingSchedule(): CoolingFunction {
+    return createCoolingSchedule(this.coolingScheduleOption, {
       initialTemperature: this.initialTemperature,
       minTemperature: this.minTemperature,
-      coolingRate: this.coolingRate,
       maxIterations: this.maxIterations,
+      coolingRate: this.coolingRate,
     });
+  }
 
-    let currentSolution = this.generateInitialSolution();
-    let bestSolution = JSON.parse(JSON.stringify(currentSolution));
+  /**
+   * Set the initial temperature from sampled neighbours of the initial solution
+   * (initialTemperature: "auto"). Sampled moves are undone.
+   */
+  private calibrateInitialTemperature(solution: Solution): void {
+    const { targetAcceptanceRatio, samples } = this.temperatureCalibration;
+    const deltas: number[] = [];
 
+    for (let i = 0; i < samples; i++) {
+      const { move } = this.generateNeighbor(solution);
+      const neighbor = this.applyMove(solution, move);
 
-    let temperature = this.initialTemperature;
-    let iteration = 0;
+      // Phase 1 accepts or rejects changes in hard violations regardless of temperature
+      if (solution.hardViolations === 0 || neighbor.hardViolations === solution.hardViolations) {
+        deltas.push(neighbor.fitness - solution.fitness);
+      }
 
-    let iterationsWithoutImprovement = 0;
-    let reheatingCount = 0;
+      this.rejectMove(solution, move);
+    }
 
-    let currentHardViolations = this.countHardViolations(currentSolution.schedule);
-    let bestHardViolations = currentHardViolations;
+    const temperature = calibrateTemperature(deltas, targetAcceptanceRatio);
 
-    console.log(`Initial fitness: ${currentSolution.fitness.toFixed(2)}`);
-    console.log(`Initial hard violations: ${currentHardViolations}`);
-    console.log(`Initial schedule size: ${currentSolution.schedule.length} classes\n`);
+    this.calibrationResult = {
+      targetAcceptanceRatio,
+      samples,
+      worseningSamples: deltas.filter((delta) => delta > 0).length,
+      fallback: temperature === undefined,
+    };
+    this.initialTemperature = temperature ?? DEFAULT_INITIAL_TEMPERATURE;
+    this.coolingSchedule = this.createCoolingSchedule();
 
-    this.logger.info("Initial solution generated", {
-      fitness: currentSolution.fitness,
+    if (temperature === undefined) {
+      this.output.log(`🌡️  No worsening neighbours sampled, using initial temperature ${this.initialTemperature}`);
+    } else {
+      this.output.log(
+        `🌡️  Calibrated initial temperature: ${this.initialTemperature.toFixed(2)} ` +
+        `(target acceptance ${(targetAcceptanceRatio * 100).toFixed(0)}%, ` +
+        `${this.calibrationResult.worseningSamples}/${samples} worsening samples)`
+      );
+    }
+
+    this.logger.info("Initial temperature calibrated", {
+      initialTemperature: this.initialTemperature,
+      ...this.calibrationResult,
+    });
+  }
+
+  /**
+   * Prepare the initial state of a run
+   */
+  private startRun(): SearchState {
+    const startTime = Date.now();
+
+    this.logSearchStart();
+
+    const currentSolution = this.generateInitialSolution();
+    const bestSolution = cloneSolution(currentSolution);
+    const currentHardViolations = currentSolution.hardViolations;
+    const initialResult = this.resetCurrentSchedule(currentSolution.schedule);
+    if (initialResult.objectives) {
+      this.archive?.offer(currentSolution.schedule, toParetoScore(initialResult));
+    }
+
+    const state: SearchState = {
+      phase: 1,
+      currentSolution,
+      bestSolution,
+      temperature: this.initialTemperature,
+      iteration: 0,
+      phase1Iteration: 0,
+      phase1MaxIterations: Math.floor(this.maxIterations * 0.6),
+      iterationsWithoutImprovement: 0,
+      reheatingCount: 0,
+      acceptance: new AcceptanceWindow(),
+      operatorUsage: new OperatorUsageTracker(getOperatorSelectionName(this.operatorSelection), this.operatorUsageWindow),
+      currentHardViolations,
+      bestHardViolations: currentHardViolations,
+      bestResult: initialResult,
+      lastImprovementIteration: 0,
+      startTime,
+      stopReason: undefined,
+    };
+    this.startSearch(state);
+    if (this.trace) {
+      state.trace = new TraceRecorder(this.trace.interval);
+      this.recordTracePoint(state, state.trace);
+    }
+
+    this.output.log(`Initial fitness: ${currentSolution.fitness.toFixed(2)}`);
+    this.output.log(`Initial hard violations: ${currentHardViolations}`);
+    this.output.log(`Initial schedule size: ${currentSolution.schedule.length} classes\n`);
+
+    this.logger.info("Initial solution generated", {
+      fitness: currentSolution.fitness,
       hardViolations: currentHardViolations,
       scheduleSize: currentSolution.schedule.length,
     });
 
     // PHASE 1: ELIMINATE HARD CONSTRAINTS
-    console.log("🎯 PHASE 1: Focusing on hard constraints...\n");
+    this.output.log("🎯 PHASE 1: Focusing on hard constraints...\n");
     this.logger.logPhaseChange(1, "Eliminate hard constraints");
-    const phase1MaxIterations = Math.floor(this.maxIterations * 0.6);
-    let phase1Iteration = 0;
 
-    while (temperature > this.initialTemperature / 10 && phase1Iteration < phase1MaxIterations && bestHardViolations > 0) {
-      const { solution: newSolution, operator } = this.generateNeighbor(currentSolution);
+    return state;
+  }
 
-      if (operator === "move") {
-        this.operatorStats.move.attempts++;
-      } else {
-        this.operatorStats.swap.attempts++;
+  /**
+   * Reject the annealing settings in a solver that replaces the annealing
+   * iterations, instead of ignoring them
+   */
+  protected rejectAnnealingSettings(config: AlgorithmConfig | undefined): void {
+    for (const setting of ANNEALING_SETTINGS) {
+      if (config?.[setting] !== undefined) {
+        throw new Error(`${setting} is only supported by SimulatedAnnealing`);
       }
+    }
+  }
 
-      const newHardViolations = this.countHardViolations(newSolution.schedule);
-      const acceptProb = this.acceptanceProbabilityPhase1(
-        currentHardViolations,
-        newHardViolations,
-        currentSolution.fitness,
-        newSolution.fitness,
-        temperature
-      );
+  /**
+   * Announce a run and its settings
+   */
+  protected logSearchStart(): void {
+    this.output.log("🚀 Starting Enhanced Simulated Annealing V3 - TWO PHASE...");
+    this.output.log("   PHASE 1: Eliminate hard constraints");
+    this.output.log("   PHASE 2: Optimize soft constraints");
+    this.output.log(`   Seed: ${this.seed ?? "custom generator"}`);
+    this.output.log(`   Operator selection: ${getOperatorSelectionName(this.operatorSelection)}`);
+    this.output.log(
+      this.parallelTempering
+        ? `   Parallel tempering: ${this.parallelTempering.temperatures?.length ?? this.parallelTempering.replicas} replicas\n`
+        : `   Cooling schedule: ${this.coolingScheduleName}\n`
+    );
 
-      if (Math.random() < acceptProb) {
-        if (newSolution.fitness < currentSolution.fitness) {
-          if (operator === "move") {
-            this.operatorStats.move.improvements++;
-          } else {
-            this.operatorStats.swap.improvements++;
-          }
-        }
+    this.logger.info("Starting Simulated Annealing optimization");
+    this.logger.info("Algorithm configuration", {
+      initialTemperature: this.initialTemperatureSetting,
+      minTemperature: this.minTemperature,
+      coolingRate: this.coolingRate,
+      coolingSchedule: this.coolingScheduleName,
+      operatorSelection: getOperatorSelectionName(this.operatorSelection),
+      maxIterations: this.maxIterations,
+    });
+  }
 
-        currentSolution = newSolution;
-        currentHardViolations = newHardViolations;
-
-        if (
-          newHardViolations < bestHardViolations ||
-          (newHardViolations === bestHardViolations && newSolution.fitness < bestSolution.fitness)
-        ) {
-          bestSolution = JSON.parse(JSON.stringify(currentSolution));
-          bestHardViolations = newHardViolations;
-          iterationsWithoutImprovement = 0;
-
-          console.log(
-            `✨ [PHASE 1] Hard violations: ${bestHardViolations}, ` +
-            `Iteration: ${phase1Iteration}, ` +
-            `Temp: ${temperature.toFixed(2)}, ` +
-            `Fitness: ${bestSolution.fitness.toFixed(2)}, ` +
-            `Operator: ${operator.toUpperCase()}`
-          );
-        } else {
-          iterationsWithoutImprovement++;
-        }
+  /**
+   * Algorithm-specific setup once the initial solution is evaluated:
+   * temperature calibration and the parallel tempering replicas
+   */
+  protected startSearch(state: SearchState): void {
+    if (this.initialTemperatureSetting === "auto") {
+      this.calibrateInitialTemperature(state.currentSolution);
+      state.temperature = this.initialTemperature;
+    }
+    if (this.parallelTempering) {
+      state.tempering = this.startTempering(state);
+    }
+  }
+
+  /**
+   * Rebuild the state of a run from a checkpoint
+   * The initial solution is generated again for the setup that depends only
+   * on the input (locks, unscheduled classes, repair origins); everything the
+   * search changed comes from the checkpoint.
+   */
+  private resumeRun(checkpoint: SolverCheckpoint): SearchState {
+    if (checkpoint.version !== CHECKPOINT_VERSION) {
+      throw new Error(`Unsupported checkpoint version: ${String(checkpoint.version)}`);
+    }
+    if (checkpoint.algorithm !== this.algorithm) {
+      throw new Error(`A ${checkpoint.algorithm} checkpoint cannot be resumed by ${this.algorithm}`);
+    }
+    if (!(this.rng instanceof SeededRandom)) {
+      throw new Error("resume needs the built-in seeded generator (a custom random generator cannot be restored)");
+    }
+
+    this.logSearchStart();
+
+    const initialSolution = this.generateInitialSolution();
+    if (initialSolution.schedule.length + checkpoint.insertedClasses.length !== checkpoint.currentSolution.schedule.length) {
+      throw new Error("Checkpoint does not match the classes of this solver");
+    }
+    this.restoreInsertions(checkpoint.currentSolution.schedule, checkpoint.insertedClasses);
+
+    this.seed = checkpoint.seed;
+    this.rng.setState(checkpoint.randomState);
+    this.initialTemperature = checkpoint.initialTemperature;
+    this.calibrationResult = checkpoint.temperatureCalibration;
+    this.coolingSchedule = this.createCoolingSchedule();
+    for (const [name, stats] of Object.entries(checkpoint.operatorStats)) {
+      this.operatorStats[name] = { ...stats };
+    }
+    this.operatorSelector.setState(checkpoint.operatorSelection);
+    this.archive?.setSolutions(checkpoint.paretoArchive ?? []);
+    if (this.adaptiveWeights && checkpoint.adaptiveWeights) {
+      this.learnedWeights = { ...checkpoint.adaptiveWeights.weights };
+      this.evaluator.setSoftConstraintWeights(this.learnedWeights);
+      this.weightUpdates = checkpoint.adaptiveWeights.updates;
+    }
+
+    const acceptance = new AcceptanceWindow();
+    acceptance.setState(checkpoint.acceptance);
+    const operatorUsage = new OperatorUsageTracker(getOperatorSelectionName(this.operatorSelection), this.operatorUsageWindow);
+    operatorUsage.setUsage(checkpoint.operatorUsage);
+
+    const state: SearchState = {
+      phase: checkpoint.phase,
+      currentSolution: cloneSolution(checkpoint.currentSolution),
+      bestSolution: cloneSolution(checkpoint.bestSolution),
+      temperature: checkpoint.temperature,
+      iteration: checkpoint.iteration,
+      phase1Iteration: checkpoint.phase1Iteration,
+      phase1MaxIterations: checkpoint.phase1MaxIterations,
+      iterationsWithoutImprovement: checkpoint.iterationsWithoutImprovement,
+      reheatingCount: checkpoint.reheatingCount,
+      acceptance,
+      operatorUsage,
+      currentHardViolations: checkpoint.currentHardViolations,
+      bestHardViolations: checkpoint.bestHardViolations,
+      bestResult: { ...checkpoint.bestResult },
+      lastImprovementIteration: checkpoint.lastImprovementIteration,
+      startTime: Date.now() - checkpoint.elapsedMs,
+      stopReason: undefined,
+    };
+    this.restoreSearch(state, checkpoint.search);
+    this.resetCurrentSchedule(state.currentSolution.schedule);
+    if (this.trace) {
+      state.trace = new TraceRecorder(this.trace.interval);
+      if (checkpoint.trace) {
+        state.trace.setState(checkpoint.trace);
       } else {
-        iterationsWithoutImprovement++;
+        this.recordTracePoint(state, state.trace);
+      }
+    }
+
+    this.output.log(
+      `💾 Resuming from the checkpoint of ${checkpoint.savedAt} at iteration ${checkpoint.iteration} ` +
+      `(best fitness ${state.bestSolution.fitness.toFixed(2)})\n`
+    );
+    this.logger.info("Resuming from checkpoint", {
+      savedAt: checkpoint.savedAt,
+      iteration: checkpoint.iteration,
+      phase: checkpoint.phase,
+      bestFitness: state.bestSolution.fitness,
+    });
+
+    return state;
+  }
+
+  /**
+   * Write the state of a run to a checkpoint file
+   */
+  private saveCheckpoint(state: SearchState, filePath: string): void {
+    const checkpoint: SolverCheckpoint = {
+      version: CHECKPOINT_VERSION,
+      algorithm: this.algorithm,
+      savedAt: new Date().toISOString(),
+      randomState: (this.rng as SeededRandom).getState(),
+      elapsedMs: Date.now() - state.startTime,
+      phase: state.phase,
+      iteration: state.iteration,
+      phase1Iteration: state.phase1Iteration,
+      phase1MaxIterations: state.phase1MaxIterations,
+      temperature: state.temperature,
+      initialTemperature: this.initialTemperature,
+      iterationsWithoutImprovement: state.iterationsWithoutImprovement,
+      reheatingCount: state.reheatingCount,
+      lastImprovementIteration: state.lastImprovementIteration,
+      currentSolution: state.currentSolution,
+      bestSolution: state.bestSolution,
+      currentHardViolations: state.currentHardViolations,
+      bestHardViolations: state.bestHardViolations,
+      bestResult: state.bestResult,
+      insertedClasses: this.insertedClasses,
+      operatorStats: this.operatorStats,
+      operatorSelection: this.operatorSelector.getState(),
+      operatorUsage: state.operatorUsage.getUsage(),
+      acceptance: state.acceptance.getState(),
+    };
+    if (this.seed !== undefined) {
+      checkpoint.seed = this.seed;
+    }
+    if (this.calibrationResult) {
+      checkpoint.temperatureCalibration = this.calibrationResult;
+    }
+    if (this.archive) {
+      checkpoint.paretoArchive = this.archive.getSolutions();
+    }
+    if (state.trace) {
+      checkpoint.trace = state.trace.getState();
+    }
+    if (this.adaptiveWeights) {
+      checkpoint.adaptiveWeights = { weights: this.learnedWeights, updates: this.weightUpdates };
+    }
+    const search = this.saveSearch(state);
+    if (search !== undefined) {
+      checkpoint.search = search;
+    }
+
+    writeCheckpoint(filePath, checkpoint);
+    this.output.log(`💾 Checkpoint saved at iteration ${state.iteration}: ${filePath}`);
+    this.logger.info("Checkpoint saved", { iteration: state.iteration, filePath });
+  }
+
+  /**
+   * Algorithm-specific part of a checkpoint (here: the parallel tempering replicas)
+   */
+  protected saveSearch(state: SearchState): unknown {
+    return state.tempering;
+  }
+
+  /**
+   * Restore the algorithm-specific part of a checkpoint
+   */
+  protected restoreSearch(state: SearchState, search: unknown): void {
+    if (!this.parallelTempering !== (search === undefined)) {
+      throw new Error("Checkpoint does not match the parallelTempering setting of this solver");
+    }
+    if (search !== undefined) {
+      state.tempering = structuredClone(search as TemperingState);
+      state.currentSolution = state.tempering.replicas[state.tempering.active]!.solution;
+    }
+  }
+
+  /**
+   * Run a single iteration of the current phase
+   *
+   * @returns false once the run is finished
+   */
+  private step(state: SearchState): boolean {
+    const stopReason = this.checkStoppingCriteria(state);
+    if (stopReason) {
+      state.stopReason = stopReason;
+      return false;
+    }
+
+    if (!this.advance(state)) {
+      return false;
+    }
+    if (this.adaptiveWeights && state.phase === 2 && state.iteration % this.adaptiveWeights.interval === 0) {
+      this.updateSoftWeights(state);
+    }
+    if (state.trace && state.iteration % state.trace.interval === 0) {
+      this.recordTracePoint(state, state.trace);
+    }
+    if (this.checkpoint && state.iteration % this.checkpoint.interval === 0) {
+      this.saveCheckpoint(state, this.checkpoint.filePath);
+    }
+    return true;
+  }
+
+  /**
+   * Run one iteration of the search; subclasses replace the annealing
+   * iterations with their own
+   *
+   * @returns false once the run is finished
+   */
+  protected advance(state: SearchState): boolean {
+    if (state.tempering) {
+      if (state.iteration >= this.maxIterations) {
+        state.stopReason = "max-iterations";
+        return false;
       }
+      this.stepTempering(state, state.tempering);
+      return true;
+    }
 
+    if (state.phase === 1) {
       if (
-        iterationsWithoutImprovement >= this.reheatingThreshold &&
-        reheatingCount < this.maxReheats &&
-        temperature < this.initialTemperature / 100
+        state.temperature > this.initialTemperature * this.phase1TemperatureRatio &&
+        state.phase1Iteration < state.phase1MaxIterations &&
+        state.bestHardViolations > 0
       ) {
-        temperature *= this.reheatingFactor;
-        reheatingCount++;
-        iterationsWithoutImprovement = 0;
-
-        console.log(
-          `🔥 [PHASE 1] REHEATING #${reheatingCount}! ` +
-          `Temp: ${temperature.toFixed(2)}, ` +
-          `Hard violations: ${bestHardViolations}`
-        );
+        this.stepPhase1(state);
+        return true;
+      }
+      this.enterPhase2(state);
+    }
+
+    if (state.temperature > this.minTemperature && state.iteration < this.maxIterations) {
+      this.stepPhase2(state);
+      return true;
+    }
+
+    state.stopReason = state.iteration >= this.maxIterations ? "max-iterations" : "min-temperature";
+    return false;
+  }
+
+  /**
+   * Optional stopping criteria, checked before every iteration
+   */
+  private checkStoppingCriteria(state: SearchState): StopReason | undefined {
+    if (this.timeLimitMs !== undefined && Date.now() - state.startTime >= this.timeLimitMs) {
+      return "time-limit";
+    }
+
+    if (this.targetFitness !== undefined && state.bestSolution.fitness <= this.targetFitness) {
+      return "target-fitness";
+    }
+
+    if (
+      this.softPenaltyThreshold !== undefined &&
+      state.bestResult.hardViolations + state.bestResult.customHardViolations === 0 &&
+      state.bestResult.softPenalty < this.softPenaltyThreshold
+    ) {
+      return "soft-penalty-threshold";
+    }
+
+    if (this.stagnationLimit !== undefined && state.iteration - state.lastImprovementIteration >= this.stagnationLimit) {
+      return "stagnation";
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Count an operator's move and reward it in the operator selection
+   * (1 when the accepted neighbour improved the current solution)
+   */
+  protected creditOperator(state: SearchState, operator: string, improved: boolean): void {
+    if (improved) {
+      this.operatorStats[operator]!.improvements++;
+    }
+    // Insertion is outside the adaptive selection
+    if (operator !== "insertion") {
+      this.operatorSelector.reward(operator, improved ? 1 : 0);
+    }
+    state.operatorUsage.record(state.phase, state.iteration, operator, improved);
+    state.trace?.countOperator(operator);
+  }
+
+  /**
+   * Record whether an iteration moved to its neighbour
+   */
+  protected recordOutcome(state: SearchState, accepted: boolean): void {
+    state.acceptance.record(accepted);
+    state.trace?.countOutcome(accepted);
+  }
+
+  /**
+   * Adapt the soft constraint weights to the current solution
+   *
+   * Each weight grows with the share of entries violating its constraint,
+   * then all are scaled back to the configured total (so the temperature
+   * keeps its meaning) and kept within maxRatio of their configured value.
+   * The current and best solutions are rescored with the new weights.
+   */
+  private updateSoftWeights(state: SearchState): void {
+    const { learningRate, maxRatio } = this.adaptiveWeights!;
+    const schedule = state.currentSolution.schedule;
+    const softTerms = this.evaluator.measureSoftTerms(schedule);
+    const weights = { ...this.learnedWeights };
+
+    let total = 0;
+    let configuredTotal = 0;
+    WEIGHTED_TERMS.forEach((name, t) => {
+      if (weights[name] > 0) {
+        const share = softTerms[t]! / weights[name] / Math.max(1, schedule.length);
+        weights[name] *= 1 + learningRate * share;
       }
+      total += weights[name];
+      configuredTotal += this.softConstraintWeights[name];
+    });
+    for (const name of WEIGHTED_TERMS) {
+      const configured = this.softConstraintWeights[name];
+      if (configured > 0) {
+        weights[name] = Math.min(configured * maxRatio, Math.max(configured / maxRatio, weights[name] * configuredTotal / total));
+      }
+    }
+
+    this.learnedWeights = weights;
+    this.evaluator.setSoftConstraintWeights(weights);
+    this.weightUpdates++;
+
+    state.currentSolution.fitness = this.resetCurrentSchedule(schedule).fitness;
+    // Only the soft penalty depends on the weights
+    const softPenalty = this.evaluator.evaluate(state.bestSolution.schedule).softPenalty;
+    state.bestSolution.fitness += softPenalty - state.bestResult.softPenalty;
+    state.bestResult = { ...state.bestResult, fitness: state.bestSolution.fitness, softPenalty };
+    this.rescoreSearch(state);
+
+    this.output.log(
+      `⚖️  Soft constraint weights updated (#${this.weightUpdates}), ` +
+      `Current: ${state.currentSolution.fitness.toFixed(2)}, ` +
+      `Best: ${state.bestSolution.fitness.toFixed(2)}`
+    );
+    this.logger.info("Soft constraint weights updated", { iteration: state.iteration, ...weights });
+  }
+
+  /**
+   * Algorithm-specific scores to update after the soft constraint weights changed
+   */
+  protected rescoreSearch(_state: SearchState): void {
+    // The annealing state holds no scores besides the current and best solutions
+  }
+
+  /**
+   * Add the current state of the run to its convergence trace
+   */
+  private recordTracePoint(state: SearchState, trace: TraceRecorder): void {
+    trace.addPoint({
+      iteration: state.iteration,
+      phase: state.phase,
+      elapsedMs: Date.now() - state.startTime,
+      temperature: state.temperature,
+      currentFitness: state.currentSolution.fitness,
+      bestFitness: state.bestSolution.fitness,
+      hardViolations: state.currentHardViolations,
+      bestHardViolations: state.bestHardViolations,
+      reheats: state.reheatingCount,
+    });
+  }
+
+  /**
+   * One Phase 1 iteration: strict acceptance on hard violations
+   */
+  private stepPhase1(state: SearchState): void {
+    const { move, operator } = this.generateNeighbor(state.currentSolution);
+
+    this.operatorStats[operator]!.attempts++;
+
+    const current = this.currentScore(state.currentSolution);
+    const neighbor = this.applyMove(state.currentSolution, move);
+    const newHardViolations = neighbor.hardViolations;
+    const acceptProb = this.acceptanceProbabilityPhase1(current, neighbor, state.temperature);
 
-      temperature *= this.coolingRate;
-      phase1Iteration++;
-      iteration++;
+    const accepted = this.rng.next() < acceptProb;
+    this.creditOperator(state, operator, accepted && this.compareScores(neighbor, current) < 0);
 
-      if (phase1Iteration % 1000 === 0) {
-        console.log(
-          `⏳ [PHASE 1] Iteration ${phase1Iteration}, ` +
-          `Temp: ${temperature.toFixed(2)}, ` +
-          `Hard violations: ${currentHardViolations}, ` +
-          `Best hard violations: ${bestHardViolations}`
+    if (accepted) {
+      this.acceptMove(state.currentSolution, neighbor);
+      this.recordOutcome(state, true);
+      state.currentHardViolations = newHardViolations;
+
+      if (
+        newHardViolations < state.bestHardViolations ||
+        (newHardViolations === state.bestHardViolations && this.compareScores(neighbor, this.bestScore(state)) < 0)
+      ) {
+        state.bestSolution = cloneSolution(state.currentSolution);
+        state.bestResult = neighbor;
+        state.lastImprovementIteration = state.iteration + 1;
+        state.bestHardViolations = newHardViolations;
+        state.iterationsWithoutImprovement = 0;
+
+        this.output.log(
+          `✨ [PHASE 1] Hard violations: ${state.bestHardViolations}, ` +
+          `Iteration: ${state.phase1Iteration}, ` +
+          `Temp: ${state.temperature.toFixed(2)}, ` +
+          `Fitness: ${state.bestSolution.fitness.toFixed(2)}, ` +
+          `Operator: ${operator.toUpperCase()}`
         );
+      } else {
+        state.iterationsWithoutImprovement++;
       }
+    } else {
+      this.rejectMove(state.currentSolution, move);
+      this.recordOutcome(state, false);
+      state.iterationsWithoutImprovement++;
+    }
+
+    if (
+      state.iterationsWithoutImprovement >= this.reheatingThreshold &&
+      state.reheatingCount < this.maxReheats &&
+      state.temperature < this.initialTemperature / 100
+    ) {
+      state.temperature *= this.reheatingFactor;
+      state.reheatingCount++;
+      state.iterationsWithoutImprovement = 0;
+
+      this.output.log(
+        `🔥 [PHASE 1] REHEATING #${state.reheatingCount}! ` +
+        `Temp: ${state.temperature.toFixed(2)}, ` +
+        `Hard violations: ${state.bestHardViolations}`
+      );
     }
 
-    console.log(`\n✅ PHASE 1 Complete! Hard violations: ${bestHardViolations}\n`);
+    state.temperature = this.cool(state);
+    state.phase1Iteration++;
+    state.iteration++;
+
+    if (state.phase1Iteration % 1000 === 0) {
+      this.output.log(
+        `⏳ [PHASE 1] Iteration ${state.phase1Iteration}, ` +
+        `Temp: ${state.temperature.toFixed(2)}, ` +
+        `Hard violations: ${state.currentHardViolations}, ` +
+        `Best hard violations: ${state.bestHardViolations}`
+      );
+    }
+  }
+
+  /**
+   * Temperature for the next iteration from the configured cooling schedule
+   */
+  private cool(state: SearchState): number {
+    const temperature = this.coolingSchedule(state.iteration, state.temperature, {
+      phase: state.phase,
+      initialTemperature: this.initialTemperature,
+      minTemperature: this.minTemperature,
+      maxIterations: this.maxIterations,
+      acceptanceRatio: state.acceptance.ratio,
+      currentFitness: state.currentSolution.fitness,
+      bestFitness: state.bestSolution.fitness,
+      reheats: state.reheatingCount,
+    });
+
+    if (!Number.isFinite(temperature) || temperature < 0) {
+      throw new Error(`Cooling schedule returned an invalid temperature: ${temperature}`);
+    }
+
+    return temperature;
+  }
+
+  /**
+   * Switch from Phase 1 to Phase 2, continuing from the best solution
+   */
+  private enterPhase2(state: SearchState): void {
+    this.output.log(`\n✅ PHASE 1 Complete! Hard violations: ${state.bestHardViolations}\n`);
 
     this.logger.info("Phase 1 completed", {
-      hardViolations: bestHardViolations,
-      iterations: phase1Iteration,
-      bestFitness: bestSolution.fitness,
+      hardViolations: state.bestHardViolations,
+      iterations: state.phase1Iteration,
+      bestFitness: state.bestSolution.fitness,
     });
 
     // PHASE 2: OPTIMIZE SOFT CONSTRAINTS
-    console.log("🎯 PHASE 2: Optimizing soft constraints...\n");
+    this.output.log("🎯 PHASE 2: Optimizing soft constraints...\n");
     this.logger.logPhaseChange(2, "Optimize soft constraints");
 
-    currentSolution = JSON.parse(JSON.stringify(bestSolution));
-    iterationsWithoutImprovement = 0;
-
-    while (temperature > this.minTemperature && iteration < this.maxIterations) {
-      const { solution: newSolution, operator } = this.generateNeighbor(currentSolution);
+    state.phase = 2;
+    state.currentSolution = cloneSolution(state.bestSolution);
+    state.currentHardViolations = state.bestHardViolations;
+    state.iterationsWithoutImprovement = 0;
+    this.resetCurrentSchedule(state.currentSolution.schedule);
+  }
 
-      if (operator === "move") {
-        this.operatorStats.move.attempts++;
+  /**
+   * One Phase 2 iteration: standard Metropolis acceptance
+   */
+  private stepPhase2(state: SearchState): void {
+    const { move, operator } = this.generateNeighbor(state.currentSolution);
+
+    this.operatorStats[operator]!.attempts++;
+
+    const current = this.currentScore(state.currentSolution);
+    const neighbor = this.applyMove(state.currentSolution, move);
+    const acceptProb = this.acceptanceProbability(current, neighbor, state.temperature);
+
+    const accepted = this.rng.next() < acceptProb;
+    this.creditOperator(state, operator, accepted && this.compareScores(neighbor, current) < 0);
+
+    if (accepted) {
+      this.acceptMove(state.currentSolution, neighbor);
+      this.recordOutcome(state, true);
+      state.currentHardViolations = neighbor.hardViolations;
+
+      if (this.compareScores(neighbor, this.bestScore(state)) < 0) {
+        state.bestSolution = cloneSolution(state.currentSolution);
+        state.bestResult = neighbor;
+        state.lastImprovementIteration = state.iteration + 1;
+        state.iterationsWithoutImprovement = 0;
+
+        this.output.log(
+          `✨ [PHASE 2] New best! Iteration ${state.iteration}, ` +
+          `Temp: ${state.temperature.toFixed(2)}, ` +
+          `Fitness: ${state.bestSolution.fitness.toFixed(2)}, ` +
+          `Operator: ${operator.toUpperCase()}`
+        );
       } else {
-        this.operatorStats.swap.attempts++;
+        state.iterationsWithoutImprovement++;
       }
+    } else {
+      this.rejectMove(state.currentSolution, move);
+      this.recordOutcome(state, false);
+      state.iterationsWithoutImprovement++;
+    }
+
+    if (
+      state.iterationsWithoutImprovement >= this.reheatingThreshold &&
+      state.reheatingCount < this.maxReheats &&
+      state.temperature < this.initialTemperature / 100
+    ) {
+      state.temperature *= this.reheatingFactor;
+      state.reheatingCount++;
+      state.iterationsWithoutImprovement = 0;
+
+      this.output.log(
+        `🔥 [PHASE 2] REHEATING #${state.reheatingCount}! ` +
+        `Temp: ${state.temperature.toFixed(2)}, ` +
+        `Fitness: ${state.bestSolution.fitness.toFixed(2)}`
+      );
+    }
+
+    state.temperature = this.cool(state);
+    state.iteration++;
+
+    if (state.iteration % 1000 === 0) {
+      this.output.log(
+        `⏳ [PHASE 2] Iteration ${state.iteration}, ` +
+        `Temp: ${state.temperature.toFixed(2)}, ` +
+        `Current: ${state.currentSolution.fitness.toFixed(2)}, ` +
+        `Best: ${state.bestSolution.fitness.toFixed(2)}`
+      );
+    }
+  }
+
+  /**
+   * Whether a neighbour beats the best solution: fewer hard violations, then
+   * a better score (for searches that never restart from the best)
+   */
+  protected improvesBest(state: SearchState, neighbor: FitnessResult): boolean {
+    return (
+      neighbor.hardViolations < state.bestHardViolations ||
+      (neighbor.hardViolations === state.bestHardViolations && this.compareScores(neighbor, this.bestScore(state)) < 0)
+    );
+  }
+
+  /**
+   * Make the current solution (just scored as `neighbor`) the best one
+   */
+  protected recordBest(state: SearchState, neighbor: FitnessResult): void {
+    state.bestSolution = cloneSolution(state.currentSolution);
+    state.bestResult = neighbor;
+    state.lastImprovementIteration = state.iteration + 1;
+    state.bestHardViolations = neighbor.hardViolations;
+  }
+
+  /**
+   * Move on to Phase 2 once the best solution has no hard violations
+   * (for searches without a separate Phase 1 stage)
+   */
+  protected checkFeasible(state: SearchState): void {
+    if (state.phase === 1 && state.bestHardViolations === 0) {
+      this.output.log(`\n✅ PHASE 1 Complete! Hard violations: 0 (iteration ${state.iteration})\n`);
+      this.logger.logPhaseChange(2, "Optimize soft constraints");
+      state.phase = 2;
+    }
+  }
 
-      const acceptProb = this.acceptanceProbability(currentSolution.fitness, newSolution.fitness, temperature);
+  /**
+   * Temperature ladder for parallel tempering, coldest first
+   * Without explicit temperatures, replicas are spaced geometrically between
+   * minTemperature and maxTemperature.
+   */
+  private createTemperatureLadder(): number[] {
+    const config = this.parallelTempering!;
+    if (config.temperatures) {
+      return [...config.temperatures].sort((a, b) => a - b);
+    }
+
+    const max = config.maxTemperature ?? this.initialTemperature;
+    const min = config.minTemperature ?? max / 10000;
+    return Array.from({ length: config.replicas }, (_, i) => min * Math.pow(max / min, i / (config.replicas - 1)));
+  }
+
+  /**
+   * Start every replica from the initial solution, the coldest one first
+   */
+  private startTempering(state: SearchState): TemperingState {
+    const temperatures = this.createTemperatureLadder();
+    const replicas: Replica[] = temperatures.map((_, i) => ({
+      solution: i === 0 ? state.currentSolution : cloneSolution(state.currentSolution),
+      insertedClasses: [...this.insertedClasses],
+    }));
+    state.temperature = temperatures[0]!;
+
+    this.output.log(`🌡️  Temperature ladder: ${temperatures.map((temperature) => temperature.toFixed(2)).join(", ")}\n`);
+    this.logger.info("Parallel tempering", {
+      temperatures,
+      exchangeInterval: this.parallelTempering!.exchangeInterval,
+    });
+
+    return {
+      temperatures,
+      replicas,
+      active: 0,
+      steps: 0,
+      round: 0,
+      exchangeAttempts: new Array<number>(temperatures.length - 1).fill(0),
+      exchangesAccepted: new Array<number>(temperatures.length - 1).fill(0),
+      bestInsertedClasses: [...this.insertedClasses],
+    };
+  }
+
+  /**
+   * Run one Metropolis step of the active replica at its fixed temperature
+   */
+  private stepTempering(state: SearchState, tempering: TemperingState): void {
+    const { move, operator } = this.generateNeighbor(state.currentSolution);
+
+    this.operatorStats[operator]!.attempts++;
+
+    const current = this.currentScore(state.currentSolution);
+    const neighbor = this.applyMove(state.currentSolution, move);
+    const acceptProb = this.acceptanceProbability(current, neighbor, state.temperature);
+
+    const accepted = this.rng.next() < acceptProb;
+    this.creditOperator(state, operator, accepted && this.compareScores(neighbor, current) < 0);
+
+    if (accepted) {
+      this.acceptMove(state.currentSolution, neighbor);
+      this.recordOutcome(state, true);
+      state.currentHardViolations = neighbor.hardViolations;
+
+      if (this.improvesBest(state, neighbor)) {
+        this.recordBest(state, neighbor);
+        tempering.bestInsertedClasses = [...this.insertedClasses];
+
+        this.output.log(
+          `✨ [TEMPERING] New best! Iteration ${state.iteration}, ` +
+          `Temp: ${state.temperature.toFixed(2)}, ` +
+          `Hard violations: ${state.bestHardViolations}, ` +
+          `Fitness: ${state.bestSolution.fitness.toFixed(2)}, ` +
+          `Operator: ${operator.toUpperCase()}`
+        );
+      }
+    } else {
+      this.rejectMove(state.currentSolution, move);
+      this.recordOutcome(state, false);
+    }
+
+    state.iteration++;
+    this.checkFeasible(state);
+
+    tempering.steps++;
+    if (tempering.steps >= this.parallelTempering!.exchangeInterval) {
+      this.switchReplica(state, tempering);
+    }
+
+    if (state.iteration % 1000 === 0) {
+      this.output.log(
+        `⏳ [TEMPERING] Iteration ${state.iteration}, ` +
+        `Coldest: ${tempering.replicas[0]!.solution.fitness.toFixed(2)}, ` +
+        `Best: ${state.bestSolution.fitness.toFixed(2)}`
+      );
+    }
+  }
+
+  /**
+   * Hand over to the next replica; after the hottest one, try the exchanges
+   */
+  private switchReplica(state: SearchState, tempering: TemperingState): void {
+    tempering.replicas[tempering.active]!.insertedClasses = [...this.insertedClasses];
+    tempering.steps = 0;
+    tempering.active++;
+
+    if (tempering.active === tempering.replicas.length) {
+      tempering.active = 0;
+      this.exchangeReplicas(tempering);
+    }
+
+    const replica = tempering.replicas[tempering.active]!;
+    this.restoreInsertions(replica.solution.schedule, replica.insertedClasses);
+    this.resetCurrentSchedule(replica.solution.schedule);
+    state.currentSolution = replica.solution;
+    state.currentHardViolations = replica.solution.hardViolations;
+    state.temperature = tempering.temperatures[tempering.active]!;
+  }
 
-      if (Math.random() < acceptProb) {
-        if (newSolution.fitness < currentSolution.fitness) {
-          if (operator === "move") {
-            this.operatorStats.move.improvements++;
-          } else {
-            this.operatorStats.swap.improvements++;
+  /**
+   * Try to swap the solutions of neighbouring temperatures (even pairs and
+   * odd pairs in alternate rounds)
+   */
+  private exchangeReplicas(tempering: TemperingState): void {
+    const { temperatures, replicas } = tempering;
+
+    for (let i = tempering.round % 2; i + 1 < replicas.length; i += 2) {
+      const cold = replicas[i]!;
+      const hot = replicas[i + 1]!;
+      const delta = (1 / temperatures[i]! - 1 / temperatures[i + 1]!) * (cold.solution.fitness - hot.solution.fitness);
+
+      tempering.exchangeAttempts[i]!++;
+      if (delta >= 0 || this.rng.next() < Math.exp(delta)) {
+        replicas[i] = hot;
+        replicas[i + 1] = cold;
+        tempering.exchangesAccepted[i]!++;
+      }
+    }
+
+    tempering.round++;
+  }
+
+  /**
+   * Replace the inserted classes of the current trajectory (parallel tempering
+   * replicas each insert their own)
+   */
+  private restoreInsertions(schedule: ScheduleEntry[], insertedClasses: number[]): void {
+    this.syncInsertions(this.entryLocks.length - this.insertedClasses.length);
+    // Inserted entries are the last ones of the schedule, in insertion order
+    const first = schedule.length - insertedClasses.length;
+    for (const [i, classIndex] of insertedClasses.entries()) {
+      this.recordInsertion(classIndex, schedule[first + i]!);
+    }
+  }
+
+  /**
+   * Ladder and exchange counts for solution metadata
+   */
+  private createTemperingReport(tempering: TemperingState): ParallelTemperingReport {
+    return {
+      temperatures: tempering.temperatures,
+      exchangeAttempts: tempering.exchangeAttempts,
+      exchangesAccepted: tempering.exchangesAccepted,
+    };
+  }
+
+  /**
+   * Local-search polish (AlgorithmConfig.polish): descend from the final
+   * solution with single-entry moves and pairwise swaps until a full sweep
+   * finds no improvement. Entries are visited in schedule order, so the
+   * polish does not draw random numbers.
+   */
+  private polishSolution(solution: Solution): PolishReport {
+    const config = this.polish!;
+    this.output.log(`🔧 Polishing the best solution (${config.type})...`);
+
+    this.resetCurrentSchedule(solution.schedule);
+    const report: PolishReport = {
+      strategy: config.type,
+      passes: 0,
+      moves: 0,
+      swaps: 0,
+      evaluations: 0,
+      initialFitness: solution.fitness,
+      finalFitness: solution.fitness,
+      improvement: 0,
+      initialHardViolations: solution.hardViolations,
+      finalHardViolations: solution.hardViolations,
+    };
+
+    let improved = true;
+    while (improved && report.passes < (config.maxPasses ?? Infinity)) {
+      improved = false;
+      report.passes++;
+
+      for (const index of this.movableIndices) {
+        if (this.descend(solution, this.getPolishMoves(solution.schedule, index), config.type, report)) {
+          report.moves++;
+          improved = true;
+        }
+      }
+
+      if (config.swaps) {
+        for (let a = 0; a < this.movableIndices.length; a++) {
+          const swaps: Move[] = [];
+          for (let b = a + 1; b < this.movableIndices.length; b++) {
+            swaps.push(...this.getPolishSwaps(solution.schedule, this.movableIndices[a]!, this.movableIndices[b]!));
+          }
+          if (this.descend(solution, swaps, config.type, report)) {
+            report.swaps++;
+            improved = true;
           }
         }
+      }
+    }
 
-        currentSolution = newSolution;
+    report.finalFitness = solution.fitness;
+    report.finalHardViolations = solution.hardViolations;
+    report.improvement = report.initialFitness - report.finalFitness;
 
-        if (currentSolution.fitness < bestSolution.fitness) {
-          bestSolution = JSON.parse(JSON.stringify(currentSolution));
-          iterationsWithoutImprovement = 0;
+    this.output.log(
+      `🔧 Polish: fitness ${report.initialFitness.toFixed(2)} → ${report.finalFitness.toFixed(2)} ` +
+      `(${report.moves} moves, ${report.swaps} swaps, ${report.passes} passes, ${report.evaluations} neighbours)\n`
+    );
+    this.logger.info("Polish completed", { ...report });
 
-          console.log(
-            `✨ [PHASE 2] New best! Iteration ${iteration}, ` +
-            `Temp: ${temperature.toFixed(2)}, ` +
-            `Fitness: ${bestSolution.fitness.toFixed(2)}, ` +
-            `Operator: ${operator.toUpperCase()}`
-          );
-        } else {
-          iterationsWithoutImprovement++;
-        }
-      } else {
-        iterationsWithoutImprovement++;
+    return report;
+  }
+
+  /**
+   * Apply the first, or the best, of `candidates` that improves the solution
+   *
+   * @returns whether a move was applied
+   */
+  private descend(solution: Solution, candidates: Move[], strategy: PolishStrategy, report: PolishReport): boolean {
+    const current = this.currentScore(solution);
+    let best: { move: Move; result: FitnessResult } | undefined;
+
+    for (const move of candidates) {
+      const result = this.applyMove(solution, move);
+      report.evaluations++;
+
+      if (strategy === "first-improvement" && this.isImprovement(result, current)) {
+        this.acceptMove(solution, result);
+        return true;
       }
+      this.rejectMove(solution, move);
 
-      if (
-        iterationsWithoutImprovement >= this.reheatingThreshold &&
-        reheatingCount < this.maxReheats &&
-        temperature < this.initialTemperature / 100
-      ) {
-        temperature *= this.reheatingFactor;
-        reheatingCount++;
-        iterationsWithoutImprovement = 0;
-
-        console.log(
-          `🔥 [PHASE 2] REHEATING #${reheatingCount}! ` +
-          `Temp: ${temperature.toFixed(2)}, ` +
-          `Fitness: ${bestSolution.fitness.toFixed(2)}`
-        );
+      if (this.isImprovement(result, best?.result ?? current)) {
+        best = { move, result };
       }
+    }
 
-      temperature *= this.coolingRate;
-      iteration++;
+    if (!best) return false;
+    this.acceptMove(solution, this.applyMove(solution, best.move));
+    return true;
+  }
 
-      if (iteration % 1000 === 0) {
-        console.log(
-          `⏳ [PHASE 2] Iteration ${iteration}, ` +
-          `Temp: ${temperature.toFixed(2)}, ` +
-          `Current: ${currentSolution.fitness.toFixed(2)}, ` +
-          `Best: ${bestSolution.fitness.toFixed(2)}`
-        );
+  /**
+   * Whether a scored neighbour improves on a solution: fewer hard violations,
+   * or as many and a better score (ignoring rounding noise of delta evaluation)
+   */
+  private isImprovement(neighbor: Score, solution: Score): boolean {
+    return (
+      neighbor.hardViolations < solution.hardViolations ||
+      (neighbor.hardViolations === solution.hardViolations && this.compareScores(neighbor, solution) < -1e-9)
+    );
+  }
+
+  /**
+   * Every candidate time slot and room of an entry, within its lock
+   */
+  private getPolishMoves(schedule: ScheduleEntry[], index: number): Move[] {
+    const entry = schedule[index]!;
+    const lock = this.entryLocks[index];
+    const classReq = this.classes.find((c) => c.Kode_Matakuliah === entry.classId);
+    const keepRoom = lock?.room !== undefined || this.requiresExclusiveRoom(entry) || !classReq;
+    const moves: Move[] = [];
+
+    for (const slot of this.getCandidateTimeSlots(entry.classType, entry.prodi)) {
+      if (!allowsTimeSlot(lock, slot)) continue;
+
+      const placement = placeAtTimeSlot(entry, getPlacement(entry), slot);
+      // Any suitable room, occupied or not: the fitness counts the clashes
+      const rooms = keepRoom
+        ? [entry.room]
+        : new Set([
+          entry.room,
+          ...getAvailableRooms(
+            this.rooms,
+            [],
+            classReq,
+            placement.timeSlot,
+            entry.participants,
+            entry.needsLab,
+            entry.className,
+            entry.prodi
+          ),
+        ]);
+
+      for (const room of rooms) {
+        if (isSameStart(slot, entry.timeSlot) && room === entry.room) continue;
+        moves.push(new PlacementMove([{
+          index,
+          placement: { ...placement, room, isOverflowToLab: !entry.needsLab && LAB_ROOMS.includes(room) },
+        }]));
       }
     }
 
-    console.log(`\n🎉 Optimization complete!`);
-    console.log(`Final best fitness: ${bestSolution.fitness.toFixed(2)}`);
-    console.log(`Total iterations: ${iteration}`);
-    console.log(`Total reheating: ${reheatingCount}\n`);
+    return moves;
+  }
 
-    this.logger.info("Optimization completed", {
-      finalFitness: bestSolution.fitness,
-      totalIterations: iteration,
-      totalReheats: reheatingCount,
-      temperature: temperature,
-    });
+  /**
+   * Swaps of the time slots, the rooms, or both between two entries, within their locks
+   */
+  private getPolishSwaps(schedule: ScheduleEntry[], index1: number, index2: number): Move[] {
+    const entry1 = schedule[index1]!;
+    const entry2 = schedule[index2]!;
+    const lock1 = this.entryLocks[index1];
+    const lock2 = this.entryLocks[index2];
+
+    const canSwapTimes = !isSameStart(entry1.timeSlot, entry2.timeSlot) &&
+      allowsTimeSlot(lock1, entry2.timeSlot) && allowsTimeSlot(lock2, entry1.timeSlot);
+    const canSwapRooms = entry1.room !== entry2.room &&
+      !this.requiresExclusiveRoom(entry1) && !this.requiresExclusiveRoom(entry2) &&
+      allowsRoom(lock1, entry2.room) && allowsRoom(lock2, entry1.room);
+
+    const swap = (times: boolean, rooms: boolean): Move => {
+      let placement1 = getPlacement(entry1);
+      let placement2 = getPlacement(entry2);
+      if (times) {
+        placement1 = placeAtTimeSlot(entry1, placement1, entry2.timeSlot);
+        placement2 = placeAtTimeSlot(entry2, placement2, entry1.timeSlot);
+      }
+      if (rooms) {
+        placement1 = { ...placement1, room: entry2.room, isOverflowToLab: !entry1.needsLab && LAB_ROOMS.includes(entry2.room) };
+        placement2 = { ...placement2, room: entry1.room, isOverflowToLab: !entry2.needsLab && LAB_ROOMS.includes(entry1.room) };
+      }
+      return new PlacementMove([
+        { index: index1, placement: placement1 },
+        { index: index2, placement: placement2 },
+      ]);
+    };
 
-    console.log("📊 Operator Statistics:");
-    console.log(
-      `   MOVE: ${this.operatorStats.move.attempts} attempts, ` +
-      `${this.operatorStats.move.improvements} improvements, ` +
-      `Success rate: ${(this.operatorStats.move.successRate * 100).toFixed(2)}%`
-    );
-    console.log(
-      `   SWAP: ${this.operatorStats.swap.attempts} attempts, ` +
-      `${this.operatorStats.swap.improvements} improvements, ` +
-      `Success rate: ${(this.operatorStats.swap.successRate * 100).toFixed(2)}%\n`
+    const swaps: Move[] = [];
+    if (canSwapTimes) swaps.push(swap(true, false));
+    if (canSwapRooms) swaps.push(swap(false, true));
+    if (canSwapTimes && canSwapRooms) swaps.push(swap(true, true));
+    return swaps;
+  }
+
+  /**
+   * Summary of the classes missing from the final schedule, also saved to
+   * unscheduled-classes.json: classes the initial solution skipped, and the
+   * ones it could not place that the search did not insert either
+   */
+  private reportUnscheduledClasses(scheduled: number, unassigned: number[]): void {
+    const remaining = new Set(unassigned);
+    const skippedClasses = this.skippedClasses.filter(
+      (skip) => skip.classIndex === undefined || remaining.has(skip.classIndex)
     );
+    if (skippedClasses.length === 0) {
+      return;
+    }
 
-    this.logger.logOperatorStats({
-      operator: "MOVE",
-      attempts: this.operatorStats.move.attempts,
-      improvements: this.operatorStats.move.improvements,
-      successRate: this.operatorStats.move.successRate,
-    });
+    this.output.log(`\n⚠️  SCHEDULING SUMMARY:`);
+    this.output.log(`   Total classes to schedule: ${this.classes.length}`);
+    this.output.log(`   Successfully scheduled: ${scheduled}`);
+    this.output.log(`   Skipped/Failed: ${skippedClasses.length}\n`);
+
+    // Group by reason
+    const byReason: { [key: string]: typeof skippedClasses } = {};
+    for (const skip of skippedClasses) {
+      if (!byReason[skip.reason]) {
+        byReason[skip.reason] = [];
+      }
+      byReason[skip.reason]!.push(skip);
+    }
+
+    this.output.log(`📊 Breakdown by reason:`);
+    for (const [reason, classes] of Object.entries(byReason)) {
+      this.output.log(`\n   ${reason}: ${classes.length} classes`);
+      classes.slice(0, 5).forEach((c) => {
+        this.output.log(`     - ${c.code}: ${c.class}`);
+      });
+      if (classes.length > 5) {
+        this.output.log(`     ... and ${classes.length - 5} more`);
+      }
+    }
+    this.output.log();
+
+    // Save to file for detailed review
+    const logPath = path.join(process.cwd(), 'unscheduled-classes.json');
+    fs.writeFileSync(logPath, JSON.stringify({
+      summary: {
+        totalClasses: this.classes.length,
+        scheduled,
+        unscheduled: skippedClasses.length,
+      },
+      skippedClasses: skippedClasses.map(({ classIndex: _classIndex, ...skip }) => skip),
+      byReason: Object.entries(byReason).map(([reason, classes]) => ({
+        reason,
+        count: classes.length,
+        classes: classes.map(({ classIndex: _classIndex, ...skip }) => skip),
+      })),
+    }, null, 2));
+    this.output.log(`📝 Detailed report saved to: ${logPath}\n`);
+  }
+
+  /**
+   * Report statistics and build the final solution of a run
+   */
+  private finishRun(state: SearchState): Solution {
+    const bestSolution = state.bestSolution;
+    if (state.tempering) {
+      // Classes inserted along the best replica's trajectory
+      this.restoreInsertions(bestSolution.schedule, state.tempering.bestInsertedClasses);
+    }
+
+    const polishReport = this.polish ? this.polishSolution(bestSolution) : undefined;
+
+    if (this.perturbation) {
+      const reverted = this.revertUnneededChanges(bestSolution);
+      if (reverted > 0) {
+        this.output.log(`↩️  Moved ${reverted} entries back to their previous placement`);
+      }
+    }
 
-    this.logger.logOperatorStats({
-      operator: "SWAP",
-      attempts: this.operatorStats.swap.attempts,
-      improvements: this.operatorStats.swap.improvements,
-      successRate: this.operatorStats.swap.successRate,
+    this.output.log(`\n🎉 Optimization complete!`);
+    this.output.log(`Final best fitness: ${bestSolution.fitness.toFixed(2)}`);
+    this.output.log(`Total iterations: ${state.iteration}`);
+    this.output.log(`Total reheating: ${state.reheatingCount}`);
+    this.output.log(`Stopped by: ${state.stopReason}\n`);
+
+    const elapsedMs = Date.now() - state.startTime;
+
+    this.logger.info("Optimization completed", {
+      finalFitness: bestSolution.fitness,
+      totalIterations: state.iteration,
+      totalReheats: state.reheatingCount,
+      temperature: state.temperature,
+      stopReason: state.stopReason,
+      elapsedMs,
     });
 
+    this.output.log("📊 Operator Statistics:");
+    // Insertion is only reported when classes were missing
+    const reported = this.operators.map((operator) => operator.name);
+    if (this.operatorStats.insertion.attempts > 0) {
+      reported.push("insertion");
+    }
+    for (const name of reported) {
+      const stats = this.operatorStats[name]!;
+      this.output.log(
+        `   ${name.toUpperCase()}: ${stats.attempts} attempts, ` +
+        `${stats.improvements} improvements, ` +
+        `Success rate: ${(stats.successRate * 100).toFixed(2)}%`
+      );
+      this.logger.logOperatorStats({ operator: name.toUpperCase(), ...stats });
+    }
+    this.output.log("");
+
+    const adaptiveWeightsReport = this.adaptiveWeights ? this.createWeightsReport(bestSolution) : undefined;
+
     // Generate final violation report
-    this.calculateFitness(bestSolution.schedule);
+    const finalResult = this.evaluateFull(bestSolution.schedule);
+    this.measureObjectives(bestSolution.schedule, finalResult);
     const violations = this.checker.getViolations();
 
     const hardViolations = violations.filter((v) => v.severity === "hard");
@@ -1074,9 +2961,414 @@ export class SimulatedAnnealing {
       violationsByType,
     });
 
+    const metadata: SolutionMetadata = {
+      algorithm: this.algorithm,
+      iterations: state.iteration,
+      elapsedMs,
+      operatorStats: Object.fromEntries(
+        Object.entries(this.operatorStats).map(([name, stats]) => [name, { ...stats }])
+      ) as OperatorStats,
+      operatorUsage: state.operatorUsage.getUsage(),
+    };
+    if (state.stopReason) {
+      metadata.stopReason = state.stopReason;
+    }
+    if (this.seed !== undefined) {
+      metadata.seed = this.seed;
+    }
+    if (this.warmStartReport) {
+      metadata.warmStart = this.warmStartReport;
+    }
+    // Inserted entries follow the initial ones, in insertion order
+    const initialLength = this.entryLocks.length - this.insertedClasses.length;
+    const unassigned = this.getUnassignedClassIndices(bestSolution.schedule.length - initialLength);
+    this.reportUnscheduledClasses(bestSolution.schedule.length, unassigned);
+    if (this.unassignedPool.length > 0) {
+      metadata.unassigned = unassigned.map((index) => toUnassignedClass(this.classes[index]!));
+      this.output.log(
+        `🧩 Unscheduled classes: ${metadata.unassigned.length} of ${this.unassignedPool.length} ` +
+        `left by the initial solution\n`
+      );
+      this.logger.info("Unscheduled classes", {
+        initial: this.unassignedPool.length,
+        remaining: metadata.unassigned.length,
+      });
+    }
+    if (finalResult.objectives) {
+      metadata.objectives = Object.fromEntries(
+        this.objectiveNames.map((name, i) => [name, finalResult.objectives![i]!])
+      );
+      this.logger.info("Objectives", metadata.objectives);
+    }
+    if (state.trace) {
+      metadata.trace = this.finishTrace(state, state.trace);
+    }
+    if (this.archive) {
+      metadata.paretoFront = this.archive.getFront();
+      this.output.log(`🧭 Pareto front: ${metadata.paretoFront.length} non-dominated solutions\n`);
+      this.logger.info("Pareto front", { size: metadata.paretoFront.length });
+    }
+    this.reportSearch(state, metadata);
+    if (polishReport) {
+      metadata.polish = polishReport;
+    }
+    if (adaptiveWeightsReport) {
+      metadata.adaptiveWeights = adaptiveWeightsReport;
+    }
+    if (this.perturbation) {
+      metadata.repair = this.createRepairReport(bestSolution);
+      this.output.log(
+        `🩹 Repair: ${metadata.repair.unchanged} entries unchanged, ${metadata.repair.changed.length} changed ` +
+        `(perturbation penalty ${metadata.repair.distance})\n`
+      );
+      this.logger.info("Repair completed", {
+        unchanged: metadata.repair.unchanged,
+        changed: metadata.repair.changed.length,
+        distance: metadata.repair.distance,
+      });
+    }
+    bestSolution.metadata = metadata;
+
     // Close logger file stream
     this.logger.close();
 
     return bestSolution;
   }
+
+  /**
+   * Learned weights, and the fitness of a solution with the configured ones
+   */
+  private createWeightsReport(solution: Solution): AdaptiveWeightsReport {
+    const learned = this.evaluator.evaluate(solution.schedule);
+    this.evaluator.setSoftConstraintWeights(this.softConstraintWeights);
+    const configured = this.evaluator.evaluate(solution.schedule);
+    this.evaluator.setSoftConstraintWeights(this.learnedWeights);
+
+    const report: AdaptiveWeightsReport = {
+      initial: { ...this.softConstraintWeights },
+      final: { ...this.learnedWeights },
+      updates: this.weightUpdates,
+      initialWeightsFitness: solution.fitness - learned.softPenalty + configured.softPenalty,
+    };
+
+    this.output.log(`⚖️  Soft constraint weights: ${this.weightUpdates} updates`);
+    for (const name of WEIGHTED_TERMS) {
+      this.output.log(`   ${name}: ${report.initial[name]} → ${report.final[name].toFixed(2)}`);
+    }
+    this.output.log(`   Fitness with the configured weights: ${report.initialWeightsFitness.toFixed(2)}\n`);
+    this.logger.info("Adaptive weights", { ...report });
+
+    return report;
+  }
+
+  /**
+   * Close the convergence trace of a run and write its files
+   */
+  private finishTrace(state: SearchState, recorder: TraceRecorder): ConvergenceTrace {
+    if (recorder.lastIteration !== state.iteration) {
+      this.recordTracePoint(state, recorder);
+    }
+    const trace = recorder.getTrace();
+
+    if (this.trace?.filePath) {
+      writeTrace(this.trace.filePath, trace);
+      this.output.log(`📈 Convergence trace saved: ${this.trace.filePath}`);
+    }
+    if (this.trace?.chartPath) {
+      writeTraceChart(this.trace.chartPath, trace);
+      this.output.log(`📈 Convergence chart saved: ${this.trace.chartPath}`);
+    }
+    this.logger.info("Convergence trace", {
+      points: trace.points.length,
+      filePath: this.trace?.filePath,
+      chartPath: this.trace?.chartPath,
+    });
+
+    return trace;
+  }
+
+  /**
+   * Add the algorithm-specific results to the solution metadata
+   */
+  protected reportSearch(state: SearchState, metadata: SolutionMetadata): void {
+    metadata.initialTemperature = this.initialTemperature;
+    if (this.calibrationResult) {
+      metadata.temperatureCalibration = this.calibrationResult;
+    }
+    if (state.tempering) {
+      metadata.parallelTempering = this.createTemperingReport(state.tempering);
+      this.output.log(
+        `🌡️  Replica exchanges: ${metadata.parallelTempering.exchangesAccepted.reduce((a, b) => a + b, 0)} of ` +
+        `${metadata.parallelTempering.exchangeAttempts.reduce((a, b) => a + b, 0)} accepted\n`
+      );
+      this.logger.info("Parallel tempering completed", { ...metadata.parallelTempering });
+    }
+  }
+
+  /**
+   * Build a progress event from the current state
+   */
+  private createProgressEvent(type: SolverProgressEvent["type"], state: SearchState): SolverProgressEvent {
+    return {
+      type,
+      phase: state.phase,
+      iteration: state.iteration,
+      temperature: state.temperature,
+      currentFitness: state.currentSolution.fitness,
+      bestFitness: state.bestSolution.fitness,
+      hardViolations: state.currentHardViolations,
+      bestHardViolations: state.bestHardViolations,
+      reheats: state.reheatingCount,
+    };
+  }
+
+  /**
+   * Main solve method using two-phase Simulated Annealing
+   */
+  solve(): Solution {
+    return this.run(this.startRun());
+  }
+
+  /**
+   * Continue a run from a checkpoint, or from the path of a checkpoint file
+   * (AlgorithmConfig.checkpoint). The solver must be built from the same input
+   * and configuration as the one that saved it; the run then continues
+   * exactly as it would have without the interruption.
+   */
+  resume(checkpoint: SolverCheckpoint | string): Solution {
+    return this.run(this.resumeRun(loadCheckpoint(checkpoint)));
+  }
+
+  /**
+   * Run the iterations of a started run and build its solution
+   */
+  private run(state: SearchState): Solution {
+    while (this.step(state)) {
+      // Iterations run back to back; use solveAsync() to stay responsive
+    }
+
+    return this.finishRun(state);
+  }
+
+  /**
+   * Non-blocking solve: runs iterations in batches and yields to the event
+   * loop between them, so the caller can report progress and cancel the run.
+   *
+   * Rejects with the signal's abort reason when `options.signal` is aborted.
+   */
+  async solveAsync(options: SolveOptions = {}): Promise<Solution> {
+    return this.runAsync(() => this.startRun(), options);
+  }
+
+  /**
+   * Non-blocking resume(), with the options of solveAsync()
+   */
+  async resumeAsync(checkpoint: SolverCheckpoint | string, options: SolveOptions = {}): Promise<Solution> {
+    return this.runAsync(() => this.resumeRun(loadCheckpoint(checkpoint)), options);
+  }
+
+  /**
+   * Run iterations in batches, yielding to the event loop between them
+   */
+  private async runAsync(start: () => SearchState, options: SolveOptions): Promise<Solution> {
+    const batchSize = Math.max(1, options.batchSize ?? 100);
+    const emit = (event: SolverProgressEvent): void => {
+      this.logger.logProgress(event);
+      options.onProgress?.(event);
+    };
+
+    try {
+      options.signal?.throwIfAborted();
+      const state = start();
+      emit(this.createProgressEvent("start", state));
+
+      let running = true;
+      while (running) {
+        const phase = state.phase;
+
+        for (let i = 0; i < batchSize; i++) {
+          running = this.step(state);
+          if (!running || state.phase !== phase) break;
+        }
+
+        if (state.phase !== phase) {
+          emit(this.createProgressEvent("phase-change", state));
+        } else if (running) {
+          emit(this.createProgressEvent("progress", state));
+        }
+
+        await new Promise<void>((resolve) => setImmediate(resolve));
+        options.signal?.throwIfAborted();
+      }
+
+      const solution = this.finishRun(state);
+      emit(this.createProgressEvent("complete", state));
+      return solution;
+    } catch (error) {
+      if (options.signal?.aborted) {
+        this.logger.warn("Optimization aborted");
+        this.logger.close();
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Scores that solutions are compared by (see compareScores)
+ */
+export type Score = Pick<FitnessResult, "fitness" | "hardViolations" | "objectives">;
+
+/**
+ * Mutable state of a run, advanced one iteration at a time by step()
+ * (exported for the solvers built on SimulatedAnnealing)
+ */
+export interface SearchState {
+  phase: SolverPhase;
+  currentSolution: Solution;
+  bestSolution: Solution;
+  temperature: number;
+  iteration: number;
+  phase1Iteration: number;
+  phase1MaxIterations: number;
+  iterationsWithoutImprovement: number;
+  reheatingCount: number;
+  acceptance: AcceptanceWindow;
+  operatorUsage: OperatorUsageTracker;
+  currentHardViolations: number;
+  bestHardViolations: number;
+  bestResult: FitnessResult;
+  lastImprovementIteration: number; // Iteration count when the best solution last improved
+  startTime: number;
+  stopReason: StopReason | undefined;
+  tempering?: TemperingState; // Set in parallel tempering mode
+  trace?: TraceRecorder; // Set when AlgorithmConfig.trace is used
+}
+
+/**
+ * A parallel tempering chain: its current solution and the classes it inserted
+ */
+export interface Replica {
+  solution: Solution;
+  insertedClasses: number[];
+}
+
+/**
+ * Parallel tempering progress; replicas[i] runs at temperatures[i]
+ */
+export interface TemperingState {
+  temperatures: number[];
+  replicas: Replica[];
+  active: number; // Replica taking steps (its solution is state.currentSolution)
+  steps: number; // Steps of the active replica in this round
+  round: number;
+  exchangeAttempts: number[];
+  exchangesAccepted: number[];
+  bestInsertedClasses: number[]; // Inserted classes of the best solution
+}
+
+/**
+ * Schedule entry attributes derived from a class requirement
+ */
+interface ClassTemplate {
+  classReq: ClassRequirement;
+  lecturers: string[];
+  participants: number;
+  needsLab: boolean;
+  classType: string;
+  prodi: string;
+  courseName: string;
+  sks: number;
+}
+
+/**
+ * Previous schedule matched to the class requirements (keyed by class index)
+ */
+interface WarmStart {
+  entries: Map<number, ScheduleEntry>;
+  repairs: Map<number, { entry: ScheduleEntry; reason: string; preferredSlot: TimeSlot | undefined }>;
+  report: WarmStartReport;
+}
+
+/**
+ * A checkpoint, loaded from its file when given a path
+ */
+function loadCheckpoint(checkpoint: SolverCheckpoint | string): SolverCheckpoint {
+  return typeof checkpoint === "string" ? readCheckpoint(checkpoint) : checkpoint;
+}
+
+/**
+ * Pareto archive scores of a scored schedule
+ */
+function toParetoScore(result: FitnessResult): ParetoScore {
+  return {
+    fitness: result.fitness,
+    hardViolations: result.hardViolations + result.customHardViolations,
+    objectives: result.objectives!,
+  };
+}
+
+/**
+ * How many entries an ejection chain may relocate in a row
+ */
+const MAX_EJECTION_DEPTH = 3;
+
+/**
+ * Weights of the built-in soft constraints, in SOFT_PENALTY_TERMS order
+ */
+const WEIGHTED_TERMS = SOFT_PENALTY_TERMS.slice(0, -1) as (keyof SoftConstraintWeights)[];
+
+/**
+ * Settings of the temperature, cooling, reheating and polish, used only by SimulatedAnnealing itself
+ */
+const ANNEALING_SETTINGS: (keyof AlgorithmConfig)[] = [
+  "initialTemperature",
+  "temperatureCalibration",
+  "minTemperature",
+  "coolingRate",
+  "coolingSchedule",
+  "reheatingThreshold",
+  "reheatingFactor",
+  "maxReheats",
+  "phase1TemperatureRatio",
+  "parallelTempering",
+  "polish",
+];
+
+/**
+ * A class left out of the initial solution, with the reason
+ */
+interface SkippedClass {
+  reason: string;
+  class: string;
+  code: string;
+  classIndex?: number; // Set for classes kept for insertion during the search
+}
+
+/**
+ * Placement of an entry in the previous solution (repair mode)
+ */
+interface RepairOrigin {
+  placement: Placement;
+  reason: string | undefined; // Set when the warm start had to re-place the entry
+  revertible: boolean; // Whether the previous placement is still valid
+}
+
+/**
+ * Report entry for a class requirement missing from the schedule
+ */
+function toUnassignedClass(classReq: ClassRequirement): UnassignedClass {
+  return {
+    classId: classReq.Kode_Matakuliah,
+    className: classReq.Mata_Kuliah || "Unknown",
+    class: classReq.Kelas || "A",
+    prodi: classReq.Prodi || "Unknown",
+  };
+}
+
+/**
+ * Identity of a class across schedules: course code, class group and prodi
+ */
+function getClassKey(classId: string, kelas: string | string[], prodi: string): string {
+  return [classId, Array.isArray(kelas) ? kelas.join(",") : kelas, prodi].join("|");
 }
@@ -0,0 +1,216 @@
+/**
+ * Tabu search for the University Course Timetabling Problem (UCTP)
+ *
+ * Shares the SimulatedAnnealing machinery (initial solution, operators,
+ * delta evaluation, locks, repair mode, stopping criteria and reports) and
+ * replaces the annealing iterations with best-improvement tabu steps.
+ */
+
+import type {
+  Room,
+  Lecturer,
+  ClassRequirement,
+  ScheduleEntry,
+  AlgorithmConfig,
+  Move,
+  SolutionMetadata,
+  TabuSearchConfig,
+} from "../types/index.js";
+import type { FitnessResult } from "./fitness-evaluator.js";
+import { SimulatedAnnealing } from "./simulated-annealing.js";
+import type { SearchState } from "./simulated-annealing.js";
+import { DEFAULT_TABU_SEARCH_CONFIG } from "./config.js";
+import { PlacementMove } from "./moves.js";
+import { getOperatorSelectionName } from "./operator-selection.js";
+
+export class TabuSearch extends SimulatedAnnealing {
+  protected override algorithm = "tabu-search";
+  private tenure: number;
+  private candidates: number;
+  // Tabu placements ("index|day|startTime|room") and the iteration they stay tabu until
+  private tabuList = new Map<string, number>();
+  private tabuRejections = 0;
+  private aspirations = 0;
+
+  constructor(
+    rooms: Room[],
+    lecturers: Lecturer[],
+    classes: ClassRequirement[],
+    config?: AlgorithmConfig
+  ) {
+    super(rooms, lecturers, classes, config);
+    this.rejectAnnealingSettings(config);
+
+    const tabuConfig = { ...DEFAULT_TABU_SEARCH_CONFIG, ...config?.tabuSearch };
+    if (!(Number.isInteger(tabuConfig.tenure) && tabuConfig.tenure >= 1)) {
+      throw new Error("tabuSearch.tenure must be a whole number of at least 1");
+    }
+    if (!(Number.isInteger(tabuConfig.candidates) && tabuConfig.candidates >= 1)) {
+      throw new Error("tabuSearch.candidates must be a whole number of at least 1");
+    }
+    this.tenure = tabuConfig.tenure;
+    this.candidates = tabuConfig.candidates;
+  }
+
+  protected override logSearchStart(): void {
+    this.output.log("🚀 Starting Tabu Search...");
+    this.output.log(`   Seed: ${this.seed ?? "custom generator"}`);
+    this.output.log(`   Operator selection: ${getOperatorSelectionName(this.operatorSelection)}`);
+    this.output.log(`   Tenure: ${this.tenure}, candidates per iteration: ${this.candidates}\n`);
+
+    this.logger.info("Starting Tabu Search optimization");
+    this.logger.info("Algorithm configuration", {
+      tenure: this.tenure,
+      candidates: this.candidates,
+      operatorSelection: getOperatorSelectionName(this.operatorSelection),
+      maxIterations: this.maxIterations,
+    });
+  }
+
+  protected override startSearch(state: SearchState): void {
+    state.temperature = 0;
+    this.tabuList.clear();
+    this.tabuRejections = 0;
+    this.aspirations = 0;
+  }
+
+  protected override saveSearch(): TabuSearchCheckpoint {
+    return { tabuList: [...this.tabuList], tabuRejections: this.tabuRejections, aspirations: this.aspirations };
+  }
+
+  protected override restoreSearch(_state: SearchState, search: unknown): void {
+    const saved = search as TabuSearchCheckpoint;
+    this.tabuList = new Map(saved.tabuList);
+    this.tabuRejections = saved.tabuRejections;
+    this.aspirations = saved.aspirations;
+  }
+
+  /**
+   * Score the candidate neighbours and move to the best admissible one
+   */
+  protected override advance(state: SearchState): boolean {
+    if (state.iteration >= this.maxIterations) {
+      state.stopReason = "max-iterations";
+      return false;
+    }
+
+    const solution = state.currentSolution;
+    let chosen: TabuCandidate | undefined;
+
+    for (let i = 0; i < this.candidates; i++) {
+      const { move, operator } = this.generateNeighbor(solution);
+      this.operatorStats[operator]!.attempts++;
+      if (move instanceof PlacementMove && move.indices.length === 0) {
+        continue;
+      }
+
+      const left = getPlacementKeys(solution.schedule, move.indices);
+      const neighbor = this.applyMove(solution, move);
+      const tabu = getPlacementKeys(solution.schedule, move.indices)
+        .some((key) => (this.tabuList.get(key) ?? -1) >= state.iteration);
+      this.rejectMove(solution, move);
+
+      const aspiration = tabu && this.improvesBest(state, neighbor);
+      if (tabu && !aspiration) {
+        this.tabuRejections++;
+        continue;
+      }
+      if (!chosen || this.compareScores(neighbor, chosen.result) < 0) {
+        chosen = { move, operator, result: neighbor, left, aspiration };
+      }
+    }
+
+    if (chosen) {
+      const previous = this.currentScore(solution);
+      const neighbor = this.applyMove(solution, chosen.move);
+      this.acceptMove(solution, neighbor);
+      this.creditOperator(state, chosen.operator, this.compareScores(neighbor, previous) < 0);
+      this.recordOutcome(state, true);
+      state.currentHardViolations = neighbor.hardViolations;
+      if (chosen.aspiration) {
+        this.aspirations++;
+      }
+
+      // Entries may not return to the placements they just left
+      for (const key of chosen.left) {
+        this.tabuList.set(key, state.iteration + this.tenure);
+      }
+
+      if (this.improvesBest(state, neighbor)) {
+        this.recordBest(state, neighbor);
+
+        this.output.log(
+          `✨ [TABU] New best! Iteration ${state.iteration}, ` +
+          `Hard violations: ${state.bestHardViolations}, ` +
+          `Fitness: ${state.bestSolution.fitness.toFixed(2)}, ` +
+          `Operator: ${chosen.operator.toUpperCase()}`
+        );
+      }
+    } else {
+      this.recordOutcome(state, false);
+    }
+
+    state.iteration++;
+    this.checkFeasible(state);
+
+    if (state.iteration % this.tenure === 0) {
+      for (const [key, until] of this.tabuList) {
+        if (until < state.iteration) this.tabuList.delete(key);
+      }
+    }
+
+    if (state.iteration % 1000 === 0) {
+      this.output.log(
+        `⏳ [TABU] Iteration ${state.iteration}, ` +
+        `Current: ${solution.fitness.toFixed(2)}, ` +
+        `Best: ${state.bestSolution.fitness.toFixed(2)}, ` +
+        `Tabu placements: ${this.tabuList.size}`
+      );
+    }
+
+    return true;
+  }
+
+  protected override reportSearch(_state: SearchState, metadata: SolutionMetadata): void {
+    metadata.tabuSearch = {
+      tenure: this.tenure,
+      candidates: this.candidates,
+      tabuRejections: this.tabuRejections,
+      aspirations: this.aspirations,
+    };
+    this.output.log(
+      `🚫 Tabu moves: ${this.tabuRejections} candidates rejected, ${this.aspirations} taken by aspiration\n`
+    );
+    this.logger.info("Tabu search completed", { ...metadata.tabuSearch });
+  }
+}
+
+/**
+ * Best admissible neighbour of an iteration so far
+ */
+interface TabuCandidate {
+  move: Move;
+  operator: string;
+  result: FitnessResult;
+  left: string[]; // Placements the move takes its entries away from
+  aspiration: boolean; // Tabu, but beats the best solution
+}
+
+/**
+ * Tabu search part of a checkpoint
+ */
+interface TabuSearchCheckpoint {
+  tabuList: [string, number][];
+  tabuRejections: number;
+  aspirations: number;
+}
+
+/**
+ * Tabu list keys of the current placements of schedule entries
+ */
+function getPlacementKeys(schedule: ScheduleEntry[], indices: number[]): string[] {
+  return indices.map((index) => {
+    const entry = schedule[index]!;
+    return [index, entry.timeSlot.day, entry.timeSlot.startTime, entry.room].join("|");
+  });
+}
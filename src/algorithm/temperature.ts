@@ -0,0 +1,51 @@
+/**
+ * Initial temperature calibration
+ *
+ * Picks the temperature at which a target share of sampled worsening
+ * neighbours would be accepted by the Metropolis criterion.
+ */
+
+/**
+ * Mean acceptance probability of worsening moves at a temperature
+ */
+export function acceptanceRatioAt(deltas: number[], temperature: number): number {
+  let sum = 0;
+  for (const delta of deltas) {
+    sum += Math.exp(-delta / temperature);
+  }
+  return sum / deltas.length;
+}
+
+/**
+ * Temperature at which the mean of exp(-delta / T) over the given (positive)
+ * fitness increases equals the target acceptance ratio
+ *
+ * @returns undefined when there are no worsening moves to calibrate on
+ */
+export function calibrateTemperature(deltas: number[], targetAcceptanceRatio: number): number | undefined {
+  if (!(targetAcceptanceRatio > 0 && targetAcceptanceRatio < 1)) {
+    throw new Error(`Target acceptance ratio must be between 0 and 1, got ${targetAcceptanceRatio}`);
+  }
+
+  const worsening = deltas.filter((delta) => delta > 0 && Number.isFinite(delta));
+  if (worsening.length === 0) {
+    return undefined;
+  }
+
+  // Each term is at most the target at `low` and at least the target at `high`
+  const logTarget = -Math.log(targetAcceptanceRatio);
+  let low = Math.min(...worsening) / logTarget;
+  let high = Math.max(...worsening) / logTarget;
+
+  // The ratio increases with temperature: bisect on a log scale
+  for (let i = 0; i < 100 && high / low > 1 + 1e-9; i++) {
+    const mid = Math.sqrt(low * high);
+    if (acceptanceRatioAt(worsening, mid) < targetAcceptanceRatio) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return high;
+}
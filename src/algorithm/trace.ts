@@ -0,0 +1,126 @@
+/**
+ * Convergence trace of a solver run
+ *
+ * Records the state of a run every few iterations, with the accepted and
+ * rejected moves and the operators used in between, to compare cooling and
+ * reheating settings on more than the final fitness.
+ */
+
+import fs from "fs";
+import path from "path";
+import type { ConvergenceTrace, ConvergenceTraceState, TracePoint } from "../types/index.js";
+import { renderConvergenceChart } from "../utils/convergence-chart.js";
+
+/**
+ * Collects the points of a trace (the counts are reset at every point)
+ */
+export class TraceRecorder {
+  private trace: ConvergenceTrace;
+  private accepted = 0;
+  private rejected = 0;
+  private operators: Record<string, number> = {};
+
+  constructor(interval: number) {
+    this.trace = { interval, points: [] };
+  }
+
+  get interval(): number {
+    return this.trace.interval;
+  }
+
+  /**
+   * Iteration of the latest point (-1 before the first one)
+   */
+  get lastIteration(): number {
+    return this.trace.points[this.trace.points.length - 1]?.iteration ?? -1;
+  }
+
+  countOperator(operator: string): void {
+    this.operators[operator] = (this.operators[operator] ?? 0) + 1;
+  }
+
+  countOutcome(accepted: boolean): void {
+    if (accepted) {
+      this.accepted++;
+    } else {
+      this.rejected++;
+    }
+  }
+
+  /**
+   * Add a point with the counts since the previous one
+   */
+  addPoint(point: Omit<TracePoint, "accepted" | "rejected" | "operators">): void {
+    this.trace.points.push({ ...point, accepted: this.accepted, rejected: this.rejected, operators: this.operators });
+    this.accepted = 0;
+    this.rejected = 0;
+    this.operators = {};
+  }
+
+  getTrace(): ConvergenceTrace {
+    return this.trace;
+  }
+
+  /**
+   * Points and pending counts as plain data (for checkpoints)
+   */
+  getState(): ConvergenceTraceState {
+    return { trace: this.trace, accepted: this.accepted, rejected: this.rejected, operators: this.operators };
+  }
+
+  setState(state: ConvergenceTraceState): void {
+    const { trace, accepted, rejected, operators } = structuredClone(state);
+    this.trace = trace;
+    this.accepted = accepted;
+    this.rejected = rejected;
+    this.operators = operators;
+  }
+}
+
+/**
+ * Format a trace as CSV: one row per point, one column per operator
+ */
+export function traceToCsv(trace: ConvergenceTrace): string {
+  const operators = [...new Set(trace.points.flatMap((point) => Object.keys(point.operators)))];
+  const columns: (keyof TracePoint)[] = [
+    "iteration",
+    "phase",
+    "elapsedMs",
+    "temperature",
+    "currentFitness",
+    "bestFitness",
+    "hardViolations",
+    "bestHardViolations",
+    "reheats",
+    "accepted",
+    "rejected",
+  ];
+
+  const rows = trace.points.map((point) =>
+    [...columns.map((column) => String(point[column])), ...operators.map((name) => String(point.operators[name] ?? 0))].join(",")
+  );
+  return [[...columns, ...operators.map((name) => `operator:${name}`)].join(","), ...rows].join("\n") + "\n";
+}
+
+/**
+ * Write a trace as CSV (for a .csv path) or JSON
+ */
+export function writeTrace(filePath: string, trace: ConvergenceTrace): void {
+  const content = path.extname(filePath).toLowerCase() === ".csv" ? traceToCsv(trace) : JSON.stringify(trace, null, 2);
+  writeFile(filePath, content);
+}
+
+/**
+ * Write the SVG convergence chart of a trace
+ */
+export function writeTraceChart(filePath: string, trace: ConvergenceTrace): void {
+  writeFile(filePath, renderConvergenceChart(trace));
+}
+
+function writeFile(filePath: string, content: string): void {
+  const dir = path.dirname(filePath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  fs.writeFileSync(filePath, content);
+}
@@ -0,0 +1,439 @@
+/**
+ * Hyperparameter tuning by racing
+ *
+ * Samples candidate configurations from the given ranges and runs them all
+ * on the same seeds, one seed (race step) at a time, as in F-Race. After
+ * minSeeds steps, a candidate is eliminated as soon as a paired t-test on its
+ * ranks shows it is worse than the leader, so the budget goes to the close
+ * contenders. Ranks keep a single run with a hard violation from hiding a
+ * candidate that loses on every other seed.
+ */
+
+import fs from "fs";
+import path from "path";
+import type {
+  Room,
+  Lecturer,
+  ClassRequirement,
+  AlgorithmConfig,
+  Solution,
+  SoftConstraintWeights,
+  TuningOptions,
+  TuningRange,
+  TunedParameters,
+  TuningCandidate,
+  TuningResult,
+  TuningStopReason,
+} from "../types/index.js";
+import { SimulatedAnnealing } from "./simulated-annealing.js";
+import { FitnessEvaluator } from "./fitness-evaluator.js";
+import { DEFAULT_TUNING_OPTIONS, mergeConfig } from "./config.js";
+import { ConstraintChecker } from "../constraints/index.js";
+import { SeededRandom, generateSeed } from "../utils/index.js";
+import { SILENT_OUTPUT } from "../utils/logger.js";
+import type { ConsoleOutput } from "../utils/logger.js";
+
+export class HyperparameterTuner {
+  private rooms: Room[];
+  private lecturers: Lecturer[];
+  private classes: ClassRequirement[];
+  private config: AlgorithmConfig;
+  private options: TuningOptions;
+  private candidateCount: number;
+  private maxRuns: number;
+  private minSeeds: number;
+  private maxSeeds: number;
+  private alpha: number;
+  private output: ConsoleOutput;
+
+  constructor(
+    rooms: Room[],
+    lecturers: Lecturer[],
+    classes: ClassRequirement[],
+    config: AlgorithmConfig,
+    options: TuningOptions
+  ) {
+    this.rooms = rooms;
+    this.lecturers = lecturers;
+    this.classes = classes;
+    this.config = config;
+    this.options = options;
+    this.output = config.quiet ? SILENT_OUTPUT : console;
+
+    this.candidateCount = options.candidates ?? DEFAULT_TUNING_OPTIONS.candidates;
+    this.maxRuns = options.maxRuns ?? this.candidateCount * DEFAULT_TUNING_OPTIONS.runsPerCandidate;
+    this.minSeeds = options.minSeeds ?? DEFAULT_TUNING_OPTIONS.minSeeds;
+    this.maxSeeds = options.maxSeeds ?? DEFAULT_TUNING_OPTIONS.maxSeeds;
+    this.alpha = options.alpha ?? DEFAULT_TUNING_OPTIONS.alpha;
+
+    if (this.candidateCount < 1) {
+      throw new Error("candidates must be at least 1");
+    }
+    if (this.minSeeds < 2) {
+      throw new Error("minSeeds must be at least 2");
+    }
+    if (this.maxSeeds < this.minSeeds) {
+      throw new Error("maxSeeds must be at least minSeeds");
+    }
+    if (this.maxRuns < this.candidateCount * this.minSeeds) {
+      throw new Error("maxRuns must allow minSeeds runs of every candidate");
+    }
+    if (!(this.alpha > 0 && this.alpha < 1)) {
+      throw new Error("alpha must be between 0 and 1");
+    }
+    for (const [name, range] of listRanges(options)) {
+      if (!(range[0] <= range[1])) {
+        throw new Error(`Invalid tuning range for ${name}: [${range[0]}, ${range[1]}]`);
+      }
+    }
+    if (options.ranges.initialTemperature && options.ranges.initialTemperature[0] <= 0) {
+      throw new Error("The initialTemperature range must be positive (it is sampled on a logarithmic scale)");
+    }
+    if (config.checkpoint) {
+      throw new Error("HyperparameterTuner does not support checkpoints (every run would write the same file)");
+    }
+    if (config.trace?.filePath || config.trace?.chartPath) {
+      throw new Error("HyperparameterTuner does not support trace files (every run would write the same file)");
+    }
+    if (config.random) {
+      throw new Error("HyperparameterTuner does not support a custom random generator; every run is seeded");
+    }
+    if (options.outputPath) {
+      const functionSetting = findFunctionSetting(config);
+      if (functionSetting) {
+        throw new Error(`HyperparameterTuner cannot write ${functionSetting} to outputPath (only data settings are saved as JSON)`);
+      }
+    }
+  }
+
+  /**
+   * Race the candidates and return the best configuration
+   */
+  tune(): TuningResult {
+    const startTime = Date.now();
+    const seed = this.options.seed ?? generateSeed();
+    const candidates = this.sampleCandidates(new SeededRandom(seed));
+    const scorer = this.createScorer();
+
+    this.output.log(`🏁 Racing ${candidates.length} configurations (budget: ${this.maxRuns} runs, seed: ${seed})...`);
+
+    const seeds: number[] = [];
+    let survivors = candidates;
+    let runs = 0;
+    let stopReason: TuningStopReason;
+
+    for (;;) {
+      if (survivors.length === 1) {
+        stopReason = "single-survivor";
+        break;
+      }
+      if (seeds.length >= this.maxSeeds) {
+        stopReason = "max-seeds";
+        break;
+      }
+      if (runs + survivors.length > this.maxRuns) {
+        stopReason = "max-runs";
+        break;
+      }
+      if (this.options.timeLimitMs !== undefined && Date.now() - startTime >= this.options.timeLimitMs) {
+        stopReason = "time-limit";
+        break;
+      }
+
+      const runSeed = (seed + seeds.length) >>> 0;
+      seeds.push(runSeed);
+      for (const candidate of survivors) {
+        const solution = this.run(this.createConfig(candidate.parameters, runSeed));
+        candidate.scores.push(scorer(solution, candidate.parameters));
+        candidate.meanScore = mean(candidate.scores);
+        runs++;
+      }
+
+      if (seeds.length >= this.minSeeds) {
+        survivors = this.eliminate(survivors, seeds.length);
+      }
+      this.output.log(`   Step ${seeds.length} (seed ${runSeed}): ${survivors.length} candidates left, ${runs} runs`);
+    }
+
+    // Survivors have run on the same seeds: compare their means
+    const best = survivors.reduce((a, b) => (b.meanScore < a.meanScore ? b : a));
+    const { seed: _seed, ...baseConfig } = this.createConfig(best.parameters, 0);
+    const result: TuningResult = {
+      best: baseConfig,
+      bestCandidate: best.id,
+      candidates,
+      seeds,
+      runs,
+      elapsedMs: Date.now() - startTime,
+      stopReason,
+    };
+
+    this.output.log(
+      `🏆 Best configuration: candidate #${best.id} ` +
+      `(mean fitness ${best.meanScore.toFixed(2)} over ${best.scores.length} seeds, stopped by ${stopReason})`
+    );
+    if (this.options.outputPath) {
+      writeConfig(this.options.outputPath, result.best);
+      this.output.log(`📝 Best configuration written to ${this.options.outputPath}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * The base configuration (candidate 0), then random samples of the ranges
+   */
+  private sampleCandidates(rng: SeededRandom): TuningCandidate[] {
+    const candidates: TuningCandidate[] = [{ id: 0, parameters: {}, scores: [], meanScore: 0 }];
+    const ranges = this.options.ranges;
+
+    for (let id = 1; id < this.candidateCount; id++) {
+      const parameters: TunedParameters = {};
+      if (ranges.initialTemperature) {
+        const [min, max] = ranges.initialTemperature;
+        parameters.initialTemperature = roundValue(Math.exp(sample(rng, [Math.log(min), Math.log(max)])));
+      }
+      if (ranges.coolingRate) {
+        parameters.coolingRate = roundValue(sample(rng, ranges.coolingRate));
+      }
+      if (ranges.reheatingThreshold) {
+        parameters.reheatingThreshold = Math.round(sample(rng, ranges.reheatingThreshold));
+      }
+      if (ranges.reheatingFactor) {
+        parameters.reheatingFactor = roundValue(sample(rng, ranges.reheatingFactor));
+      }
+      if (ranges.maxReheats) {
+        parameters.maxReheats = Math.round(sample(rng, ranges.maxReheats));
+      }
+      if (ranges.softConstraintWeights) {
+        const weights: SoftConstraintWeights = {};
+        for (const [name, range] of Object.entries(ranges.softConstraintWeights)) {
+          weights[name as keyof SoftConstraintWeights] = roundValue(sample(rng, range));
+        }
+        parameters.softConstraintWeights = weights;
+      }
+      candidates.push({ id, parameters, scores: [], meanScore: 0 });
+    }
+
+    return candidates;
+  }
+
+  private createConfig(parameters: TunedParameters, seed: number): AlgorithmConfig {
+    const { softConstraintWeights, ...rest } = parameters;
+    const config: AlgorithmConfig = { ...this.config, ...rest, seed };
+    if (softConstraintWeights) {
+      config.softConstraintWeights = { ...this.config.softConstraintWeights, ...softConstraintWeights };
+    }
+    return config;
+  }
+
+  /**
+   * Score of a run under the base soft constraint weights, so that candidates
+   * with different weights stay comparable
+   */
+  private createScorer(): (solution: Solution, parameters: TunedParameters) => number {
+    const merged = mergeConfig(this.config);
+    const checker = new ConstraintChecker(
+      this.rooms,
+      this.lecturers,
+      merged.constraints.hardConstraints,
+      merged.constraints.softConstraints,
+      merged.constraints.customConstraints,
+      merged.constraints.rules
+    );
+    const baseWeights = merged.softConstraintWeights;
+    const evaluator = new FitnessEvaluator(checker, merged.hardConstraintWeight, baseWeights);
+
+    return (solution, parameters) => {
+      // With adaptiveWeights, fitness uses the learned weights
+      const fitness = solution.metadata?.adaptiveWeights?.initialWeightsFitness ?? solution.fitness;
+      if (!parameters.softConstraintWeights) {
+        return fitness;
+      }
+
+      evaluator.setSoftConstraintWeights({ ...baseWeights, ...parameters.softConstraintWeights });
+      const tuned = evaluator.evaluate(solution.schedule).softPenalty;
+      evaluator.setSoftConstraintWeights(baseWeights);
+      return fitness - tuned + evaluator.evaluate(solution.schedule).softPenalty;
+    };
+  }
+
+  /**
+   * Run one solver, quiet unless verbose
+   */
+  private run(config: AlgorithmConfig): Solution {
+    const quiet = config.quiet || !this.options.verbose;
+    return new SimulatedAnnealing(this.rooms, this.lecturers, this.classes, { ...config, quiet }).solve();
+  }
+
+  /**
+   * Drop the candidates ranked significantly worse than the leader (lowest rank sum)
+   */
+  private eliminate(survivors: TuningCandidate[], steps: number): TuningCandidate[] {
+    const ranks = survivors.map(() => [] as number[]);
+    for (let step = 0; step < steps; step++) {
+      rank(survivors.map((candidate) => candidate.scores[step]!)).forEach((value, i) => ranks[i]!.push(value));
+    }
+    const rankSums = ranks.map((values) => values.reduce((sum, value) => sum + value, 0));
+    const leader = rankSums.indexOf(Math.min(...rankSums));
+
+    return survivors.filter((candidate, i) => {
+      if (i === leader) return true;
+      const differences = ranks[i]!.map((value, step) => value - ranks[leader]![step]!);
+      if (pairedTTestPValue(differences) >= this.alpha) return true;
+
+      candidate.eliminatedAfter = steps;
+      return false;
+    });
+  }
+}
+
+/**
+ * One-sided p-value of a paired t-test that the mean difference is above 0
+ */
+export function pairedTTestPValue(differences: number[]): number {
+  const n = differences.length;
+  const average = mean(differences);
+  const variance = differences.reduce((sum, d) => sum + (d - average) ** 2, 0) / (n - 1);
+
+  if (variance === 0) {
+    // Identical differences: certain when positive, no evidence otherwise
+    return average > 0 ? 0 : 1;
+  }
+
+  const t = average / Math.sqrt(variance / n);
+  const df = n - 1;
+  const tail = 0.5 * incompleteBeta(df / (df + t * t), df / 2, 0.5);
+  return t > 0 ? tail : 1 - tail;
+}
+
+/**
+ * A setting that JSON cannot hold, if the configuration has one
+ */
+function findFunctionSetting(config: AlgorithmConfig): string | undefined {
+  if (config.constraints?.customConstraints?.length) {
+    return "custom constraint functions";
+  }
+  if (typeof config.coolingSchedule === "function") {
+    return "a custom cooling function";
+  }
+  if (config.operators?.length) {
+    return "custom neighbourhood operators";
+  }
+  if (config.multiObjective?.objectives?.some((objective) => typeof objective !== "string")) {
+    return "custom objective functions";
+  }
+  return undefined;
+}
+
+function listRanges(options: TuningOptions): [string, TuningRange][] {
+  const { softConstraintWeights, ...ranges } = options.ranges;
+  return [
+    ...(Object.entries(ranges) as [string, TuningRange][]),
+    ...Object.entries(softConstraintWeights ?? {}).map(([name, range]): [string, TuningRange] => [
+      `softConstraintWeights.${name}`,
+      range,
+    ]),
+  ];
+}
+
+function sample(rng: SeededRandom, [min, max]: TuningRange): number {
+  return min + rng.next() * (max - min);
+}
+
+// Six significant digits keep the written configuration readable
+function roundValue(value: number): number {
+  return Number(value.toPrecision(6));
+}
+
+/**
+ * Rank of every value, from 1 for the lowest (ties share their average rank)
+ */
+function rank(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+
+  for (let start = 0; start < order.length; ) {
+    let end = start + 1;
+    while (end < order.length && order[end]!.value === order[start]!.value) end++;
+    for (let i = start; i < end; i++) {
+      ranks[order[i]!.index] = (start + end + 1) / 2;
+    }
+    start = end;
+  }
+  return ranks;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function writeConfig(filePath: string, config: AlgorithmConfig): void {
+  const dir = path.dirname(filePath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  fs.writeFileSync(filePath, JSON.stringify(config, null, 2));
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b) (continued fraction, Numerical Recipes)
+ */
+function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  if (x < (a + 1) / (a + b + 2)) {
+    return (front * betaContinuedFraction(x, a, b)) / a;
+  }
+  return 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const tiny = 1e-30;
+  const clamp = (value: number): number => (Math.abs(value) < tiny ? tiny : value);
+
+  let c = 1;
+  let d = 1 / clamp(1 - ((a + b) * x) / (a + 1));
+  let h = d;
+
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let term = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 / clamp(1 + term * d);
+    c = clamp(1 + term / c);
+    h *= d * c;
+
+    term = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 / clamp(1 + term * d);
+    c = clamp(1 + term / c);
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+
+  return h;
+}
+
+const LANCZOS_COEFFICIENTS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+  12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+/**
+ * Natural logarithm of the gamma function (Lanczos approximation, for x > 0)
+ */
+function logGamma(x: number): number {
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  }
+
+  const z = x - 1;
+  let sum = LANCZOS_COEFFICIENTS[0]!;
+  for (let i = 1; i < LANCZOS_COEFFICIENTS.length; i++) {
+    sum += LANCZOS_COEFFICIENTS[i]! / (z + i);
+  }
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
@@ -14,4 +14,5 @@ export {
   DEFAULT_SORE_CONFIG,
   initializeTimeSlots,
   setCustomTimeSlots,
+  TimeSlotRegistry,
 } from "./time-slots.js";
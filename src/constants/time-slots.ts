@@ -115,47 +115,125 @@ function generateTimeSlots(
 }
 
 /**
- * Initialize time slots with custom configuration
+ * Combine pagi slots with the evening (18:00+) sore slots
  */
-export function initializeTimeSlots(
-  pagiConfig?: TimeSlotGenerationConfig,
-  soreConfig?: TimeSlotGenerationConfig,
-  customDays?: string[]
-): void {
-  // Merge with defaults
-  const mergedPagiConfig: Required<TimeSlotGenerationConfig> = {
-    ...DEFAULT_PAGI_CONFIG,
-    ...pagiConfig,
-  };
+function combineTimeSlots(pagiSlots: TimeSlot[], soreSlots: TimeSlot[]): TimeSlot[] {
+  const combined = [...pagiSlots];
 
-  const mergedSoreConfig: Required<TimeSlotGenerationConfig> = {
-    ...DEFAULT_SORE_CONFIG,
-    ...soreConfig,
-  };
-
-  const daysToUse = customDays || DEFAULT_DAYS;
-  DAYS = daysToUse;
-
-  // Generate slots
-  TIME_SLOTS_PAGI = generateTimeSlots(daysToUse, mergedPagiConfig, false);
-  TIME_SLOTS_SORE = generateTimeSlots(daysToUse, mergedSoreConfig, true);
-
-  // Combine slots for TIME_SLOTS (preserve original logic)
-  TIME_SLOTS = [...TIME_SLOTS_PAGI];
-
-  for (const slot of TIME_SLOTS_SORE) {
+  for (const slot of soreSlots) {
     const slotTime = parseTime(slot.startTime);
     const slotMinutes = timeToMinutes(slotTime.hour, slotTime.minute);
 
-    // Add evening slots (18:00+) to TIME_SLOTS
+    // Add evening slots (18:00+) to TIME_SLOTS (preserve original logic)
     if (slotMinutes >= timeToMinutes(18, 0)) {
-      TIME_SLOTS.push(slot);
+      combined.push(slot);
     }
   }
+
+  return combined;
+}
+
+/**
+ * Days used by a set of slots: default days first (in week order), then any others
+ */
+function daysFromSlots(slots: TimeSlot[]): string[] {
+  const used = new Set(slots.map((slot) => slot.day));
+  if (used.size === 0) {
+    return DEFAULT_DAYS;
+  }
+
+  const days = DEFAULT_DAYS.filter((day) => used.has(day));
+  for (const day of used) {
+    if (!days.includes(day)) {
+      days.push(day);
+    }
+  }
+  return days;
+}
+
+/**
+ * Time slots owned by a single solver
+ *
+ * Unlike the module-level arrays below, a registry is never modified after
+ * construction, so solvers with different time slot configurations can run
+ * side by side in the same process.
+ */
+export class TimeSlotRegistry {
+  readonly days: readonly string[];
+  readonly pagi: readonly TimeSlot[];
+  readonly sore: readonly TimeSlot[];
+  /** Pagi slots plus evening (18:00+) sore slots */
+  readonly all: readonly TimeSlot[];
+
+  constructor(pagiSlots: TimeSlot[], soreSlots: TimeSlot[], days: string[]) {
+    this.days = [...days];
+    this.pagi = [...pagiSlots];
+    this.sore = [...soreSlots];
+    this.all = combineTimeSlots(pagiSlots, soreSlots);
+  }
+
+  /**
+   * Generate slots from configuration merged with the defaults (merge mode)
+   */
+  static fromConfig(
+    pagiConfig?: TimeSlotGenerationConfig,
+    soreConfig?: TimeSlotGenerationConfig,
+    customDays?: string[]
+  ): TimeSlotRegistry {
+    const mergedPagiConfig: Required<TimeSlotGenerationConfig> = {
+      ...DEFAULT_PAGI_CONFIG,
+      ...pagiConfig,
+    };
+
+    const mergedSoreConfig: Required<TimeSlotGenerationConfig> = {
+      ...DEFAULT_SORE_CONFIG,
+      ...soreConfig,
+    };
+
+    const days = customDays || DEFAULT_DAYS;
+
+    return new TimeSlotRegistry(
+      generateTimeSlots(days, mergedPagiConfig, false),
+      generateTimeSlots(days, mergedSoreConfig, true),
+      days
+    );
+  }
+
+  /**
+   * Use slots as given (full override mode)
+   * A missing pagi or sore list is generated from the defaults.
+   */
+  static fromCustomSlots(pagiSlots?: TimeSlot[], soreSlots?: TimeSlot[]): TimeSlotRegistry {
+    const pagi = pagiSlots ?? generateTimeSlots(DEFAULT_DAYS, DEFAULT_PAGI_CONFIG, false);
+    const sore = soreSlots ?? generateTimeSlots(DEFAULT_DAYS, DEFAULT_SORE_CONFIG, true);
+
+    return new TimeSlotRegistry(pagi, sore, daysFromSlots([...pagi, ...sore]));
+  }
+}
+
+/**
+ * Initialize time slots with custom configuration
+ *
+ * Updates the shared module-level arrays. Solvers use their own
+ * TimeSlotRegistry and are not affected by this.
+ */
+export function initializeTimeSlots(
+  pagiConfig?: TimeSlotGenerationConfig,
+  soreConfig?: TimeSlotGenerationConfig,
+  customDays?: string[]
+): void {
+  const registry = TimeSlotRegistry.fromConfig(pagiConfig, soreConfig, customDays);
+
+  DAYS = customDays || DEFAULT_DAYS;
+  TIME_SLOTS_PAGI = [...registry.pagi];
+  TIME_SLOTS_SORE = [...registry.sore];
+  TIME_SLOTS = [...registry.all];
 }
 
 /**
  * Set custom time slots directly (full override mode)
+ *
+ * Updates the shared module-level arrays; a missing list keeps its current value.
  */
 export function setCustomTimeSlots(pagiSlots?: TimeSlot[], soreSlots?: TimeSlot[]): void {
   if (pagiSlots) {
@@ -167,16 +245,7 @@ export function setCustomTimeSlots(pagiSlots?: TimeSlot[], soreSlots?: TimeSlot[
   }
 
   // Rebuild TIME_SLOTS from custom slots
-  TIME_SLOTS = [...TIME_SLOTS_PAGI];
-
-  for (const slot of TIME_SLOTS_SORE) {
-    const slotTime = parseTime(slot.startTime);
-    const slotMinutes = timeToMinutes(slotTime.hour, slotTime.minute);
-
-    if (slotMinutes >= timeToMinutes(18, 0)) {
-      TIME_SLOTS.push(slot);
-    }
-  }
+  TIME_SLOTS = combineTimeSlots(TIME_SLOTS_PAGI, TIME_SLOTS_SORE);
 }
 
 // Auto-initialize with defaults when module is imported
@@ -13,6 +13,7 @@ import type {
   CustomConstraint,
   CustomHardConstraintFunction,
   CustomSoftConstraintFunction,
+  ConstraintRule,
 } from "../types/index.js";
 import { LAB_ROOMS, EXCLUSIVE_ROOMS } from "../constants/index.js";
 import {
@@ -24,6 +25,7 @@ import {
   canUseExclusiveRoom,
   hasClassOverlap,
 } from "../utils/index.js";
+import { compileConstraintRules } from "./rules.js";
 
 export class ConstraintChecker {
   private rooms: Map<string, Room>;
@@ -32,13 +34,15 @@ export class ConstraintChecker {
   private hardConstraintsConfig: Required<HardConstraintsConfig>;
   private softConstraintsConfig: Required<SoftConstraintsConfig>;
   private customConstraints: CustomConstraint[];
+  private rules: CustomConstraint[];
 
   constructor(
     rooms: Room[],
     lecturers: Lecturer[],
     hardConstraintsConfig?: HardConstraintsConfig,
     softConstraintsConfig?: SoftConstraintsConfig,
-    customConstraints?: CustomConstraint[]
+    customConstraints?: CustomConstraint[],
+    rules?: ConstraintRule[]
   ) {
     this.rooms = new Map(rooms.map((r) => [r.Code, r]));
     this.lecturers = new Map(lecturers.map((l) => [l.Code, l]));
@@ -69,6 +73,7 @@ export class ConstraintChecker {
     };
 
     this.customConstraints = customConstraints || [];
+    this.rules = compileConstraintRules(rules || []);
   }
 
   resetViolations(): void {
@@ -79,6 +84,14 @@ export class ConstraintChecker {
     return this.violations;
   }
 
+  hasCustomConstraints(): boolean {
+    return this.customConstraints.length > 0;
+  }
+
+  hasRules(): boolean {
+    return this.rules.length > 0;
+  }
+
   private addViolation(violation: ConstraintViolation): void {
     this.violations.push(violation);
   }
@@ -720,11 +733,35 @@ export class ConstraintChecker {
   checkCustomConstraints(schedule: ScheduleEntry[], entry: ScheduleEntry): {
     hardViolations: number;
     softPenalty: number;
+  } {
+    return this.checkConstraintFunctions(this.customConstraints, schedule, entry);
+  }
+
+  /**
+   * Check declarative rules (reported like custom constraints)
+   *
+   * Rules only look at entries on the same day, so `schedule` may be either
+   * the full prefix or just the same-day part of it.
+   */
+  checkRules(schedule: ScheduleEntry[], entry: ScheduleEntry): {
+    hardViolations: number;
+    softPenalty: number;
+  } {
+    return this.checkConstraintFunctions(this.rules, schedule, entry);
+  }
+
+  private checkConstraintFunctions(
+    constraints: CustomConstraint[],
+    schedule: ScheduleEntry[],
+    entry: ScheduleEntry
+  ): {
+    hardViolations: number;
+    softPenalty: number;
   } {
     let hardViolations = 0;
     let softPenalty = 0;
 
-    for (const customConstraint of this.customConstraints) {
+    for (const customConstraint of constraints) {
       const checkFn = customConstraint.checkFunction;
       const result = checkFn(schedule, entry, this.rooms, this.lecturers);
 
@@ -3,3 +3,4 @@
  */
 
 export { ConstraintChecker } from "./checker.js";
+export { parseConstraintRules, compileConstraintRules } from "./rules.js";
@@ -0,0 +1,273 @@
+/**
+ * Declarative constraint rules
+ *
+ * Rules are plain data for common timetable policies ("prodi X never on
+ * Saturday", "course C in a lab", ...), so they can be kept in a JSON file
+ * and maintained without writing code. Each rule compiles into a
+ * CustomConstraint and is reported like one, but the checker runs rules with
+ * the built-in constraints: a rule only looks at classes on the same day.
+ */
+
+import type {
+  Room,
+  ScheduleEntry,
+  CustomConstraint,
+  CustomHardConstraintFunction,
+  ConstraintRule,
+  ConstraintRuleSelector,
+} from "../types/index.js";
+import { timeToMinutes } from "../utils/index.js";
+
+/**
+ * Validate rules read from a file: either an array of rules or an object
+ * with a `rules` array (as in a JSON document)
+ */
+export function parseConstraintRules(data: unknown): ConstraintRule[] {
+  const rules = Array.isArray(data) ? data : isRecord(data) && Array.isArray(data.rules) ? data.rules : undefined;
+  if (!rules) {
+    throw new Error("Constraint rules must be an array or an object with a 'rules' array");
+  }
+  return rules.map((rule, index) => validateRule(rule, index));
+}
+
+/**
+ * Compile rules into custom constraints (the rules are validated first)
+ */
+export function compileConstraintRules(rules: ConstraintRule[]): CustomConstraint[] {
+  return parseConstraintRules(rules).map(compileRule);
+}
+
+function compileRule(rule: ConstraintRule): CustomConstraint {
+  const applies = createSelector(rule);
+  const check = createCheck(rule, applies);
+  const satisfied: CustomHardConstraintFunction = (schedule, entry, rooms) => !applies(entry) || check(schedule, entry, rooms);
+
+  const constraint: CustomConstraint = {
+    name: rule.name,
+    description: rule.description ?? describeRule(rule),
+    type: rule.type,
+    // Soft rules score 0 when broken: the full weight
+    checkFunction: rule.type === "hard" ? satisfied : (...args) => (satisfied(...args) ? 1 : 0),
+  };
+  if (rule.weight !== undefined) {
+    constraint.weight = rule.weight;
+  }
+  return constraint;
+}
+
+type EntryCheck = (schedule: ScheduleEntry[], entry: ScheduleEntry, rooms: Map<string, Room>) => boolean;
+
+function createCheck(rule: ConstraintRule, applies: (entry: ScheduleEntry) => boolean): EntryCheck {
+  switch (rule.rule) {
+    case "avoid-days": {
+      const days = toKeys(rule.days);
+      return (_schedule, entry) => !days.has(entry.timeSlot.day.toLowerCase());
+    }
+    case "allowed-days": {
+      const days = toKeys(rule.days);
+      return (_schedule, entry) => days.has(entry.timeSlot.day.toLowerCase());
+    }
+    case "room-type": {
+      const roomType = rule.roomType.toLowerCase();
+      return (_schedule, entry, rooms) => rooms.get(entry.room)?.Type.toLowerCase() === roomType;
+    }
+    case "allowed-rooms": {
+      const codes = toKeys(rule.rooms);
+      return (_schedule, entry) => codes.has(entry.room.toLowerCase());
+    }
+    case "max-daily-periods": {
+      // Class groups are per prodi (as in HC5): "A" of two prodi are different students
+      const groupsOf =
+        rule.per === "class"
+          ? (entry: ScheduleEntry) => toList(entry.class).map((group) => `${entry.prodi}|${group}`)
+          : (entry: ScheduleEntry) => entry.lecturers;
+      // Only the named lecturers are limited when the rule selects lecturers
+      const lecturers = rule.per !== "class" && rule.lecturer !== undefined ? toKeys(toList(rule.lecturer)) : undefined;
+      const max = rule.max;
+
+      return (schedule, entry) => {
+        for (const group of groupsOf(entry)) {
+          if (lecturers && !lecturers.has(group.toLowerCase())) continue;
+
+          let periods = entry.sks;
+          for (const other of schedule) {
+            if (other.timeSlot.day === entry.timeSlot.day && applies(other) && groupsOf(other).includes(group)) {
+              periods += other.sks;
+            }
+          }
+          if (periods > max) return false;
+        }
+        return true;
+      };
+    }
+    case "earliest-start": {
+      const minutes = timeToMinutes(rule.time);
+      return (_schedule, entry) => timeToMinutes(entry.timeSlot.startTime) >= minutes;
+    }
+    case "latest-end": {
+      const minutes = timeToMinutes(rule.time);
+      return (_schedule, entry) => timeToMinutes(entry.timeSlot.endTime) <= minutes;
+    }
+  }
+}
+
+/**
+ * Whether an entry is one of the classes a rule applies to
+ */
+function createSelector(selector: ConstraintRuleSelector): (entry: ScheduleEntry) => boolean {
+  const fields = SELECTOR_FIELDS.filter((field) => selector[field] !== undefined).map((field) => ({
+    values: toKeys(toList(selector[field]!)),
+    read: SELECTOR_VALUES[field],
+  }));
+
+  return (entry) => fields.every(({ values, read }) => read(entry).some((value) => values.has(value.toLowerCase())));
+}
+
+function describeRule(rule: ConstraintRule): string {
+  const parts = SELECTOR_FIELDS.filter((field) => rule[field] !== undefined).map(
+    (field) => `${field} ${toList(rule[field]!).join("/")}`
+  );
+  const classes = parts.length > 0 ? parts.join(", ") : "all classes";
+
+  switch (rule.rule) {
+    case "avoid-days":
+      return `${classes}: not on ${rule.days.join(", ")}`;
+    case "allowed-days":
+      return `${classes}: only on ${rule.days.join(", ")}`;
+    case "room-type":
+      return `${classes}: in ${rule.roomType} rooms`;
+    case "allowed-rooms":
+      return `${classes}: only in ${rule.rooms.join(", ")}`;
+    case "max-daily-periods":
+      return `${classes}: at most ${rule.max} periods a day per ${rule.per ?? "lecturer"}`;
+    case "earliest-start":
+      return `${classes}: not before ${rule.time}`;
+    case "latest-end":
+      return `${classes}: finished by ${rule.time}`;
+  }
+}
+
+/**
+ * Check the fields of a rule read from untyped data
+ */
+function validateRule(value: unknown, index: number): ConstraintRule {
+  if (!isRecord(value)) {
+    throw new Error(`Constraint rule ${index + 1} must be an object`);
+  }
+  const label = `Constraint rule ${index + 1}${typeof value.name === "string" ? ` ("${value.name}")` : ""}`;
+
+  if (typeof value.name !== "string" || value.name.trim() === "") {
+    throw new Error(`${label}: 'name' must be a non-empty string`);
+  }
+  if (value.type !== "hard" && value.type !== "soft") {
+    throw new Error(`${label}: 'type' must be "hard" or "soft"`);
+  }
+  // The checker gives custom constraints without a weight (or a weight of 0) the default of 10
+  if (value.weight !== undefined && !(typeof value.weight === "number" && value.weight > 0)) {
+    throw new Error(`${label}: 'weight' must be a number greater than 0`);
+  }
+  if (value.description !== undefined && typeof value.description !== "string") {
+    throw new Error(`${label}: 'description' must be a string`);
+  }
+  for (const field of SELECTOR_FIELDS) {
+    const selector = value[field];
+    if (selector !== undefined && !isString(selector) && !isStringList(selector)) {
+      throw new Error(`${label}: '${field}' must be a string or a list of strings`);
+    }
+  }
+
+  const kind = value.rule;
+  if (typeof kind !== "string" || !Object.hasOwn(RULE_FIELDS, kind)) {
+    throw new Error(`${label}: unknown rule ${JSON.stringify(kind)} (expected one of ${Object.keys(RULE_FIELDS).join(", ")})`);
+  }
+  const ruleFields = RULE_FIELDS[kind as ConstraintRule["rule"]];
+
+  // A misspelt selector would silently apply the rule to every class
+  for (const field of Object.keys(value)) {
+    if (!COMMON_FIELDS.includes(field) && !ruleFields.includes(field)) {
+      throw new Error(`${label}: unknown field '${field}' for rule "${kind}"`);
+    }
+  }
+
+  switch (kind) {
+    case "avoid-days":
+    case "allowed-days":
+      requireList(value.days, `${label}: 'days' must be a non-empty list of days`);
+      break;
+    case "allowed-rooms":
+      requireList(value.rooms, `${label}: 'rooms' must be a non-empty list of room codes`);
+      break;
+    case "room-type":
+      if (!isString(value.roomType)) {
+        throw new Error(`${label}: 'roomType' must be a string`);
+      }
+      break;
+    case "max-daily-periods":
+      if (!(typeof value.max === "number" && value.max >= 0)) {
+        throw new Error(`${label}: 'max' must be a number of at least 0`);
+      }
+      if (value.per !== undefined && value.per !== "lecturer" && value.per !== "class") {
+        throw new Error(`${label}: 'per' must be "lecturer" or "class"`);
+      }
+      break;
+    case "earliest-start":
+    case "latest-end":
+      if (!(typeof value.time === "string" && TIME_PATTERN.test(value.time))) {
+        throw new Error(`${label}: 'time' must be a time in HH:MM format`);
+      }
+      break;
+  }
+
+  return value as unknown as ConstraintRule;
+}
+
+const SELECTOR_FIELDS = ["prodi", "course", "lecturer", "class", "classType"] as const;
+
+const SELECTOR_VALUES: Record<(typeof SELECTOR_FIELDS)[number], (entry: ScheduleEntry) => string[]> = {
+  prodi: (entry) => [entry.prodi],
+  course: (entry) => [entry.classId],
+  lecturer: (entry) => entry.lecturers,
+  class: (entry) => toList(entry.class),
+  classType: (entry) => [entry.classType],
+};
+
+const COMMON_FIELDS: string[] = ["name", "description", "type", "weight", "rule", ...SELECTOR_FIELDS];
+
+// Rule-specific fields of every rule
+const RULE_FIELDS: Record<ConstraintRule["rule"], string[]> = {
+  "avoid-days": ["days"],
+  "allowed-days": ["days"],
+  "room-type": ["roomType"],
+  "allowed-rooms": ["rooms"],
+  "max-daily-periods": ["max", "per"],
+  "earliest-start": ["time"],
+  "latest-end": ["time"],
+};
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):[0-5]\d$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.length > 0 && value.every(isString);
+}
+
+function requireList(value: unknown, message: string): void {
+  if (!isStringList(value)) {
+    throw new Error(message);
+  }
+}
+
+function toList(value: string | string[]): string[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function toKeys(values: string[]): Set<string> {
+  return new Set(values.map((value) => value.trim().toLowerCase()));
+}
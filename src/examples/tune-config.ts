@@ -0,0 +1,48 @@
+/**
+ * Example: tune the algorithm parameters on a dataset
+ */
+
+import { HyperparameterTuner, loadDataFromExcel } from "../index.js";
+import type { AlgorithmConfig } from "../index.js";
+
+async function main() {
+  // Load data
+  const dataPath = process.argv[2] || "./data/timetable-data.xlsx";
+  const outputPath = process.argv[3] || "./tuned-config.json";
+  const { rooms, lecturers, classes } = loadDataFromExcel(dataPath);
+
+  // Settings shared by every run; keep runs short, the tuner runs many
+  const baseConfig: AlgorithmConfig = {
+    maxIterations: 10000,
+  };
+
+  const tuner = new HyperparameterTuner(rooms, lecturers, classes, baseConfig, {
+    ranges: {
+      initialTemperature: [1000, 100000],
+      coolingRate: [0.99, 0.999],
+      reheatingThreshold: [500, 3000],
+      reheatingFactor: [20, 200],
+      maxReheats: [0, 10],
+      softConstraintWeights: {
+        preferredTime: [5, 20],
+        compactness: [4, 16],
+      },
+    },
+    candidates: 16,
+    maxRuns: 160,
+    seed: 1,
+    outputPath,
+  });
+
+  const result = tuner.tune();
+
+  console.log("Candidates by mean fitness:");
+  for (const candidate of [...result.candidates].sort((a, b) => a.meanScore - b.meanScore)) {
+    const status = candidate.eliminatedAfter ? `eliminated after ${candidate.eliminatedAfter} seeds` : "finalist";
+    console.log(`  #${candidate.id}: ${candidate.meanScore.toFixed(2)} (${status})`);
+  }
+  console.log(`\nBest configuration (${outputPath}):`);
+  console.log(JSON.stringify(result.best, null, 2));
+}
+
+main().catch(console.error);
@@ -26,15 +26,29 @@
  */
 
 // Core algorithm
-export { SimulatedAnnealing } from "./algorithm/index.js";
+export { SimulatedAnnealing, TabuSearch, LateAcceptanceHillClimbing, ParallelSolver } from "./algorithm/index.js";
+export { HyperparameterTuner } from "./algorithm/index.js";
+export { readCheckpoint, traceToCsv } from "./algorithm/index.js";
 export { DEFAULT_ALGORITHM_CONFIG, DEFAULT_SOFT_CONSTRAINT_WEIGHTS, mergeConfig } from "./algorithm/index.js";
+export { FitnessEvaluator, DeltaFitnessEvaluator } from "./algorithm/index.js";
+export type { FitnessResult } from "./algorithm/index.js";
+export { PlacementMove, getPlacement, placeAtTimeSlot } from "./algorithm/index.js";
+export {
+  createCoolingSchedule,
+  geometricCooling,
+  linearCooling,
+  logarithmicCooling,
+  lundyMeesCooling,
+  adaptiveCooling,
+} from "./algorithm/index.js";
+export type { CoolingParameters } from "./algorithm/index.js";
 
 // Constraints
-export { ConstraintChecker } from "./constraints/index.js";
+export { ConstraintChecker, parseConstraintRules, compileConstraintRules } from "./constraints/index.js";
 
 // Parsers
 export { loadDataFromExcel } from "./parsers/index.js";
-export { loadDataFromJSON, loadDataFromObject } from "./parsers/index.js";
+export { loadDataFromJSON, loadDataFromObject, loadConstraintRulesFromJSON } from "./parsers/index.js";
 
 // Constants
 export {
@@ -47,6 +61,7 @@ export {
   TIME_SLOTS_SORE,
   TIME_SLOTS,
   initializeTimeSlots,
+  TimeSlotRegistry,
 } from "./constants/index.js";
 
 // Utilities
@@ -60,6 +75,9 @@ export {
   canUseExclusiveRoom,
   isRoomAvailable,
   getAvailableRooms,
+  SeededRandom,
+  createRandom,
+  renderConvergenceChart,
 } from "./utils/index.js";
 
 // Types
@@ -70,13 +88,93 @@ export type {
   TimeSlot,
   ScheduleEntry,
   Solution,
+  SolutionMetadata,
+  SolverPhase,
+  SolverProgressEvent,
+  SolveOptions,
   ViolationReport,
   ConstraintViolation,
   OperatorStats,
+  OperatorStatistics,
+  NeighborhoodOperator,
+  OperatorContext,
+  OperatorSelectionName,
+  OperatorSelectionConfig,
+  OperatorSelectionOption,
+  OperatorUsage,
+  OperatorUsageCounts,
+  OperatorUsageWindow,
+  Move,
+  Placement,
+  PlacementChange,
   ExclusiveRoomConfig,
   PrayerTime,
   AlgorithmConfig,
   SoftConstraintWeights,
+  RandomNumberGenerator,
+  FitnessEvaluationMode,
+  StopReason,
+  WarmStartReport,
+  WarmStartChange,
+  RepairConfig,
+  PerturbationWeights,
+  RepairReport,
+  RepairChange,
+  PlacementAttribute,
+  UnassignedClass,
+  TemperatureCalibrationConfig,
+  TemperatureCalibrationResult,
+  CoolingScheduleName,
+  CoolingScheduleConfig,
+  CoolingScheduleOption,
+  CoolingStats,
+  CoolingFunction,
+  ParallelTemperingConfig,
+  ParallelTemperingReport,
+  PolishStrategy,
+  PolishConfig,
+  PolishOption,
+  PolishReport,
+  ObjectiveName,
+  ObjectiveFunction,
+  ObjectiveOption,
+  MultiObjectiveConfig,
+  ParetoSolution,
+  CheckpointConfig,
+  SolverCheckpoint,
+  AcceptanceWindowState,
+  OperatorSelectorState,
+  TraceConfig,
+  TracePoint,
+  ConvergenceTrace,
+  ConvergenceTraceState,
+  ConvergenceChartOptions,
+  AdaptiveWeightsConfig,
+  AdaptiveWeightsReport,
+  TabuSearchConfig,
+  TabuSearchReport,
+  LateAcceptanceConfig,
+  Solver,
+  ParallelSolverOptions,
+  ParallelSolveResult,
+  WorkerRunStats,
+  TuningRange,
+  TuningRanges,
+  TunedParameters,
+  TuningOptions,
+  TuningCandidate,
+  TuningStopReason,
+  TuningResult,
+  ConstraintRule,
+  ConstraintRuleBase,
+  ConstraintRuleSelector,
+  AvoidDaysRule,
+  AllowedDaysRule,
+  RoomTypeRule,
+  AllowedRoomsRule,
+  MaxDailyPeriodsRule,
+  EarliestStartRule,
+  LatestEndRule,
   TimetableInput,
   TimetableOutput,
 } from "./types/index.js";
@@ -3,4 +3,4 @@
  */
 
 export { loadDataFromExcel } from "./excel.js";
-export { loadDataFromJSON, loadDataFromObject } from "./json.js";
+export { loadDataFromJSON, loadDataFromObject, loadConstraintRulesFromJSON } from "./json.js";
@@ -3,7 +3,8 @@
  */
 
 import fs from "fs";
-import type { TimetableInput } from "../types/index.js";
+import type { TimetableInput, ConstraintRule } from "../types/index.js";
+import { parseConstraintRules } from "../constraints/index.js";
 
 /**
  * Load timetabling data from a JSON file
@@ -55,3 +56,19 @@ export function loadDataFromObject(data: TimetableInput): TimetableInput {
 
   return data;
 }
+
+/**
+ * Load declarative constraint rules from a JSON file
+ *
+ * Expected format: an array of rules, or
+ * {
+ *   "rules": [...]
+ * }
+ *
+ * @param filepath - Path to the JSON file
+ * @returns Validated constraint rules
+ */
+export function loadConstraintRulesFromJSON(filepath: string): ConstraintRule[] {
+  const fileContent = fs.readFileSync(filepath, "utf-8");
+  return parseConstraintRules(JSON.parse(fileContent));
+}
@@ -35,6 +35,11 @@ export interface ClassRequirement {
   Class_Type: string;
   should_on_the_lab: string;
   rooms: string;
+  // Optional locks: the search never changes a locked attribute
+  Locked?: string; // "yes" keeps the whole initial (or warm start) placement
+  Locked_Day?: string; // e.g. "Tuesday"
+  Locked_Time?: string; // Start time, e.g. "08:20"
+  Locked_Room?: string; // Room code, e.g. "CM-101"
 }
 
 export interface TimeSlot {
@@ -66,6 +71,126 @@ export interface Solution {
   hardViolations: number;
   softViolations: number;
   violationReport?: ViolationReport;
+  metadata?: SolutionMetadata;
+}
+
+/**
+ * Information about the run that produced a solution
+ */
+export interface SolutionMetadata {
+  algorithm?: string; // Solver that produced the solution ("simulated-annealing", "tabu-search", "late-acceptance")
+  seed?: number; // Seed of the built-in generator (replay with AlgorithmConfig.seed)
+  initialTemperature?: number; // Starting temperature (the calibrated value with initialTemperature: "auto")
+  temperatureCalibration?: TemperatureCalibrationResult;
+  warmStart?: WarmStartReport; // Set when the run started from AlgorithmConfig.initialSchedule
+  repair?: RepairReport; // Set in repair mode (AlgorithmConfig.repair)
+  unassigned?: UnassignedClass[]; // Classes still missing from the schedule (set when the initial solution missed any)
+  operatorStats?: OperatorStats;
+  operatorUsage?: OperatorUsage; // Operator choices per phase and per window of iterations
+  parallelTempering?: ParallelTemperingReport; // Set when AlgorithmConfig.parallelTempering is used
+  tabuSearch?: TabuSearchReport; // Set by TabuSearch
+  polish?: PolishReport; // Set when AlgorithmConfig.polish is used
+  objectives?: Record<string, number>; // Objective scores of the solution (set in multi-objective mode)
+  paretoFront?: ParetoSolution[]; // Non-dominated solutions found (set in "pareto" mode)
+  trace?: ConvergenceTrace; // Set when AlgorithmConfig.trace is used
+  adaptiveWeights?: AdaptiveWeightsReport; // Set when AlgorithmConfig.adaptiveWeights is used
+  stopReason?: StopReason; // Criterion that ended the run
+  iterations?: number;
+  elapsedMs?: number; // Wall-clock time of solve(), including the initial solution
+}
+
+/**
+ * Class requirement that is not in the schedule
+ */
+export interface UnassignedClass {
+  classId: string;
+  className: string;
+  class: string;
+  prodi: string;
+}
+
+/**
+ * How a previous schedule was carried over into the initial solution
+ */
+export interface WarmStartReport {
+  kept: number; // Entries kept at their previous day, start time and room
+  repaired: WarmStartChange[]; // Entries placed again because their time slot or room is no longer valid
+  dropped: WarmStartChange[]; // Entries without a matching class, or that could not be placed again
+  inserted: number; // Classes not in the previous schedule, placed greedily
+}
+
+export interface WarmStartChange {
+  classId: string;
+  class: string | string[];
+  reason: string;
+}
+
+/**
+ * Attribute of a placement that can differ from the previous schedule
+ */
+export type PlacementAttribute = "day" | "startTime" | "room";
+
+/**
+ * Repair mode: re-optimise a previous solution after the input changed,
+ * moving as few classes as possible
+ */
+export interface RepairConfig {
+  previous: Solution; // Solution to repair; its entries are carried over like a warm start
+  weights?: PerturbationWeights;
+}
+
+/**
+ * Fitness penalty for each entry whose day, start time or room differs from
+ * the previous solution (the weights of all changed attributes add up)
+ */
+export interface PerturbationWeights {
+  day?: number; // Default: 30
+  startTime?: number; // Default: 20
+  room?: number; // Default: 10
+}
+
+/**
+ * Entries of a repaired solution compared with the previous solution
+ */
+export interface RepairReport {
+  unchanged: number; // Entries at their previous day, start time and room
+  changed: RepairChange[];
+  distance: number; // Total perturbation penalty of the solution (included in its fitness)
+}
+
+export interface RepairChange {
+  classId: string;
+  class: string | string[];
+  attributes: PlacementAttribute[]; // What changed
+  from: { day: string; startTime: string; room: string };
+  to: { day: string; startTime: string; room: string };
+  reason: string; // Why the previous placement was given up
+}
+
+/**
+ * Why a run stopped
+ * - "max-iterations" / "min-temperature": the schedule ran to completion
+ * - "time-limit": timeLimitMs elapsed
+ * - "target-fitness": best fitness reached targetFitness
+ * - "stagnation": stagnationLimit iterations without a new best solution
+ * - "soft-penalty-threshold": no hard violations and soft penalty below softPenaltyThreshold
+ */
+export type StopReason =
+  | "max-iterations"
+  | "min-temperature"
+  | "time-limit"
+  | "target-fitness"
+  | "stagnation"
+  | "soft-penalty-threshold";
+
+/**
+ * Outcome of initial temperature calibration
+ */
+export interface TemperatureCalibrationResult {
+  targetAcceptanceRatio: number;
+  samples: number; // Neighbours sampled
+  worseningSamples: number; // Sampled neighbours the temperature was fitted to
+  fallback: boolean; // True when no worsening neighbour was found and the default temperature was used
 }
 
 export interface ViolationReport {
@@ -87,9 +212,279 @@ export interface ConstraintViolation {
   details?: any;
 }
 
+/**
+ * Attempts and accepted improvements of one neighbourhood operator
+ */
+export interface OperatorStatistics {
+  attempts: number;
+  improvements: number;
+  successRate: number;
+}
+
+/**
+ * Statistics per operator name: the built-in operators plus every registered
+ * NeighborhoodOperator (AlgorithmConfig.operators)
+ */
 export interface OperatorStats {
-  move: { attempts: number; improvements: number; successRate: number };
-  swap: { attempts: number; improvements: number; successRate: number };
+  [name: string]: OperatorStatistics;
+  move: OperatorStatistics;
+  swap: OperatorStatistics;
+  kempe: OperatorStatistics;
+  insertion: OperatorStatistics;
+}
+
+/**
+ * Operator selection strategies (operators are rewarded 1 when the accepted
+ * neighbour improves the current solution, 0 otherwise)
+ * - "success-rate": uniform 30% of the time, otherwise proportional to
+ *   improvements / attempts over the whole run (rates never decay)
+ * - "probability-matching": proportional to a quality that tracks recent
+ *   rewards (q <- q + adaptationRate * (reward - q)), at least minProbability
+ * - "adaptive-pursuit": the probability of the best-quality operator moves
+ *   towards its maximum, the others towards minProbability (learningRate)
+ * - "ucb1": multi-armed bandit, highest mean reward + exploration bonus
+ * - "sliding-window": probability matching on the mean reward of each
+ *   operator's last windowSize moves
+ */
+export type OperatorSelectionName = "success-rate" | "probability-matching" | "adaptive-pursuit" | "ucb1" | "sliding-window";
+
+/**
+ * Operator selection strategy with parameters
+ */
+export interface OperatorSelectionConfig {
+  type: OperatorSelectionName;
+  minProbability?: number; // probability-matching, adaptive-pursuit, sliding-window (default: 0.05)
+  adaptationRate?: number; // probability-matching, adaptive-pursuit (default: 0.2)
+  learningRate?: number; // adaptive-pursuit (default: 0.2)
+  exploration?: number; // ucb1 (default: sqrt(2))
+  windowSize?: number; // sliding-window, moves per operator (default: 100)
+}
+
+export type OperatorSelectionOption = OperatorSelectionName | OperatorSelectionConfig;
+
+/**
+ * How often an operator was chosen, and how often its move improved the current solution
+ */
+export interface OperatorUsageCounts {
+  selections: number;
+  improvements: number;
+}
+
+/**
+ * Operator choices in a window of consecutive iterations of one phase
+ */
+export interface OperatorUsageWindow {
+  phase: SolverPhase;
+  startIteration: number;
+  iterations: number;
+  operators: Record<string, OperatorUsageCounts>;
+}
+
+/**
+ * Operator choices of a run, per phase and per window of iterations
+ */
+export interface OperatorUsage {
+  strategy: OperatorSelectionName;
+  windowSize: number; // Iterations per window (AlgorithmConfig.operatorUsageWindow)
+  phase1: Record<string, OperatorUsageCounts>;
+  phase2: Record<string, OperatorUsageCounts>;
+  windows: OperatorUsageWindow[];
+}
+
+/**
+ * The attributes of a schedule entry that neighbourhood moves change
+ */
+export interface Placement {
+  timeSlot: TimeSlot;
+  room: string;
+  prayerTimeAdded: number;
+  isOverflowToLab: boolean | undefined;
+}
+
+/**
+ * New placement for the entry at `index`
+ */
+export interface PlacementChange {
+  index: number;
+  placement: Placement;
+}
+
+/**
+ * A reversible change to a schedule
+ */
+export interface Move {
+  /** Indices of the schedule entries the move changes */
+  readonly indices: number[];
+  apply(schedule: ScheduleEntry[]): void;
+  undo(schedule: ScheduleEntry[]): void;
+}
+
+/**
+ * What a neighbourhood operator can see of the search
+ */
+export interface OperatorContext {
+  schedule: ScheduleEntry[]; // Current schedule; do not change it, return a Move instead
+  random: RandomNumberGenerator; // The solver's generator (keeps seeded runs reproducible)
+  rooms: Room[];
+  movableIndices: number[]; // Entries that are not fully locked
+  getCandidateTimeSlots(index: number): TimeSlot[]; // Time slots for the entry's class type and prodi, within its lock
+  allowsRoom(index: number, room: string): boolean; // Whether the entry's lock allows the room
+}
+
+/**
+ * A neighbourhood operator that joins the adaptive selection
+ *
+ * propose() returns a Move (e.g. a PlacementMove) that the solver applies,
+ * scores and undoes when it is rejected. Moves must keep the schedule length
+ * and should only change movable entries within their locks.
+ */
+export interface NeighborhoodOperator {
+  name: string; // Unique; key of the operator in OperatorStats
+  isApplicable?(context: OperatorContext): boolean; // Default: always applicable
+  propose(context: OperatorContext): Move;
+}
+
+/**
+ * Solver phase: 1 eliminates hard violations, 2 optimizes soft constraints
+ */
+export type SolverPhase = 1 | 2;
+
+/**
+ * Progress event emitted by SimulatedAnnealing.solveAsync()
+ */
+export interface SolverProgressEvent {
+  type: "start" | "progress" | "phase-change" | "complete";
+  phase: SolverPhase;
+  iteration: number;
+  temperature: number;
+  currentFitness: number;
+  bestFitness: number;
+  hardViolations: number;
+  bestHardViolations: number;
+  reheats: number;
+}
+
+/**
+ * A timetabling algorithm: SimulatedAnnealing, TabuSearch or LateAcceptanceHillClimbing
+ *
+ * All solvers take (rooms, lecturers, classes, config) and return the same
+ * Solution shape, so they can be compared on the same data.
+ */
+export interface Solver {
+  solve(): Solution;
+  solveAsync(options?: SolveOptions): Promise<Solution>;
+}
+
+/**
+ * Options for Solver.solveAsync()
+ */
+export interface SolveOptions {
+  signal?: AbortSignal; // Abort to cancel the run
+  onProgress?: (event: SolverProgressEvent) => void;
+  batchSize?: number; // Iterations between yields to the event loop (default: 100)
+}
+
+/**
+ * Options for ParallelSolver
+ */
+export interface ParallelSolverOptions {
+  workers?: number; // Number of independent runs (default: number of CPUs)
+  seeds?: number[]; // Explicit seed per run (overrides workers)
+  verbose?: boolean; // Show solver console output from workers (default: false)
+  workerScript?: string | URL; // Override the worker entry point (default: compiled parallel-worker.js)
+}
+
+/**
+ * Statistics of a single ParallelSolver run
+ */
+export interface WorkerRunStats {
+  workerId: number;
+  seed: number;
+  durationMs: number;
+  fitness?: number;
+  hardViolations?: number;
+  scheduledClasses?: number;
+  error?: string;
+}
+
+/**
+ * Result of ParallelSolver.solve()
+ */
+export interface ParallelSolveResult {
+  best: Solution;
+  bestWorkerId: number;
+  workers: WorkerRunStats[];
+}
+
+/**
+ * Range of a tuned parameter: [min, max], both included
+ */
+export type TuningRange = [number, number];
+
+/**
+ * Parameters sampled by HyperparameterTuner (the others keep their base configuration value)
+ */
+export interface TuningRanges {
+  initialTemperature?: TuningRange; // Sampled on a logarithmic scale
+  coolingRate?: TuningRange;
+  reheatingThreshold?: TuningRange; // Rounded to whole iterations
+  reheatingFactor?: TuningRange;
+  maxReheats?: TuningRange; // Rounded
+  softConstraintWeights?: { [K in keyof SoftConstraintWeights]?: TuningRange };
+}
+
+/**
+ * Parameter values of a tuning candidate
+ */
+export interface TunedParameters {
+  initialTemperature?: number;
+  coolingRate?: number;
+  reheatingThreshold?: number;
+  reheatingFactor?: number;
+  maxReheats?: number;
+  softConstraintWeights?: SoftConstraintWeights;
+}
+
+/**
+ * Options for HyperparameterTuner
+ */
+export interface TuningOptions {
+  ranges: TuningRanges;
+  candidates?: number; // Configurations in the race, the base configuration included (default: 20)
+  maxRuns?: number; // Budget in solver runs (default: 10 per candidate)
+  timeLimitMs?: number; // Wall-clock budget, checked before every seed
+  minSeeds?: number; // Seeds run by every candidate before the first elimination (default: 5)
+  maxSeeds?: number; // The race ends after this many seeds (default: 20)
+  alpha?: number; // Significance level of the elimination test (default: 0.05)
+  seed?: number; // Seeds the candidate sampling; seed + i is the seed of the i-th race step (default: random)
+  outputPath?: string; // Write the best configuration as JSON (data settings only: function-valued settings are rejected)
+  verbose?: boolean; // Show solver console output; runs are quiet otherwise (default: false)
+}
+
+/**
+ * A configuration raced by HyperparameterTuner
+ */
+export interface TuningCandidate {
+  id: number;
+  parameters: TunedParameters; // Empty for the base configuration
+  scores: number[]; // Fitness per race step, under the base soft constraint weights
+  meanScore: number;
+  eliminatedAfter?: number; // Race steps run when the candidate was eliminated
+}
+
+export type TuningStopReason = "single-survivor" | "max-seeds" | "max-runs" | "time-limit";
+
+/**
+ * Result of HyperparameterTuner.tune()
+ */
+export interface TuningResult {
+  best: AlgorithmConfig; // Base configuration with the parameters of the best candidate (without seed)
+  bestCandidate: number;
+  candidates: TuningCandidate[];
+  seeds: number[]; // Seed of every race step
+  runs: number;
+  elapsedMs: number;
+  stopReason: TuningStopReason;
 }
 
 /**
@@ -139,7 +534,8 @@ export interface CustomTimeSlots {
  * Algorithm configuration options
  */
 export interface AlgorithmConfig {
-  initialTemperature?: number;
+  initialTemperature?: number | "auto"; // "auto": calibrate from sampled neighbours
+  temperatureCalibration?: TemperatureCalibrationConfig;
   minTemperature?: number;
   coolingRate?: number;
   maxIterations?: number;
@@ -149,6 +545,55 @@ export interface AlgorithmConfig {
   hardConstraintWeight?: number;
   softConstraintWeights?: SoftConstraintWeights;
 
+  // Classes the initial solution could not place stay in the search
+  unassignedClassWeight?: number; // Fitness penalty per class missing from the schedule (default: 10000)
+  insertionRate?: number; // Share of neighbours that try to insert a missing class, while there is one (default: 0.1)
+
+  // Additional neighbourhood operators, selected adaptively alongside move, swap and kempe
+  operators?: NeighborhoodOperator[];
+  operatorSelection?: OperatorSelectionOption; // Default: "success-rate"
+  operatorUsageWindow?: number; // Iterations per window in solution.metadata.operatorUsage (default: 1000)
+
+  // Cooling schedule (default: "geometric" with coolingRate)
+  coolingSchedule?: CoolingScheduleOption;
+
+  // Replica exchange instead of a single cooling chain (cooling and reheating are not used)
+  parallelTempering?: ParallelTemperingConfig;
+
+  // Per-objective scores with a Pareto archive or a lexicographic order (default: off)
+  multiObjective?: MultiObjectiveConfig;
+
+  // Local-search polish of the final solution (default: off)
+  polish?: PolishOption;
+
+  // Settings of the TabuSearch and LateAcceptanceHillClimbing solvers
+  tabuSearch?: TabuSearchConfig;
+  lateAcceptance?: LateAcceptanceConfig;
+
+  // Phase 1 ends once the temperature drops below initialTemperature * ratio (default: 0.1)
+  phase1TemperatureRatio?: number;
+
+  // Warm start: continue from an existing schedule (e.g. last semester's) instead of greedy placement
+  initialSchedule?: ScheduleEntry[];
+
+  // Minimal-perturbation repair of a previous solution (cannot be combined with initialSchedule)
+  repair?: RepairConfig;
+
+  // Additional stopping criteria (all disabled by default); the first one met ends the run
+  timeLimitMs?: number; // Wall-clock budget for solve(), including the initial solution
+  targetFitness?: number; // Stop once the best fitness is at or below this value
+  stagnationLimit?: number; // Stop after this many iterations without a new best solution
+  softPenaltyThreshold?: number; // Stop once the best solution has no hard violations and a lower soft penalty
+
+  // Periodically save the run to a file, to continue it with resume() (default: off)
+  checkpoint?: CheckpointConfig;
+
+  // Record the progress of the run in solution.metadata.trace (default: off)
+  trace?: TraceConfig;
+
+  // Raise the weights of the soft constraints that stay violated during phase 2 (default: off)
+  adaptiveWeights?: AdaptiveWeightsConfig;
+
   // Mode 1: Merge with defaults (partial override)
   timeSlotConfig?: TimeSlotConfig;
 
@@ -160,6 +605,387 @@ export interface AlgorithmConfig {
 
   // Logging configuration
   logging?: LoggingConfig;
+
+  // Hide the solver's console progress messages; logging is unaffected (default: false)
+  quiet?: boolean;
+
+  // Fitness evaluation of neighbour moves (default: "delta")
+  fitnessEvaluation?: FitnessEvaluationMode;
+
+  // Reproducibility: seed for the built-in generator, or a custom generator
+  seed?: number;
+  random?: RandomNumberGenerator;
+}
+
+/**
+ * How neighbour solutions are scored
+ * - "delta": rescore only the entries affected by a move
+ * - "full": recompute the whole schedule (reference implementation)
+ * - "verify": delta, checked against a full pass on every move (for testing)
+ */
+export type FitnessEvaluationMode = "delta" | "full" | "verify";
+
+/**
+ * Initial temperature calibration (used with initialTemperature: "auto")
+ *
+ * Neighbours of the initial solution are sampled, and the temperature is set
+ * so that the target share of the worsening ones would be accepted.
+ */
+export interface TemperatureCalibrationConfig {
+  targetAcceptanceRatio?: number; // Default: 0.8
+  samples?: number; // Default: 200
+}
+
+/**
+ * Parallel tempering (replica exchange)
+ *
+ * Replicas of the solution take Metropolis steps at a fixed ladder of
+ * temperatures, exchangeInterval iterations each in turn. After every round,
+ * replicas at neighbouring temperatures swap with probability
+ * min(1, exp((1/T_cold - 1/T_hot) * (fitness_cold - fitness_hot))), so good
+ * solutions sink to the cold end while hot replicas keep exploring.
+ * maxIterations counts the iterations of all replicas together.
+ */
+export interface ParallelTemperingConfig {
+  replicas?: number; // Default: 4 (at least 2)
+  temperatures?: number[]; // Explicit ladder; overrides replicas, minTemperature and maxTemperature
+  minTemperature?: number; // Coldest replica (default: maxTemperature / 10000)
+  maxTemperature?: number; // Hottest replica (default: the initial temperature, calibrated with "auto")
+  exchangeInterval?: number; // Iterations of each replica per round (default: 100)
+}
+
+/**
+ * Tabu search
+ *
+ * Every iteration scores `candidates` neighbours and moves to the best one
+ * that is not tabu, even when it is worse. The placements (day, start time and
+ * room) that the move took entries away from become tabu for those entries
+ * during `tenure` iterations. A tabu move is still taken when it beats the
+ * best solution (aspiration). maxIterations counts moves, not neighbours scored.
+ */
+export interface TabuSearchConfig {
+  tenure?: number; // Default: 20
+  candidates?: number; // Neighbours scored per iteration (default: 20)
+}
+
+/**
+ * Tabu list activity of a TabuSearch run
+ */
+export interface TabuSearchReport {
+  tenure: number;
+  candidates: number;
+  tabuRejections: number; // Neighbours skipped because they restore a tabu placement
+  aspirations: number; // Tabu moves taken because they beat the best solution
+}
+
+/**
+ * Late acceptance hill climbing
+ *
+ * A neighbour is accepted when it is no worse than the current solution or
+ * than the current solution of `historyLength` iterations ago.
+ */
+export interface LateAcceptanceConfig {
+  historyLength?: number; // Default: 1000
+}
+
+/**
+ * Descent strategies of the local-search polish
+ * - "first-improvement": each entry takes the first move (or swap) that improves the solution
+ * - "steepest": each entry takes its best improving move (or swap)
+ */
+export type PolishStrategy = "first-improvement" | "steepest";
+
+/**
+ * Local-search polish, run on the best solution when the search ends
+ *
+ * Sweeps over the movable entries, trying every candidate time slot and room
+ * of each entry, then swaps of time slots and/or rooms between pairs of
+ * entries, and repeats until a sweep finds no improvement. A move improves
+ * the solution when it has fewer hard violations, or as many and a lower fitness.
+ */
+export interface PolishConfig {
+  type: PolishStrategy;
+  swaps?: boolean; // Also try pairwise swaps (default: true)
+  maxPasses?: number; // Stop after this many sweeps (default: until no improvement)
+}
+
+export type PolishOption = PolishStrategy | PolishConfig;
+
+/**
+ * Result of the local-search polish
+ */
+export interface PolishReport {
+  strategy: PolishStrategy;
+  passes: number; // Sweeps over the entries, including the last one without improvement
+  moves: number; // Improving single-entry moves applied
+  swaps: number; // Improving swaps applied
+  evaluations: number; // Neighbours scored
+  initialFitness: number; // Fitness of the search result
+  finalFitness: number;
+  improvement: number; // initialFitness - finalFitness
+  initialHardViolations: number;
+  finalHardViolations: number;
+}
+
+/**
+ * Built-in objectives: the penalty of one soft constraint (with its weight),
+ * or of all custom soft constraints together
+ */
+export type ObjectiveName =
+  | "preferredTime"
+  | "preferredRoom"
+  | "transitTime"
+  | "compactness"
+  | "labRequirement"
+  | "prayerTimeOverlap"
+  | "eveningClassPriority"
+  | "overflowPenalty"
+  | "researchDay"
+  | "customConstraints";
+
+/**
+ * A custom objective, scored on the whole schedule after every move (lower is better)
+ */
+export interface ObjectiveFunction {
+  name: string;
+  evaluate(schedule: ScheduleEntry[]): number;
+}
+
+export type ObjectiveOption = ObjectiveName | ObjectiveFunction;
+
+/**
+ * Multi-objective mode
+ *
+ * - "pareto": the search is still guided by the fitness, and every solution
+ *   it moves to is offered to an archive of non-dominated solutions
+ *   (solution.metadata.paretoFront). A solution with fewer hard violations
+ *   dominates one with more.
+ * - "lexicographic": solutions are compared by hard violations, then by each
+ *   objective in order, then by fitness; the acceptance test uses the
+ *   difference at the first level where two solutions differ.
+ */
+export interface MultiObjectiveConfig {
+  mode: "pareto" | "lexicographic";
+  objectives?: ObjectiveOption[]; // Default (pareto only): every built-in objective; required in lexicographic mode
+  archiveSize?: number; // Most solutions kept in the Pareto front (default: 50)
+}
+
+/**
+ * A solution of the Pareto front
+ */
+export interface ParetoSolution {
+  schedule: ScheduleEntry[];
+  fitness: number;
+  hardViolations: number;
+  objectives: Record<string, number>;
+}
+
+/**
+ * Periodic checkpoints of a run
+ */
+export interface CheckpointConfig {
+  filePath: string; // Replaced at every checkpoint (written to a temporary file first)
+  interval?: number; // Iterations between checkpoints (default: 10000)
+}
+
+/**
+ * Outcomes recorded by the acceptance ratio window of a run
+ */
+export interface AcceptanceWindowState {
+  outcomes: number[]; // 1 = accepted, in ring buffer order
+  next: number;
+  count: number;
+}
+
+/**
+ * Learned credit of an operator selection strategy: per-operator tables and counters
+ */
+export type OperatorSelectorState = Record<string, Record<string, number | number[]> | number>;
+
+/**
+ * Saved state of a run, written to CheckpointConfig.filePath
+ *
+ * Resuming needs a solver of the same algorithm, built from the same input
+ * and configuration; the initial solution setup (locks, unscheduled classes,
+ * repair origins) is rebuilt from them.
+ */
+export interface SolverCheckpoint {
+  version: number;
+  algorithm: string; // SolutionMetadata.algorithm of the solver that wrote it
+  savedAt: string; // ISO timestamp
+  seed?: number;
+  randomState: number; // SeededRandom state
+  elapsedMs: number;
+  phase: SolverPhase;
+  iteration: number;
+  phase1Iteration: number;
+  phase1MaxIterations: number;
+  temperature: number;
+  initialTemperature: number; // After calibration
+  temperatureCalibration?: TemperatureCalibrationResult;
+  iterationsWithoutImprovement: number;
+  reheatingCount: number;
+  lastImprovementIteration: number;
+  currentSolution: Solution;
+  bestSolution: Solution;
+  currentHardViolations: number;
+  bestHardViolations: number;
+  bestResult: {
+    fitness: number;
+    hardViolations: number;
+    customHardViolations: number;
+    softPenalty: number;
+    objectives?: number[];
+  };
+  insertedClasses: number[]; // Class indices inserted into the current schedule, in order
+  operatorStats: OperatorStats;
+  operatorSelection: OperatorSelectorState;
+  operatorUsage: OperatorUsage;
+  acceptance: AcceptanceWindowState;
+  paretoArchive?: ParetoSolution[];
+  trace?: ConvergenceTraceState;
+  adaptiveWeights?: { weights: Required<SoftConstraintWeights>; updates: number };
+  search?: unknown; // Algorithm-specific state (parallel tempering replicas, tabu list, late acceptance history)
+}
+
+/**
+ * Adaptive soft constraint weights
+ *
+ * Every interval iterations of phase 2, the weight of each soft constraint
+ * grows with the share of entries of the current solution that violate it,
+ * and all weights are scaled back to their configured total.
+ */
+export interface AdaptiveWeightsConfig {
+  interval?: number; // Iterations between weight updates (default: 1000)
+  learningRate?: number; // Growth of a weight violated by every entry, per update (default: 0.5)
+  maxRatio?: number; // Weights stay between their configured value / maxRatio and * maxRatio (default: 3)
+}
+
+/**
+ * Soft constraint weights learned in a run with adaptive weights
+ */
+export interface AdaptiveWeightsReport {
+  initial: Required<SoftConstraintWeights>; // Configured weights
+  final: Required<SoftConstraintWeights>; // Weights the solution was scored with
+  updates: number;
+  initialWeightsFitness: number; // Fitness of the solution with the configured weights
+}
+
+/**
+ * Convergence trace of a run
+ */
+export interface TraceConfig {
+  interval?: number; // Iterations between trace points (default: 100)
+  filePath?: string; // Write the trace at the end of the run: CSV for a .csv path, JSON otherwise
+  chartPath?: string; // Write an SVG convergence chart at the end of the run
+}
+
+/**
+ * State of a run every TraceConfig.interval iterations; the counts cover
+ * the iterations since the previous point
+ */
+export interface TracePoint {
+  iteration: number;
+  phase: SolverPhase;
+  elapsedMs: number;
+  temperature: number;
+  currentFitness: number;
+  bestFitness: number;
+  hardViolations: number; // Of the current solution
+  bestHardViolations: number;
+  reheats: number; // Reheats so far
+  accepted: number;
+  rejected: number;
+  operators: Record<string, number>; // Iterations per operator
+}
+
+/**
+ * Points recorded over a run: at the start, every interval iterations and at the end
+ */
+export interface ConvergenceTrace {
+  interval: number;
+  points: TracePoint[];
+}
+
+/**
+ * A trace with the counts since its last point (for checkpoints)
+ */
+export interface ConvergenceTraceState {
+  trace: ConvergenceTrace;
+  accepted: number;
+  rejected: number;
+  operators: Record<string, number>;
+}
+
+/**
+ * Size and title of renderConvergenceChart()
+ */
+export interface ConvergenceChartOptions {
+  width?: number; // Default: 800
+  height?: number; // Default: 400
+  title?: string; // Default: "Convergence"
+}
+
+/**
+ * Temperature ladder and replica exchanges of a parallel tempering run
+ */
+export interface ParallelTemperingReport {
+  temperatures: number[]; // Coldest first
+  exchangeAttempts: number[]; // Per pair of neighbouring temperatures (index i: temperatures i and i + 1)
+  exchangesAccepted: number[];
+}
+
+/**
+ * Built-in cooling schedules
+ * - "geometric": T * coolingRate
+ * - "linear": T - (initialTemperature - minTemperature) / maxIterations
+ * - "logarithmic": T(k) = initialTemperature / (1 + alpha * ln(1 + k))
+ * - "lundy-mees": T / (1 + beta * T)
+ * - "adaptive": cools by coolingRate while the acceptance ratio is above a
+ *   target, heats by 1 / coolingRate below it (the target decreases to 0 over the run)
+ */
+export type CoolingScheduleName = "geometric" | "linear" | "logarithmic" | "lundy-mees" | "adaptive";
+
+/**
+ * Built-in cooling schedule with parameters
+ */
+export interface CoolingScheduleConfig {
+  type: CoolingScheduleName;
+  alpha?: number; // logarithmic (default: 1)
+  beta?: number; // lundy-mees (default: reaches minTemperature at maxIterations)
+  targetAcceptanceRatio?: number; // adaptive, initial target (default: 0.5)
+}
+
+/**
+ * Run statistics passed to cooling schedules
+ */
+export interface CoolingStats {
+  phase: SolverPhase;
+  initialTemperature: number;
+  minTemperature: number;
+  maxIterations: number;
+  acceptanceRatio: number; // Accepted share of the last 100 neighbours
+  currentFitness: number;
+  bestFitness: number;
+  reheats: number;
+}
+
+/**
+ * Custom cooling schedule: returns the temperature for the next iteration
+ *
+ * `iteration` is the (0-based) iteration that just finished, counted across both phases.
+ */
+export type CoolingFunction = (iteration: number, temperature: number, stats: CoolingStats) => number;
+
+export type CoolingScheduleOption = CoolingScheduleName | CoolingScheduleConfig | CoolingFunction;
+
+/**
+ * Source of randomness used by the solver
+ */
+export interface RandomNumberGenerator {
+  next(): number; // Float in [0, 1)
+  getState?(): number;
+  setState?(state: number): void;
 }
 
 export interface SoftConstraintWeights {
@@ -171,6 +997,7 @@ export interface SoftConstraintWeights {
   eveningClassPriority?: number;
   labRequirement?: number;
   overflowPenalty?: number;
+  researchDay?: number;
 }
 
 /**
@@ -238,8 +1065,100 @@ export interface ConstraintsConfig {
   hardConstraints?: HardConstraintsConfig;
   softConstraints?: SoftConstraintsConfig;
   customConstraints?: CustomConstraint[];
+  rules?: ConstraintRule[]; // Declarative rules, checked with the built-in constraints
 }
 
+/**
+ * Classes a declarative rule applies to: every given field must match
+ * (a list matches any of its values; names are compared case-insensitively)
+ */
+export interface ConstraintRuleSelector {
+  prodi?: string | string[];
+  course?: string | string[]; // Course code (Kode_Matakuliah)
+  lecturer?: string | string[]; // Lecturer code
+  class?: string | string[]; // Class group (Kelas), e.g. "IF-1A"
+  classType?: string | string[]; // "pagi" or "sore"
+}
+
+/**
+ * Fields shared by every declarative rule
+ */
+export interface ConstraintRuleBase extends ConstraintRuleSelector {
+  name: string;
+  description?: string; // Reason in violation reports (default: generated from the rule)
+  type: "hard" | "soft";
+  weight?: number; // Only for soft rules (default: 10, as for custom constraints)
+}
+
+/**
+ * Matching classes are never scheduled on these days
+ */
+export interface AvoidDaysRule extends ConstraintRuleBase {
+  rule: "avoid-days";
+  days: string[];
+}
+
+/**
+ * Matching classes are only scheduled on these days
+ */
+export interface AllowedDaysRule extends ConstraintRuleBase {
+  rule: "allowed-days";
+  days: string[];
+}
+
+/**
+ * Matching classes are held in rooms of this type (Room.Type, e.g. "Lab")
+ */
+export interface RoomTypeRule extends ConstraintRuleBase {
+  rule: "room-type";
+  roomType: string;
+}
+
+/**
+ * Matching classes are held in one of these rooms (room codes)
+ */
+export interface AllowedRoomsRule extends ConstraintRuleBase {
+  rule: "allowed-rooms";
+  rooms: string[];
+}
+
+/**
+ * Matching classes add up to at most `max` periods (SKS) a day, per lecturer or per class group
+ */
+export interface MaxDailyPeriodsRule extends ConstraintRuleBase {
+  rule: "max-daily-periods";
+  max: number;
+  per?: "lecturer" | "class"; // Default: "lecturer"
+}
+
+/**
+ * Matching classes start at or after this time ("HH:MM")
+ */
+export interface EarliestStartRule extends ConstraintRuleBase {
+  rule: "earliest-start";
+  time: string;
+}
+
+/**
+ * Matching classes end at or before this time ("HH:MM")
+ */
+export interface LatestEndRule extends ConstraintRuleBase {
+  rule: "latest-end";
+  time: string;
+}
+
+/**
+ * Declarative constraint, written in JSON and checked with the built-in constraints
+ */
+export type ConstraintRule =
+  | AvoidDaysRule
+  | AllowedDaysRule
+  | RoomTypeRule
+  | AllowedRoomsRule
+  | MaxDailyPeriodsRule
+  | EarliestStartRule
+  | LatestEndRule;
+
 /**
  * Logging configuration
  */
@@ -0,0 +1,190 @@
+/**
+ * SVG convergence chart of a solver run
+ *
+ * Plots the current and best fitness and the temperature of a convergence
+ * trace over the iterations, with the start of phase 2 and every reheat
+ * marked. Both value axes are logarithmic: the hard constraint weight makes
+ * phase 1 fitness values orders of magnitude larger than phase 2 ones.
+ */
+
+import type { ConvergenceTrace, ConvergenceChartOptions, TracePoint } from "../types/index.js";
+
+const MARGIN = { top: 48, right: 80, bottom: 48, left: 80 };
+
+const COLORS = {
+  current: "#9e9e9e",
+  best: "#1565c0",
+  temperature: "#ef6c00",
+  reheat: "#c62828",
+  phase: "#616161",
+  grid: "#e0e0e0",
+  text: "#212121",
+};
+
+/**
+ * Render a convergence trace as a standalone SVG document
+ */
+export function renderConvergenceChart(trace: ConvergenceTrace, options: ConvergenceChartOptions = {}): string {
+  const width = options.width ?? 800;
+  const height = options.height ?? 400;
+  const title = options.title ?? "Convergence";
+  const points = trace.points;
+
+  const plotWidth = width - MARGIN.left - MARGIN.right;
+  const plotHeight = height - MARGIN.top - MARGIN.bottom;
+  const bottom = MARGIN.top + plotHeight;
+
+  const firstIteration = points[0]?.iteration ?? 0;
+  const iterationSpan = Math.max(1, (points[points.length - 1]?.iteration ?? 0) - firstIteration);
+  const x = (iteration: number): number => MARGIN.left + ((iteration - firstIteration) / iterationSpan) * plotWidth;
+
+  const fitness = points.flatMap((point) => [point.currentFitness, point.bestFitness]);
+  const fitnessAxis = createLogAxis(fitness.map((value) => Math.log10(Math.max(0, value) + 1)));
+  const fitnessY = (value: number): number => fitnessAxis.position(Math.log10(Math.max(0, value) + 1), plotHeight);
+
+  // Tabu search and late acceptance run at temperature 0: no temperature axis
+  const temperatures = points.map((point) => point.temperature).filter((value) => value > 0);
+  const temperatureAxis = temperatures.length > 0 ? createLogAxis(temperatures.map((value) => Math.log10(value))) : undefined;
+
+  const parts: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" ` +
+      `font-family="sans-serif" font-size="12">`,
+    `<rect width="${width}" height="${height}" fill="#ffffff"/>`,
+    `<text x="${MARGIN.left}" y="24" font-size="16" fill="${COLORS.text}">${escapeXml(title)}</text>`,
+  ];
+
+  // Fitness grid and axis (left)
+  for (let exponent = fitnessAxis.min; exponent <= fitnessAxis.max; exponent++) {
+    const y = MARGIN.top + fitnessAxis.position(exponent, plotHeight);
+    const label = exponent === 0 ? "0" : formatPower(exponent);
+    parts.push(
+      `<line x1="${MARGIN.left}" y1="${round(y)}" x2="${MARGIN.left + plotWidth}" y2="${round(y)}" stroke="${COLORS.grid}"/>`,
+      `<text x="${MARGIN.left - 8}" y="${round(y + 4)}" text-anchor="end" fill="${COLORS.text}">${label}</text>`
+    );
+  }
+
+  // Temperature axis (right)
+  if (temperatureAxis) {
+    for (let exponent = temperatureAxis.min; exponent <= temperatureAxis.max; exponent++) {
+      const y = MARGIN.top + temperatureAxis.position(exponent, plotHeight);
+      parts.push(
+        `<text x="${MARGIN.left + plotWidth + 8}" y="${round(y + 4)}" fill="${COLORS.temperature}">${formatPower(exponent)}</text>`
+      );
+    }
+  }
+
+  // Iteration axis
+  for (let i = 0; i <= 5; i++) {
+    const iteration = Math.round(firstIteration + (iterationSpan * i) / 5);
+    parts.push(
+      `<text x="${round(x(iteration))}" y="${bottom + 18}" text-anchor="middle" fill="${COLORS.text}">${iteration}</text>`
+    );
+  }
+  parts.push(
+    `<rect x="${MARGIN.left}" y="${MARGIN.top}" width="${plotWidth}" height="${plotHeight}" fill="none" stroke="${COLORS.text}"/>`,
+    `<text x="${MARGIN.left + plotWidth / 2}" y="${height - 8}" text-anchor="middle" fill="${COLORS.text}">Iteration</text>`,
+    `<text transform="translate(20 ${MARGIN.top + plotHeight / 2}) rotate(-90)" text-anchor="middle" ` +
+      `fill="${COLORS.text}">Fitness (log)</text>`
+  );
+  if (temperatureAxis) {
+    parts.push(
+      `<text transform="translate(${width - 16} ${MARGIN.top + plotHeight / 2}) rotate(90)" text-anchor="middle" ` +
+        `fill="${COLORS.temperature}">Temperature (log)</text>`
+    );
+  }
+
+  // Phase 2 and reheat markers
+  const phase2 = points.find((point) => point.phase === 2);
+  if (phase2 && points[0]!.phase === 1) {
+    parts.push(marker(x(phase2.iteration), bottom, COLORS.phase, "4 4"));
+    parts.push(
+      `<text x="${round(x(phase2.iteration) + 4)}" y="${MARGIN.top + 14}" fill="${COLORS.phase}">Phase 2</text>`
+    );
+  }
+  for (let i = 1; i < points.length; i++) {
+    if (points[i]!.reheats > points[i - 1]!.reheats) {
+      parts.push(marker(x(points[i]!.iteration), bottom, COLORS.reheat, "2 3"));
+    }
+  }
+
+  // Series
+  parts.push(
+    polyline(points, x, (point) => MARGIN.top + fitnessY(point.currentFitness), COLORS.current, 1),
+    polyline(points, x, (point) => MARGIN.top + fitnessY(point.bestFitness), COLORS.best, 2)
+  );
+  if (temperatureAxis) {
+    const warm = points.filter((point) => point.temperature > 0);
+    const temperatureY = (point: TracePoint): number =>
+      MARGIN.top + temperatureAxis.position(Math.log10(point.temperature), plotHeight);
+    parts.push(polyline(warm, x, temperatureY, COLORS.temperature, 1, "6 3"));
+  }
+
+  // Legend
+  const legend: [string, string][] = [
+    ["Current fitness", COLORS.current],
+    ["Best fitness", COLORS.best],
+  ];
+  if (temperatureAxis) legend.push(["Temperature", COLORS.temperature]);
+  if (points.some((point, i) => i > 0 && point.reheats > points[i - 1]!.reheats)) legend.push(["Reheat", COLORS.reheat]);
+
+  let legendX = MARGIN.left + plotWidth;
+  for (const [label, color] of [...legend].reverse()) {
+    legendX -= label.length * 7 + 28;
+    parts.push(
+      `<line x1="${legendX}" y1="20" x2="${legendX + 16}" y2="20" stroke="${color}" stroke-width="2"/>`,
+      `<text x="${legendX + 20}" y="24" fill="${COLORS.text}">${label}</text>`
+    );
+  }
+
+  parts.push("</svg>");
+  return parts.join("\n") + "\n";
+}
+
+/**
+ * A logarithmic axis over whole powers of ten
+ */
+interface LogAxis {
+  min: number; // Exponents of the lowest and highest tick
+  max: number;
+  position(exponent: number, plotHeight: number): number; // Offset from the top of the plot
+}
+
+function createLogAxis(exponents: number[]): LogAxis {
+  // reduce() rather than spreading: traces can hold more points than a call takes arguments
+  const min = exponents.length > 0 ? Math.floor(exponents.reduce((a, b) => Math.min(a, b))) : 0;
+  const max = Math.max(min + 1, exponents.length > 0 ? Math.ceil(exponents.reduce((a, b) => Math.max(a, b))) : 1);
+  return {
+    min,
+    max,
+    position: (exponent, plotHeight) => plotHeight - ((exponent - min) / (max - min)) * plotHeight,
+  };
+}
+
+function polyline(
+  points: TracePoint[],
+  x: (iteration: number) => number,
+  y: (point: TracePoint) => number,
+  color: string,
+  strokeWidth: number,
+  dash?: string
+): string {
+  const coordinates = points.map((point) => `${round(x(point.iteration))},${round(y(point))}`).join(" ");
+  const dashAttribute = dash ? ` stroke-dasharray="${dash}"` : "";
+  return `<polyline points="${coordinates}" fill="none" stroke="${color}" stroke-width="${strokeWidth}"${dashAttribute}/>`;
+}
+
+function marker(x: number, bottom: number, color: string, dash: string): string {
+  return `<line x1="${round(x)}" y1="${MARGIN.top}" x2="${round(x)}" y2="${bottom}" stroke="${color}" stroke-dasharray="${dash}"/>`;
+}
+
+function formatPower(exponent: number): string {
+  return exponent >= 0 && exponent <= 4 ? String(10 ** exponent) : `1e${exponent}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
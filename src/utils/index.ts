@@ -15,4 +15,8 @@ export { canUseExclusiveRoom, isRoomAvailable, getAvailableRooms } from "./room-
 
 export { generateTimetablePDFs } from "./pdf-generator.js";
 
+export { renderConvergenceChart } from "./convergence-chart.js";
+
 export { hasClassOverlap } from "./class-helper.js";
+
+export { SeededRandom, createRandom, generateSeed, randomInt, randomChoice } from "./random.js";
@@ -208,3 +208,16 @@ export class Logger {
 export function createLogger(config?: LoggingConfig): Logger {
   return new Logger(config);
 }
+
+/**
+ * Where a solver prints its progress messages (console, or SILENT_OUTPUT when quiet)
+ */
+export type ConsoleOutput = Pick<Console, "log" | "warn">;
+
+/**
+ * Progress output of a quiet solver
+ */
+export const SILENT_OUTPUT: ConsoleOutput = {
+  log: () => {},
+  warn: () => {},
+};
@@ -7,6 +7,8 @@ import PDFDocument from "pdfkit";
 import fs from "fs";
 import path from "path";
 import type { ScheduleEntry } from "../types/index.js";
+import { DEFAULT_DAYS } from "../constants/index.js";
+import type { TimeSlotRegistry } from "../constants/index.js";
 
 interface TimetableData {
   class: string;
@@ -14,7 +16,6 @@ interface TimetableData {
   entries: ScheduleEntry[];
 }
 
-const DAYS = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
 const TIME_PERIODS = [
   { period: 1, time: "07:30 - 08:20" },
   { period: 2, time: "08:20 - 09:10" },
@@ -104,7 +105,7 @@ function timeToMinutes(time: string): number {
   return (hours ?? 0) * 60 + (minutes ?? 0);
 }
 
-function generatePDF(data: TimetableData, outputPath: string): void {
+function generatePDF(data: TimetableData, outputPath: string, days: readonly string[]): void {
   const doc = new PDFDocument({
     size: "A4",
     layout: "landscape",
@@ -133,7 +134,7 @@ function generatePDF(data: TimetableData, outputPath: string): void {
 
   const tableWidth = pageWidth - marginLeft - marginRight;
   const dayColumnWidth = 60;
-  const cellWidth = (tableWidth - dayColumnWidth) / DAYS.length;
+  const cellWidth = (tableWidth - dayColumnWidth) / days.length;
   const rowHeight = 28;
 
   // Draw table header (Days)
@@ -149,7 +150,7 @@ function generatePDF(data: TimetableData, outputPath: string): void {
   x += dayColumnWidth;
 
   // Day headers
-  for (const day of DAYS) {
+  for (const day of days) {
     doc.rect(x, y, cellWidth, rowHeight).stroke();
     doc.text(day.substring(0, 2), x + 5, y + 12, {
       width: cellWidth - 10,
@@ -193,7 +194,7 @@ function generatePDF(data: TimetableData, outputPath: string): void {
     x += dayColumnWidth;
 
     // Schedule cells for each day
-    for (const day of DAYS) {
+    for (const day of days) {
       if (isBreak) {
         // Break cell
         doc.rect(x, y, cellWidth, rowHeight).fillAndStroke("#E0E0E0", "#000000");
@@ -269,13 +270,20 @@ function generatePDF(data: TimetableData, outputPath: string): void {
   doc.end();
 }
 
+/**
+ * Generate timetable PDFs from a saved solution
+ * Pass the solver's time slots (solver.getTimeSlots()) to draw its days; defaults to Monday-Saturday
+ */
 export function generateTimetablePDFs(
   solutionPath: string,
   outputDir: string,
-  singleFile: boolean = false
+  singleFile: boolean = false,
+  timeSlots?: TimeSlotRegistry
 ): void {
   console.log("📄 Generating timetable PDFs...\n");
 
+  const days = timeSlots?.days ?? DEFAULT_DAYS;
+
   // Read solution
   const solutionData = JSON.parse(fs.readFileSync(solutionPath, "utf8"));
   const schedule: ScheduleEntry[] = solutionData.schedule;
@@ -302,7 +310,7 @@ export function generateTimetablePDFs(
     // Generate single PDF with all timetables
     const filename = "all-timetables.pdf";
     const outputPath = path.join(outputDir, filename);
-    generateSinglePDF(Array.from(filteredGrouped.values()), outputPath);
+    generateSinglePDF(Array.from(filteredGrouped.values()), outputPath, days);
     console.log(`\n🎉 Successfully generated single PDF with ${filteredGrouped.size} timetables!`);
     console.log(`📁 File: ${outputPath}`);
   } else {
@@ -312,7 +320,7 @@ export function generateTimetablePDFs(
       const filename = `${classKey.replace(/\//g, "-").replace(/,/g, "_")}.pdf`;
       const outputPath = path.join(outputDir, filename);
 
-      generatePDF(data, outputPath);
+      generatePDF(data, outputPath, days);
       count++;
 
       console.log(`✅ Generated: ${filename} (${data.entries.length} classes)`);
@@ -323,7 +331,7 @@ export function generateTimetablePDFs(
   }
 }
 
-function generateSinglePDF(allData: TimetableData[], outputPath: string): void {
+function generateSinglePDF(allData: TimetableData[], outputPath: string, days: readonly string[]): void {
   const doc = new PDFDocument({
     size: "A4",
     layout: "landscape",
@@ -337,13 +345,13 @@ function generateSinglePDF(allData: TimetableData[], outputPath: string): void {
     if (index > 0) {
       doc.addPage();
     }
-    drawTimetablePage(doc, data);
+    drawTimetablePage(doc, data, days);
   });
 
   doc.end();
 }
 
-function drawTimetablePage(doc: PDFKit.PDFDocument, data: TimetableData): void {
+function drawTimetablePage(doc: PDFKit.PDFDocument, data: TimetableData, days: readonly string[]): void {
   // Title
   doc.fontSize(14).font("Helvetica-Bold");
   doc.text(`Jadwal Kuliah Semester Gasal T.A. 2025/2026`, { align: "center" });
@@ -363,7 +371,7 @@ function drawTimetablePage(doc: PDFKit.PDFDocument, data: TimetableData): void {
 
   const tableWidth = pageWidth - marginLeft - marginRight;
   const dayColumnWidth = 60;
-  const cellWidth = (tableWidth - dayColumnWidth) / DAYS.length;
+  const cellWidth = (tableWidth - dayColumnWidth) / days.length;
   const rowHeight = 28;
 
   // Draw table header (Days)
@@ -379,7 +387,7 @@ function drawTimetablePage(doc: PDFKit.PDFDocument, data: TimetableData): void {
   x += dayColumnWidth;
 
   // Day headers
-  for (const day of DAYS) {
+  for (const day of days) {
     doc.rect(x, y, cellWidth, rowHeight).stroke();
     doc.text(day.substring(0, 2), x + 5, y + 12, {
       width: cellWidth - 10,
@@ -423,7 +431,7 @@ function drawTimetablePage(doc: PDFKit.PDFDocument, data: TimetableData): void {
     x += dayColumnWidth;
 
     // Schedule cells for each day
-    for (const day of DAYS) {
+    for (const day of days) {
       if (isBreak) {
         // Break cell
         doc.rect(x, y, cellWidth, rowHeight).fillAndStroke("#E0E0E0", "#000000");
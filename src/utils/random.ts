@@ -0,0 +1,67 @@
+/**
+ * Seedable pseudo-random number generation
+ * Allows solver runs to be replayed exactly from a seed
+ */
+
+import type { RandomNumberGenerator } from "../types/index.js";
+
+/**
+ * Mulberry32 generator: small, fast and good enough for stochastic search
+ *
+ * The whole state is a single 32-bit integer, so it can be read and restored
+ * to continue a sequence exactly where it left off.
+ */
+export class SeededRandom implements RandomNumberGenerator {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Next float in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
+
+/**
+ * Generate a fresh 32-bit seed for runs that did not specify one
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Create a seeded generator (a random seed is drawn when none is given)
+ */
+export function createRandom(seed?: number): SeededRandom {
+  return new SeededRandom(seed ?? generateSeed());
+}
+
+/**
+ * Random integer in [0, max)
+ */
+export function randomInt(rng: RandomNumberGenerator, max: number): number {
+  return Math.floor(rng.next() * max);
+}
+
+/**
+ * Pick a random element from a non-empty array
+ */
+export function randomChoice<T>(rng: RandomNumberGenerator, items: T[]): T {
+  return items[randomInt(rng, items.length)]!;
+}
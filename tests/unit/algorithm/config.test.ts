@@ -119,6 +119,19 @@ describe('Algorithm Configuration', () => {
         DEFAULT_ALGORITHM_CONFIG.softConstraintWeights.transitTime
       );
     });
+
+    it('should merge temperature calibration settings', () => {
+      const result = mergeConfig({
+        initialTemperature: 'auto',
+        temperatureCalibration: { targetAcceptanceRatio: 0.6 },
+      });
+
+      expect(result.initialTemperature).toBe('auto');
+      expect(result.temperatureCalibration.targetAcceptanceRatio).toBe(0.6);
+      expect(result.temperatureCalibration.samples).toBe(
+        DEFAULT_ALGORITHM_CONFIG.temperatureCalibration.samples
+      );
+    });
   });
 
   describe('Time Slot Configuration Merge', () => {
@@ -0,0 +1,112 @@
+/**
+ * Unit tests for cooling schedules
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  createCoolingSchedule,
+  geometricCooling,
+  linearCooling,
+  logarithmicCooling,
+  lundyMeesCooling,
+  adaptiveCooling,
+  AcceptanceWindow,
+} from '../../../src/algorithm/cooling.js';
+import type { CoolingFunction, CoolingStats } from '../../../src/types/index.js';
+
+const params = {
+  initialTemperature: 1000,
+  minTemperature: 0.01,
+  maxIterations: 500,
+  coolingRate: 0.99,
+};
+
+function makeStats(acceptanceRatio: number = 0.5): CoolingStats {
+  return {
+    phase: 2,
+    initialTemperature: params.initialTemperature,
+    minTemperature: params.minTemperature,
+    maxIterations: params.maxIterations,
+    acceptanceRatio,
+    currentFitness: 100,
+    bestFitness: 100,
+    reheats: 0,
+  };
+}
+
+/**
+ * Temperature after running a schedule for the whole run
+ */
+function run(schedule: CoolingFunction): number {
+  let temperature = params.initialTemperature;
+  for (let iteration = 0; iteration < params.maxIterations; iteration++) {
+    temperature = schedule(iteration, temperature, makeStats());
+  }
+  return temperature;
+}
+
+describe('Cooling schedules', () => {
+  it('should multiply by the cooling rate in geometric cooling', () => {
+    expect(geometricCooling(0.9)(0, 100, makeStats())).toBe(90);
+  });
+
+  it('should reach the minimum temperature at maxIterations in linear cooling', () => {
+    const schedule = linearCooling(params);
+
+    expect(schedule(0, 1000, makeStats())).toBeCloseTo(1000 - (1000 - 0.01) / 500);
+    expect(run(schedule)).toBeCloseTo(params.minTemperature);
+  });
+
+  it('should follow T0 / (1 + alpha * ln(1 + k)) in logarithmic cooling', () => {
+    const alpha = 2;
+    let temperature = params.initialTemperature;
+    for (let k = 0; k < 10; k++) {
+      temperature = logarithmicCooling(alpha)(k, temperature, makeStats());
+    }
+
+    expect(temperature).toBeCloseTo(params.initialTemperature / (1 + alpha * Math.log(11)));
+  });
+
+  it('should reach the minimum temperature at maxIterations in Lundy-Mees cooling', () => {
+    expect(run(lundyMeesCooling(params))).toBeCloseTo(params.minTemperature);
+    expect(lundyMeesCooling(params, 0.001)(0, 100, makeStats())).toBeCloseTo(100 / 1.1);
+  });
+
+  it('should cool above the target acceptance ratio and heat below it', () => {
+    const schedule = adaptiveCooling(params, 0.5);
+
+    expect(schedule(0, 100, makeStats(0.8))).toBeCloseTo(99);
+    expect(schedule(0, 100, makeStats(0.2))).toBeCloseTo(100 / 0.99);
+    // The target decreases over the run
+    expect(schedule(400, 100, makeStats(0.2))).toBeCloseTo(99);
+  });
+
+  it('should resolve names, configs and custom functions', () => {
+    const custom: CoolingFunction = (_iteration, temperature) => temperature - 1;
+
+    expect(createCoolingSchedule('geometric', params)(0, 100, makeStats())).toBe(99);
+    expect(createCoolingSchedule({ type: 'lundy-mees', beta: 0.001 }, params)(0, 100, makeStats())).toBeCloseTo(100 / 1.1);
+    expect(createCoolingSchedule(custom, params)).toBe(custom);
+  });
+
+  it('should reject unknown schedule names', () => {
+    expect(() => createCoolingSchedule('exponential' as 'geometric', params)).toThrow('Unknown cooling schedule');
+  });
+});
+
+describe('AcceptanceWindow', () => {
+  it('should only count the most recent outcomes', () => {
+    const window = new AcceptanceWindow(4);
+    expect(window.ratio).toBe(1);
+
+    window.record(true);
+    window.record(false);
+    expect(window.ratio).toBe(0.5);
+
+    window.record(false);
+    window.record(false);
+    window.record(false);
+    window.record(false);
+    expect(window.ratio).toBe(0);
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Unit tests for full and delta fitness evaluation
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { FitnessEvaluator, DeltaFitnessEvaluator, SOFT_PENALTY_TERMS } from '../../../src/algorithm/fitness-evaluator.js';
+import { DEFAULT_SOFT_CONSTRAINT_WEIGHTS } from '../../../src/algorithm/config.js';
+import { ConstraintChecker } from '../../../src/constraints/checker.js';
+import { SeededRandom } from '../../../src/utils/random.js';
+import { calculateEndTime } from '../../../src/utils/time.js';
+import type { Room, Lecturer, ScheduleEntry, CustomConstraint, ConstraintRule } from '../../../src/types/index.js';
+
+const rooms: Room[] = [
+  { Code: 'CM-101', Name: 'Classroom 101', Type: 'Regular', Capacity: 40 },
+  { Code: 'CM-102', Name: 'Classroom 102', Type: 'Regular', Capacity: 25 },
+  { Code: 'CM-206', Name: 'Computer Lab', Type: 'Lab', Capacity: 40 },
+];
+
+const lecturers: Lecturer[] = [
+  {
+    'Prodi Code': 'IF',
+    Code: 'L001',
+    Name: 'Dr. John Doe',
+    Prefered_Time: '08.00 - 10.00 monday, 13.00 - 15.00 wednesday',
+    Research_Day: 'Friday',
+    Transit_Time: 15,
+    Max_Daily_Periods: 4,
+    Prefered_Room: 'CM-101',
+  },
+  {
+    'Prodi Code': 'IF',
+    Code: 'L002',
+    Name: 'Dr. Jane Smith',
+    Prefered_Time: '10.00 - 12.00 tuesday',
+    Research_Day: 'Thursday',
+    Transit_Time: 30,
+    Max_Daily_Periods: 6,
+    Prefered_Room: 'CM-102',
+  },
+];
+
+const DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Friday'];
+const START_TIMES = ['07:30', '08:20', '09:10', '10:00', '13:20', '15:30', '18:30'];
+const ROOM_CODES = rooms.map((r) => r.Code);
+
+function pick<T>(rng: SeededRandom, items: T[]): T {
+  return items[Math.floor(rng.next() * items.length)]!;
+}
+
+function place(entry: ScheduleEntry, day: string, startTime: string, room: string): void {
+  const calc = calculateEndTime(startTime, entry.sks, day);
+  entry.timeSlot = { day, startTime, endTime: calc.endTime, period: 1 };
+  entry.prayerTimeAdded = calc.prayerTimeAdded;
+  entry.room = room;
+}
+
+function randomSchedule(rng: SeededRandom, size: number): ScheduleEntry[] {
+  const schedule: ScheduleEntry[] = [];
+  for (let i = 0; i < size; i++) {
+    const entry: ScheduleEntry = {
+      classId: `IF${100 + i}`,
+      className: `Course ${i}`,
+      class: pick(rng, ['IF-1A', 'IF-1B', 'IF-3A']),
+      prodi: 'INFORMATIKA',
+      lecturers: [pick(rng, ['L001', 'L002'])],
+      room: '',
+      timeSlot: { day: '', startTime: '', endTime: '', period: 1 },
+      sks: pick(rng, [2, 3]),
+      needsLab: rng.next() < 0.3,
+      participants: 30,
+      classType: rng.next() < 0.3 ? 'sore' : 'pagi',
+      prayerTimeAdded: 0,
+    };
+    place(entry, pick(rng, DAYS), pick(rng, START_TIMES), pick(rng, ROOM_CODES));
+    schedule.push(entry);
+  }
+  return schedule;
+}
+
+function createEvaluator(customConstraints?: CustomConstraint[], rules?: ConstraintRule[]): FitnessEvaluator {
+  const checker = new ConstraintChecker(rooms, lecturers, undefined, undefined, customConstraints, rules);
+  return new FitnessEvaluator(checker, 100000, DEFAULT_SOFT_CONSTRAINT_WEIGHTS);
+}
+
+/**
+ * Apply random moves/swaps, comparing delta and full results at every step
+ */
+function runRandomMoves(evaluator: FitnessEvaluator, seed: number, steps: number): void {
+  const rng = new SeededRandom(seed);
+  const delta = new DeltaFitnessEvaluator(evaluator);
+  let current = randomSchedule(rng, 20);
+
+  expect(delta.reset(current)).toEqual(evaluator.evaluate(current));
+
+  for (let step = 0; step < steps; step++) {
+    const neighbor = current.map((e) => ({ ...e, timeSlot: { ...e.timeSlot } }));
+    const changed: number[] = [];
+
+    if (rng.next() < 0.5) {
+      const idx = Math.floor(rng.next() * neighbor.length);
+      place(neighbor[idx]!, pick(rng, DAYS), pick(rng, START_TIMES), pick(rng, ROOM_CODES));
+      changed.push(idx);
+    } else {
+      const idx1 = Math.floor(rng.next() * neighbor.length);
+      const idx2 = Math.floor(rng.next() * neighbor.length);
+      const e1 = neighbor[idx1]!;
+      const e2 = neighbor[idx2]!;
+      const slot1 = { ...e1.timeSlot };
+      place(e1, e2.timeSlot.day, e2.timeSlot.startTime, e1.room);
+      place(e2, slot1.day, slot1.startTime, e2.room);
+      changed.push(idx1, idx2);
+    }
+
+    expect(delta.evaluate(neighbor, changed)).toEqual(evaluator.evaluate(neighbor));
+
+    if (rng.next() < 0.6) {
+      delta.commit();
+      current = neighbor;
+    } else {
+      delta.discard();
+    }
+  }
+}
+
+describe('FitnessEvaluator', () => {
+  it('should weight hard violations by the hard constraint weight', () => {
+    const evaluator = createEvaluator();
+    const schedule = randomSchedule(new SeededRandom(1), 15);
+    const result = evaluator.evaluate(schedule);
+
+    expect(result.fitness).toBe(
+      (result.hardViolations + result.customHardViolations) * 100000 + result.softPenalty
+    );
+  });
+
+  it('should score an empty schedule as zero', () => {
+    expect(createEvaluator().evaluate([])).toEqual({
+      fitness: 0,
+      hardViolations: 0,
+      customHardViolations: 0,
+      softPenalty: 0,
+    });
+  });
+
+  it('should total each soft penalty term when asked', () => {
+    const checker = new ConstraintChecker(rooms, lecturers);
+    const evaluator = new FitnessEvaluator(checker, 100000, DEFAULT_SOFT_CONSTRAINT_WEIGHTS, true);
+    const schedule = randomSchedule(new SeededRandom(2), 15);
+    const result = evaluator.evaluate(schedule);
+
+    expect(result.softTerms).toHaveLength(SOFT_PENALTY_TERMS.length);
+    expect(result.softTerms!.reduce((sum, term) => sum + term, 0)).toBeCloseTo(result.softPenalty);
+    expect(new DeltaFitnessEvaluator(evaluator).reset(schedule)).toEqual(result);
+    expect(createEvaluator().evaluate(schedule).softTerms).toBeUndefined();
+  });
+
+  it('should measure the soft terms under the current weights', () => {
+    const checker = new ConstraintChecker(rooms, lecturers);
+    const evaluator = new FitnessEvaluator(checker, 100000, DEFAULT_SOFT_CONSTRAINT_WEIGHTS, true);
+    const schedule = randomSchedule(new SeededRandom(3), 15);
+    const researchDay = SOFT_PENALTY_TERMS.indexOf('researchDay');
+    place(schedule[0]!, 'Friday', '07:30', 'CM-101'); // L001's research day
+
+    expect(evaluator.measureSoftTerms(schedule)).toEqual(evaluator.evaluate(schedule).softTerms);
+    expect(evaluator.measureSoftTerms(schedule)[researchDay]).toBeGreaterThan(0);
+
+    evaluator.setSoftConstraintWeights({ ...DEFAULT_SOFT_CONSTRAINT_WEIGHTS, researchDay: 0 });
+    expect(evaluator.measureSoftTerms(schedule)[researchDay]).toBe(0);
+    expect(evaluator.measureSoftTerms(schedule)).toEqual(evaluator.evaluate(schedule).softTerms);
+  });
+});
+
+describe('DeltaFitnessEvaluator', () => {
+  it('should match the full evaluation after random moves and swaps', () => {
+    for (const seed of [1, 2, 3]) {
+      runRandomMoves(createEvaluator(), seed, 150);
+    }
+  });
+
+  it('should match the full evaluation with custom constraints', () => {
+    const customConstraints: CustomConstraint[] = [
+      {
+        name: 'No Monday',
+        description: 'Avoid Monday',
+        type: 'hard',
+        checkFunction: (_schedule, entry) => entry.timeSlot.day !== 'Monday',
+      },
+      {
+        name: 'Few earlier classes',
+        description: 'Depends on the whole prefix',
+        type: 'soft',
+        weight: 3,
+        checkFunction: (schedule) => 1 / (1 + schedule.length / 10),
+      },
+    ];
+
+    runRandomMoves(createEvaluator(customConstraints), 4, 100);
+  });
+
+  it('should rescore rules with the built-in constraints of the changed days', () => {
+    const rules: ConstraintRule[] = [
+      { name: 'No Monday for IF-1A', type: 'hard', rule: 'avoid-days', class: 'IF-1A', days: ['Monday'] },
+      { name: 'Short days', type: 'soft', weight: 4, rule: 'max-daily-periods', per: 'class', max: 5 },
+      { name: 'L002 not in CM-102', type: 'soft', rule: 'allowed-rooms', lecturer: 'L002', rooms: ['CM-101', 'CM-206'] },
+    ];
+    const evaluator = createEvaluator(undefined, rules);
+    const schedule = randomSchedule(new SeededRandom(5), 20);
+
+    expect(evaluator.usesCustomConstraints()).toBe(false);
+    expect(evaluator.evaluate(schedule).customHardViolations).toBeGreaterThan(0);
+    expect(evaluator.evaluate(schedule).softPenalty).toBeGreaterThan(createEvaluator().evaluate(schedule).softPenalty);
+    runRandomMoves(evaluator, 5, 150);
+  });
+
+  it('should keep the current schedule when a neighbour is discarded', () => {
+    const evaluator = createEvaluator();
+    const delta = new DeltaFitnessEvaluator(evaluator);
+    const schedule = randomSchedule(new SeededRandom(9), 10);
+    const initial = delta.reset(schedule);
+
+    const neighbor = schedule.map((e) => ({ ...e, timeSlot: { ...e.timeSlot } }));
+    place(neighbor[0]!, 'Friday', '07:30', 'CM-102');
+    delta.evaluate(neighbor, [0]);
+    delta.discard();
+
+    expect(delta.evaluate(schedule, [])).toEqual(initial);
+  });
+});
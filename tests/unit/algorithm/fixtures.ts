@@ -0,0 +1,64 @@
+/**
+ * Shared problem data for the solver tests
+ */
+
+import type { Room, Lecturer, ClassRequirement } from '../../../src/types/index.js';
+
+export const rooms: Room[] = [
+  { Code: 'CM-101', Name: 'Classroom 101', Type: 'Regular', Capacity: 40 },
+  { Code: 'CM-102', Name: 'Classroom 102', Type: 'Regular', Capacity: 40 },
+  { Code: 'CM-103', Name: 'Classroom 103', Type: 'Regular', Capacity: 40 },
+  { Code: 'CM-206', Name: 'Computer Lab', Type: 'Lab', Capacity: 40 },
+];
+
+export const lecturers: Lecturer[] = [
+  {
+    'Prodi Code': 'IF',
+    Code: 'L001',
+    Name: 'Dr. John Doe',
+    Prefered_Time: '08.00 - 10.00 monday, 13.00 - 15.00 wednesday',
+    Research_Day: 'Friday',
+    Transit_Time: 15,
+    Max_Daily_Periods: 8,
+    Prefered_Room: 'CM-101',
+  },
+  {
+    'Prodi Code': 'IF',
+    Code: 'L002',
+    Name: 'Dr. Jane Smith',
+    Prefered_Time: '10.00 - 12.00 tuesday',
+    Research_Day: 'Thursday',
+    Transit_Time: 30,
+    Max_Daily_Periods: 6,
+    Prefered_Room: 'CM-102',
+  },
+];
+
+export function makeClass(code: string, kelas: string, lecturer: string, overrides: Partial<ClassRequirement> = {}): ClassRequirement {
+  return {
+    Prodi: 'INFORMATIKA',
+    Kelas: kelas,
+    Kode_Matakuliah: code,
+    Mata_Kuliah: `Course ${code}`,
+    SKS: 2,
+    Jenis: 'Teori',
+    Peserta: 30,
+    Kode_Dosen1: lecturer,
+    Kode_Dosen2: '',
+    Kode_Dosen_Prodi_Lain1: '',
+    Kode_Dosen_Prodi_Lain2: '',
+    Class_Type: 'pagi',
+    should_on_the_lab: 'no',
+    rooms: '',
+    ...overrides,
+  };
+}
+
+export const classes: ClassRequirement[] = [
+  makeClass('IF101', 'IF-1A', 'L001'),
+  makeClass('IF102', 'IF-1A', 'L002'),
+  makeClass('IF103', 'IF-1B', 'L001'),
+  makeClass('IF104', 'IF-1B', 'L002', { should_on_the_lab: 'yes' }),
+  makeClass('IF105', 'IF-3A', 'L001', { SKS: 3 }),
+  makeClass('IF106', 'IF-3A', 'L002', { Class_Type: 'sore' }),
+];
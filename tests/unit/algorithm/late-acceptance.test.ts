@@ -0,0 +1,91 @@
+/**
+ * Unit tests for the Late Acceptance Hill Climbing solver
+ */
+
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import { LateAcceptanceHillClimbing } from '../../../src/algorithm/late-acceptance.js';
+import { readCheckpoint } from '../../../src/algorithm/checkpoint.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { AlgorithmConfig, SolverProgressEvent } from '../../../src/types/index.js';
+import { rooms, lecturers, classes } from './fixtures.js';
+
+const baseConfig: AlgorithmConfig = {
+  maxIterations: 400,
+  seed: 22,
+  lateAcceptance: { historyLength: 50 },
+};
+
+describe('LateAcceptanceHillClimbing', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should produce identical solutions for the same seed, with delta or full evaluation', () => {
+    const solution = new LateAcceptanceHillClimbing(rooms, lecturers, classes, baseConfig).solve();
+    const again = new LateAcceptanceHillClimbing(rooms, lecturers, classes, baseConfig).solve();
+    const full = new LateAcceptanceHillClimbing(rooms, lecturers, classes, {
+      ...baseConfig,
+      fitnessEvaluation: 'full',
+    }).solve();
+
+    expect(solution.schedule).toHaveLength(classes.length);
+    expect(solution.metadata?.algorithm).toBe('late-acceptance');
+    expect(solution.metadata?.iterations).toBe(400);
+    expect(again.schedule).toEqual(solution.schedule);
+    expect(full.schedule).toEqual(solution.schedule);
+  });
+
+  it('should never accept a worse neighbour with a history of one', async () => {
+    const fitness: number[] = [];
+    await new LateAcceptanceHillClimbing(rooms, lecturers, classes, {
+      ...baseConfig,
+      lateAcceptance: { historyLength: 1 },
+    }).solveAsync({
+      batchSize: 1,
+      onProgress: (event: SolverProgressEvent) => fitness.push(event.currentFitness),
+    });
+
+    expect(fitness.length).toBeGreaterThan(100);
+    expect(fitness.every((value, i) => i === 0 || value <= fitness[i - 1]!)).toBe(true);
+  });
+
+  it('should keep delta and full scores in step when the soft weights change', () => {
+    const solution = new LateAcceptanceHillClimbing(rooms, lecturers, classes, {
+      ...baseConfig,
+      fitnessEvaluation: 'verify',
+      adaptiveWeights: { interval: 50 },
+    }).solve();
+
+    expect(solution.metadata?.adaptiveWeights?.updates).toBeGreaterThan(0);
+  });
+
+  it('should resume from a checkpoint with the same history', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'timetable-sa-'));
+    const filePath = path.join(dir, 'lahc.json');
+    try {
+      const config: AlgorithmConfig = { ...baseConfig, checkpoint: { filePath, interval: 150 } };
+      const solution = new LateAcceptanceHillClimbing(rooms, lecturers, classes, config).solve();
+      expect(readCheckpoint(filePath).algorithm).toBe('late-acceptance');
+
+      const resumed = new LateAcceptanceHillClimbing(rooms, lecturers, classes, config).resume(filePath);
+      expect(resumed.schedule).toEqual(solution.schedule);
+      expect(resumed.fitness).toBe(solution.fitness);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should reject a history that is not a whole number of at least 1', () => {
+    for (const historyLength of [0, -10, 2.5, NaN]) {
+      expect(() => new LateAcceptanceHillClimbing(rooms, lecturers, classes, { lateAcceptance: { historyLength } }))
+        .toThrow('lateAcceptance.historyLength must be a whole number of at least 1');
+    }
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Unit tests for locked placements
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  normalizeLockTime,
+  getClassLock,
+  isClassLocked,
+  isFullyLocked,
+  allowsTimeSlot,
+  allowsRoom,
+} from '../../../src/algorithm/locks.js';
+import type { ClassRequirement, TimeSlot } from '../../../src/types/index.js';
+
+function makeClass(overrides: Partial<ClassRequirement> = {}): ClassRequirement {
+  return {
+    Prodi: 'INFORMATIKA',
+    Kelas: 'IF-1A',
+    Kode_Matakuliah: 'IF101',
+    Mata_Kuliah: 'Algorithms',
+    SKS: 2,
+    Jenis: 'Teori',
+    Peserta: 30,
+    Kode_Dosen1: 'L001',
+    Kode_Dosen2: '',
+    Kode_Dosen_Prodi_Lain1: '',
+    Kode_Dosen_Prodi_Lain2: '',
+    Class_Type: 'pagi',
+    should_on_the_lab: 'no',
+    rooms: '',
+    ...overrides,
+  };
+}
+
+const slot: TimeSlot = { day: 'Tuesday', startTime: '08:20', endTime: '09:10', period: 2 };
+
+describe('Locks', () => {
+  it('should normalize lock times', () => {
+    expect(normalizeLockTime('8.20')).toBe('08:20');
+    expect(normalizeLockTime('8:2')).toBe('08:20');
+    expect(normalizeLockTime(' 13:20 ')).toBe('13:20');
+    // Excel time cell for 08:20
+    expect(normalizeLockTime(500 / 1440)).toBe('08:20');
+  });
+
+  it('should read locked attributes from a class requirement', () => {
+    expect(getClassLock(makeClass())).toBeUndefined();
+    expect(getClassLock(makeClass({ Locked_Day: 'tuesday', Locked_Time: '8.20', Locked_Room: ' CM-101 ' }))).toEqual({
+      day: 'Tuesday',
+      startTime: '08:20',
+      room: 'CM-101',
+    });
+    expect(getClassLock(makeClass({ Locked_Room: 'CM-101' }))).toEqual({ room: 'CM-101' });
+  });
+
+  it('should recognize whole-class locks', () => {
+    expect(isClassLocked(makeClass({ Locked: 'Yes' }))).toBe(true);
+    expect(isClassLocked(makeClass({ Locked: 'no' }))).toBe(false);
+    expect(isClassLocked(makeClass())).toBe(false);
+  });
+
+  it('should only allow placements that keep the locked attributes', () => {
+    expect(isFullyLocked({ day: 'Tuesday', startTime: '08:20' })).toBe(false);
+    expect(isFullyLocked({ day: 'Tuesday', startTime: '08:20', room: 'CM-101' })).toBe(true);
+
+    expect(allowsTimeSlot(undefined, slot)).toBe(true);
+    expect(allowsTimeSlot({ day: 'Tuesday' }, slot)).toBe(true);
+    expect(allowsTimeSlot({ day: 'Monday' }, slot)).toBe(false);
+    expect(allowsTimeSlot({ startTime: '07:30' }, slot)).toBe(false);
+    expect(allowsTimeSlot({ room: 'CM-101' }, slot)).toBe(true);
+
+    expect(allowsRoom({ day: 'Tuesday' }, 'CM-102')).toBe(true);
+    expect(allowsRoom({ room: 'CM-101' }, 'CM-102')).toBe(false);
+  });
+});
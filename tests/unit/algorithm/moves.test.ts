@@ -0,0 +1,200 @@
+/**
+ * Unit tests for in-place neighbourhood moves
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  PlacementMove,
+  InsertionMove,
+  getPlacement,
+  placeAtTimeSlot,
+  findKempeChain,
+  cloneSchedule,
+  cloneSolution,
+} from '../../../src/algorithm/moves.js';
+import type { ScheduleEntry } from '../../../src/types/index.js';
+
+function makeEntry(classId: string, day: string, startTime: string, room: string): ScheduleEntry {
+  return {
+    classId,
+    className: `Course ${classId}`,
+    class: 'IF-1A',
+    prodi: 'INFORMATIKA',
+    lecturers: ['L001'],
+    room,
+    timeSlot: { day, startTime, endTime: '09:10', period: 1 },
+    sks: 2,
+    needsLab: false,
+    participants: 30,
+    classType: 'pagi',
+    prayerTimeAdded: 0,
+    isOverflowToLab: false,
+  };
+}
+
+describe('Moves', () => {
+  let schedule: ScheduleEntry[];
+
+  beforeEach(() => {
+    schedule = [
+      makeEntry('IF101', 'Monday', '07:30', 'CM-101'),
+      makeEntry('IF102', 'Tuesday', '07:30', 'CM-102'),
+      makeEntry('IF103', 'Wednesday', '07:30', 'CM-103'),
+    ];
+  });
+
+  describe('placeAtTimeSlot', () => {
+    it('should recalculate end time and prayer time from SKS', () => {
+      const entry = schedule[0]!;
+      const placement = placeAtTimeSlot(entry, getPlacement(entry), {
+        day: 'Monday',
+        startTime: '11:00',
+        endTime: '11:50',
+        period: 5,
+      });
+
+      expect(placement.timeSlot.endTime).toBe('13:30');
+      expect(placement.prayerTimeAdded).toBe(50);
+      expect(placement.room).toBe('CM-101');
+    });
+  });
+
+  describe('PlacementMove', () => {
+    it('should change only the listed entries', () => {
+      const original = cloneSchedule(schedule);
+      const move = new PlacementMove([
+        {
+          index: 1,
+          placement: { ...getPlacement(schedule[1]!), room: 'G5-Lab1', isOverflowToLab: true },
+        },
+      ]);
+
+      move.apply(schedule);
+
+      expect(move.indices).toEqual([1]);
+      expect(schedule[1]!.room).toBe('G5-Lab1');
+      expect(schedule[1]!.isOverflowToLab).toBe(true);
+      expect(schedule[0]).toEqual(original[0]);
+      expect(schedule[2]).toEqual(original[2]);
+    });
+
+    it('should restore the schedule on undo', () => {
+      const original = cloneSchedule(schedule);
+      const e0 = schedule[0]!;
+      const e2 = schedule[2]!;
+      const move = new PlacementMove([
+        { index: 0, placement: placeAtTimeSlot(e0, getPlacement(e0), e2.timeSlot) },
+        { index: 2, placement: placeAtTimeSlot(e2, getPlacement(e2), e0.timeSlot) },
+      ]);
+
+      move.apply(schedule);
+      expect(schedule[0]!.timeSlot.day).toBe('Wednesday');
+      expect(schedule[2]!.timeSlot.day).toBe('Monday');
+
+      move.undo(schedule);
+      expect(schedule).toEqual(original);
+    });
+
+    it('should restore a missing overflow flag on undo', () => {
+      delete schedule[0]!.isOverflowToLab;
+      const move = new PlacementMove([
+        { index: 0, placement: { ...getPlacement(schedule[0]!), isOverflowToLab: true } },
+      ]);
+
+      move.apply(schedule);
+      move.undo(schedule);
+
+      expect('isOverflowToLab' in schedule[0]!).toBe(false);
+    });
+  });
+
+  describe('InsertionMove', () => {
+    it('should append the entry after relocating others, and undo both', () => {
+      const original = cloneSchedule(schedule);
+      const inserted = makeEntry('IF104', 'Monday', '07:30', 'CM-101');
+      const relocated = getPlacement(makeEntry('IF101', 'Friday', '07:30', 'CM-101'));
+      const move = new InsertionMove(3, inserted, [{ index: 0, placement: relocated }]);
+
+      expect(move.indices).toEqual([0]);
+      expect(move.classIndex).toBe(3);
+
+      move.apply(schedule);
+      expect(schedule).toHaveLength(4);
+      expect(schedule[3]).toBe(inserted);
+      expect(schedule[0]!.timeSlot.day).toBe('Friday');
+
+      move.undo(schedule);
+      expect(schedule).toEqual(original);
+    });
+  });
+
+  describe('findKempeChain', () => {
+    const entry = (classId: string, startTime: string, lecturer: string, kelas: string, room: string, day = 'Monday') => ({
+      ...makeEntry(classId, day, startTime, room),
+      lecturers: [lecturer],
+      class: kelas,
+      timeSlot: { day, startTime, endTime: startTime === '07:30' ? '09:10' : '10:50', period: startTime === '07:30' ? 1 : 3 },
+    });
+    const longEntry = (classId: string, startTime: string, endTime: string, lecturer: string, kelas: string, room: string) => ({
+      ...entry(classId, startTime, lecturer, kelas, room),
+      timeSlot: { day: 'Monday', startTime, endTime, period: 3 },
+      sks: 3,
+    });
+    const target = { day: 'Monday', startTime: '09:10', endTime: '10:50', period: 3 };
+    let kempeSchedule: ScheduleEntry[];
+
+    beforeEach(() => {
+      kempeSchedule = [
+        entry('A', '07:30', 'L001', 'IF-1A', 'CM-101'),
+        entry('B', '09:10', 'L001', 'IF-1B', 'CM-102'), // same lecturer as A
+        entry('C', '07:30', 'L002', 'IF-2A', 'CM-103'), // same lecturer as D
+        entry('D', '09:10', 'L002', 'IF-1A', 'CM-104'), // same class as A
+        entry('E', '07:30', 'L003', 'IF-3A', 'CM-105'), // unrelated
+        entry('F', '09:10', 'L001', 'IF-1A', 'CM-101', 'Tuesday'), // other day
+      ];
+    });
+
+    it('should collect entries linked by a lecturer or prodi class across the two start times', () => {
+      expect(findKempeChain(kempeSchedule, 0, target)).toEqual([0, 1, 3, 2]);
+      expect(findKempeChain(kempeSchedule, 4, target)).toEqual([4]);
+    });
+
+    it('should carry along the entries in the same room at the other start time', () => {
+      kempeSchedule.push(entry('G', '09:10', 'L004', 'IF-4A', 'CM-105'));
+
+      expect(findKempeChain(kempeSchedule, 4, target)).toEqual([4, 6]);
+    });
+
+    it('should reject an exchange overlapping a multi-SKS class with another start time', () => {
+      kempeSchedule.push(longEntry('G', '10:00', '12:30', 'L003', 'IF-4A', 'CM-106'));
+
+      expect(findKempeChain(kempeSchedule, 4, target)).toBeUndefined();
+    });
+
+    it('should reject an exchange after which two chain entries overlap', () => {
+      // 07:30-09:10 and 09:10-11:40 become 09:10-10:50 and 07:30-10:00
+      kempeSchedule = [
+        entry('A', '07:30', 'L001', 'IF-1A', 'CM-101'),
+        longEntry('B', '09:10', '11:40', 'L001', 'IF-1B', 'CM-102'),
+      ];
+
+      expect(findKempeChain(kempeSchedule, 0, target)).toBeUndefined();
+    });
+  });
+
+  describe('cloneSchedule and cloneSolution', () => {
+    it('should not be affected by moves on the original', () => {
+      const solution = { schedule, fitness: 10, hardViolations: 0, softViolations: 0 };
+      const copy = cloneSolution(solution);
+
+      new PlacementMove([
+        { index: 0, placement: { ...getPlacement(schedule[0]!), room: 'CM-999' } },
+      ]).apply(schedule);
+      schedule[1]!.lecturers.push('L002');
+
+      expect(copy.schedule[0]!.room).toBe('CM-101');
+      expect(copy.schedule[1]!.lecturers).toEqual(['L001']);
+      expect(copy.fitness).toBe(10);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Unit tests for adaptive operator selection
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  createOperatorSelector,
+  getOperatorSelectionName,
+  OperatorUsageTracker,
+  SuccessRateSelector,
+  ProbabilityMatchingSelector,
+  AdaptivePursuitSelector,
+  Ucb1Selector,
+  SlidingWindowSelector,
+} from '../../../src/algorithm/operator-selection.js';
+import type { RandomNumberGenerator } from '../../../src/types/index.js';
+
+const names = ['move', 'swap', 'kempe'];
+
+/**
+ * Generator returning the given values in order (0 afterwards)
+ */
+function sequence(...values: number[]): RandomNumberGenerator {
+  return { next: () => values.shift() ?? 0 };
+}
+
+describe('Operator selection', () => {
+  it('should pick uniformly or by success rate in success-rate selection', () => {
+    const selector = new SuccessRateSelector(sequence(0.1, 0.5, 0.5, 0.99));
+    expect(selector.select(names)).toBe('swap');
+
+    selector.reward('move', 1);
+    selector.reward('swap', 0);
+    // Only move has improved, so the roulette always lands on it
+    expect(selector.select(names)).toBe('move');
+  });
+
+  it('should keep a minimum probability in probability matching', () => {
+    const rng = sequence(0.5, 0.89, 0.91, 0.96);
+    const selector = new ProbabilityMatchingSelector(rng, 0.05, 0.5);
+
+    // No credit yet: uniform
+    expect(selector.select(names)).toBe('swap');
+
+    // q(move) = 0.5, others 0: p = 0.9 / 0.05 / 0.05
+    selector.reward('move', 1);
+    expect(selector.select(names)).toBe('move');
+    expect(selector.select(names)).toBe('swap');
+    expect(selector.select(names)).toBe('kempe');
+  });
+
+  it('should pursue the best operator in adaptive pursuit', () => {
+    const selector = new AdaptivePursuitSelector(sequence(0.89, 0.91, 0.06), names, 0.05, 0.5, 1);
+
+    // move has the best quality: p = 0.9 / 0.05 / 0.05
+    selector.reward('move', 1);
+    expect(selector.select(names)).toBe('move');
+    expect(selector.select(names)).toBe('swap');
+
+    // swap overtakes move: p = 0.05 / 0.9 / 0.05
+    selector.reward('move', 0);
+    selector.reward('swap', 1);
+    expect(selector.select(names)).toBe('swap');
+  });
+
+  it('should try every operator once, then balance reward and exploration in UCB1', () => {
+    const selector = new Ucb1Selector(Math.SQRT2);
+
+    for (const expected of names) {
+      const name = selector.select(names);
+      expect(name).toBe(expected);
+      selector.reward(name, name === 'kempe' ? 1 : 0);
+    }
+    expect(selector.select(names)).toBe('kempe');
+
+    // Unrewarded use lowers kempe's mean until the others' exploration bonus wins
+    for (let i = 0; i < 5; i++) selector.reward('kempe', 0);
+    expect(selector.select(names)).not.toBe('kempe');
+  });
+
+  it('should forget rewards outside the window in sliding-window selection', () => {
+    const selector = new SlidingWindowSelector(sequence(0.5, 0.5), 0.05, 2);
+
+    selector.reward('move', 1);
+    selector.reward('move', 0);
+    selector.reward('move', 0);
+    // No credit left in the window: uniform
+    expect(selector.select(names)).toBe('swap');
+
+    selector.reward('swap', 1);
+    expect(selector.select(names)).toBe('swap');
+  });
+
+  it('should create selectors from names and configs', () => {
+    const rng = sequence();
+    expect(createOperatorSelector('ucb1', names, rng)).toBeInstanceOf(Ucb1Selector);
+    expect(createOperatorSelector({ type: 'adaptive-pursuit', learningRate: 0.5 }, names, rng)).toBeInstanceOf(
+      AdaptivePursuitSelector
+    );
+    expect(getOperatorSelectionName({ type: 'sliding-window', windowSize: 10 })).toBe('sliding-window');
+    expect(() => createOperatorSelector('greedy' as never, names, rng)).toThrow('Unknown operator selection strategy: greedy');
+  });
+
+  it.each(['success-rate', 'probability-matching', 'adaptive-pursuit', 'ucb1', 'sliding-window'] as const)(
+    'should restore the learned state of %s selection',
+    (strategy) => {
+      const draws = [0.1, 0.7, 0.4, 0.9, 0.2, 0.6];
+      const selector = createOperatorSelector(strategy, names, sequence());
+      selector.reward('move', 0);
+      selector.reward('swap', 1);
+      selector.reward('kempe', 0.5);
+      selector.reward('swap', 1);
+
+      const original = createOperatorSelector(strategy, names, sequence(...draws));
+      original.setState(selector.getState());
+      const restored = createOperatorSelector(strategy, names, sequence(...draws));
+      // Checkpoints store the state as JSON
+      restored.setState(JSON.parse(JSON.stringify(selector.getState())));
+
+      expect(restored.getState()).toEqual(selector.getState());
+      for (let i = 0; i < draws.length; i++) {
+        expect(restored.select(names)).toBe(original.select(names));
+      }
+    }
+  );
+
+  it('should count operator choices per phase and per window', () => {
+    const tracker = new OperatorUsageTracker('ucb1', 2);
+    tracker.record(1, 0, 'move', true);
+    tracker.record(1, 1, 'swap', false);
+    tracker.record(1, 2, 'move', false);
+    tracker.record(2, 3, 'kempe', true);
+
+    const usage = tracker.getUsage();
+    expect(usage.strategy).toBe('ucb1');
+    expect(usage.phase1).toEqual({
+      move: { selections: 2, improvements: 1 },
+      swap: { selections: 1, improvements: 0 },
+    });
+    expect(usage.phase2).toEqual({ kempe: { selections: 1, improvements: 1 } });
+    expect(usage.windows.map((w) => [w.phase, w.startIteration, w.iterations])).toEqual([
+      [1, 0, 2],
+      [1, 2, 1],
+      [2, 3, 1],
+    ]);
+  });
+});
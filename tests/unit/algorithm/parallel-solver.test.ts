@@ -0,0 +1,105 @@
+/**
+ * Unit tests for the multi-start parallel solver
+ */
+
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import { ParallelSolver } from '../../../src/algorithm/parallel-solver.js';
+import { SimulatedAnnealing } from '../../../src/algorithm/simulated-annealing.js';
+import { SeededRandom } from '../../../src/utils/random.js';
+import type { AlgorithmConfig } from '../../../src/types/index.js';
+import { rooms, lecturers, classes } from './fixtures.js';
+
+// Loads the TypeScript worker entry point; the default is the compiled one in dist
+const workerScript = new URL('./parallel-worker.fixture.mjs', import.meta.url);
+
+const baseConfig: AlgorithmConfig = {
+  maxIterations: 200,
+  seed: 7,
+};
+
+describe('ParallelSolver', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should reject settings that cannot be sent to or shared by workers', () => {
+    const cases: [AlgorithmConfig, string][] = [
+      [
+        { constraints: { customConstraints: [{ name: 'c', description: 'c', type: 'hard', checkFunction: () => true }] } },
+        'custom constraint functions',
+      ],
+      [{ coolingSchedule: (temperature) => temperature * 0.9 }, 'custom cooling function'],
+      [{ operators: [{ name: 'noop', propose: () => ({ indices: [], apply: () => {}, undo: () => {} }) }] }, 'custom neighbourhood operators'],
+      [{ multiObjective: { mode: 'lexicographic', objectives: [{ name: 'none', evaluate: () => 0 }] } }, 'custom objective functions'],
+      [{ checkpoint: { filePath: 'run.json' } }, 'checkpoints'],
+      [{ trace: { filePath: 'trace.csv' } }, 'trace files'],
+      [{ trace: { chartPath: 'trace.svg' } }, 'trace files'],
+      [{ random: new SeededRandom(1) }, 'custom random generator'],
+      [{ logging: { enabled: true, output: 'file', filePath: 'run.log' } }, 'log files'],
+      [{ logging: { enabled: true, output: 'both' } }, 'log files'],
+    ];
+
+    for (const [config, message] of cases) {
+      expect(() => new ParallelSolver(rooms, lecturers, classes, config)).toThrow(message);
+    }
+    expect(() => new ParallelSolver(rooms, lecturers, classes, { trace: { interval: 10 } })).not.toThrow();
+    expect(() => new ParallelSolver(rooms, lecturers, classes, { logging: { output: 'file' } })).not.toThrow();
+  });
+
+  it('should derive one seed per worker from the configured seed', () => {
+    const seeds = (config: AlgorithmConfig, options: ConstructorParameters<typeof ParallelSolver>[4]) =>
+      new ParallelSolver(rooms, lecturers, classes, config, options)['getSeeds']();
+
+    expect(seeds({ seed: 10 }, { workers: 3 })).toEqual([10, 11, 12]);
+    expect(seeds({ seed: 0xffffffff }, { workers: 2 })).toEqual([0xffffffff, 0]);
+    expect(seeds({ seed: 10 }, { workers: 3, seeds: [5, 1] })).toEqual([5, 1]);
+    expect(seeds({ seed: 10 }, { workers: 0 })).toEqual([10]);
+
+    const random = seeds({}, { workers: 4 });
+    expect(random).toHaveLength(4);
+    expect(new Set(random).size).toBe(4);
+  });
+
+  it('should keep the best worker run, which replays sequentially from its seed', async () => {
+    const config: AlgorithmConfig = { ...baseConfig, adaptiveWeights: { interval: 50 } };
+    const result = await new ParallelSolver(rooms, lecturers, classes, config, { workers: 2, workerScript }).solve();
+
+    expect(result.workers.map((worker) => worker.seed)).toEqual([7, 8]);
+    expect(result.workers.every((worker) => worker.error === undefined)).toBe(true);
+
+    // Workers learn their own weights: the best run is the best under the configured weights
+    const replays = result.workers.map((worker) => new SimulatedAnnealing(rooms, lecturers, classes, { ...config, seed: worker.seed }).solve());
+    const scores = replays.map((solution) => solution.metadata!.adaptiveWeights!.initialWeightsFitness);
+    expect(result.bestWorkerId).toBe(scores.indexOf(Math.min(...scores)));
+
+    const replay = replays[result.bestWorkerId]!;
+    expect(result.best.fitness).toBe(replay.fitness);
+    expect(result.best.schedule).toEqual(replay.schedule);
+    expect(result.workers[result.bestWorkerId]?.fitness).toBe(replay.fitness);
+  });
+
+  it('should not print progress messages when quiet', async () => {
+    const log = jest.mocked(console.log);
+    log.mockClear();
+
+    await new ParallelSolver(rooms, lecturers, classes, { ...baseConfig, quiet: true }, { workers: 1, workerScript }).solve();
+    expect(log).not.toHaveBeenCalled();
+
+    await new ParallelSolver(rooms, lecturers, classes, baseConfig, { workers: 1, workerScript }).solve();
+    expect(log).toHaveBeenCalled();
+  });
+
+  it('should fail with every worker error when no worker returns a solution', async () => {
+    const solver = new ParallelSolver(rooms, lecturers, classes, baseConfig, {
+      workers: 2,
+      workerScript: new URL('./missing-worker.mjs', import.meta.url),
+    });
+
+    await expect(solver.solve()).rejects.toThrow(/^All parallel solver runs failed \(worker 0: .+; worker 1: .+\)$/);
+  });
+});
@@ -0,0 +1,8 @@
+/**
+ * Runs the TypeScript worker entry point in a worker thread during tests
+ */
+
+import { register } from 'tsx/esm/api';
+
+register();
+await import('../../../src/algorithm/parallel-worker.ts');
@@ -0,0 +1,51 @@
+/**
+ * Unit tests for the Pareto archive
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { ParetoArchive, dominates } from '../../../src/algorithm/pareto.js';
+import type { ParetoScore } from '../../../src/algorithm/pareto.js';
+
+function score(objectives: number[], hardViolations = 0): ParetoScore {
+  return { fitness: objectives.reduce((sum, value) => sum + value, 0), hardViolations, objectives };
+}
+
+describe('Pareto archive', () => {
+  it('should let fewer hard violations dominate, then compare every objective', () => {
+    expect(dominates(score([9, 9], 0), score([1, 1], 1))).toBe(true);
+    expect(dominates(score([1, 2]), score([1, 3]))).toBe(true);
+    expect(dominates(score([1, 3]), score([2, 1]))).toBe(false);
+    expect(dominates(score([1, 2]), score([1, 2]))).toBe(false);
+  });
+
+  it('should keep only non-dominated solutions', () => {
+    const archive = new ParetoArchive(['a', 'b'], 10);
+
+    expect(archive.offer([], score([3, 3]))).toBe(true);
+    expect(archive.offer([], score([1, 4]))).toBe(true);
+    // Dominated by [3, 3] and a duplicate
+    expect(archive.offer([], score([3, 5]))).toBe(false);
+    expect(archive.offer([], score([1, 4]))).toBe(false);
+    // Dominates both
+    expect(archive.offer([], score([1, 2]))).toBe(true);
+    expect(archive.offer([], score([0, 5]))).toBe(true);
+
+    expect(archive.getFront().map((solution) => solution.objectives)).toEqual([
+      { a: 0, b: 5 },
+      { a: 1, b: 2 },
+    ]);
+  });
+
+  it('should drop the most crowded solution when full', () => {
+    const archive = new ParetoArchive(['a', 'b'], 3);
+    archive.offer([], score([0, 10]));
+    archive.offer([], score([10, 0]));
+    archive.offer([], score([5, 5]));
+    // Closest to its neighbours along both objectives
+    archive.offer([], score([1, 9]));
+
+    expect(archive.size).toBe(3);
+    expect(archive.getFront().map((solution) => solution.objectives.a)).toEqual([0, 5, 10]);
+    expect(() => new ParetoArchive(['a'], 0)).toThrow('multiObjective.archiveSize must be at least 1');
+  });
+});
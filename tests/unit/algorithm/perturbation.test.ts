@@ -0,0 +1,67 @@
+/**
+ * Unit tests for the repair mode perturbation penalty
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { PerturbationPenalty, getChangedAttributes } from '../../../src/algorithm/perturbation.js';
+import type { ScheduleEntry } from '../../../src/types/index.js';
+
+function makeEntry(classId: string, day: string, startTime: string, room: string): ScheduleEntry {
+  return {
+    classId,
+    className: `Course ${classId}`,
+    class: 'IF-1A',
+    prodi: 'INFORMATIKA',
+    lecturers: ['L001'],
+    room,
+    timeSlot: { day, startTime, endTime: '09:10', period: 1 },
+    sks: 2,
+    needsLab: false,
+    participants: 30,
+    classType: 'pagi',
+    prayerTimeAdded: 0,
+  };
+}
+
+const weights = { day: 30, startTime: 20, room: 10 };
+
+describe('PerturbationPenalty', () => {
+  const originals = [
+    makeEntry('IF101', 'Monday', '07:30', 'CM-101'),
+    makeEntry('IF102', 'Tuesday', '08:20', 'CM-102'),
+  ];
+
+  it('should list the changed attributes', () => {
+    expect(getChangedAttributes(originals[0]!, makeEntry('IF101', 'Monday', '07:30', 'CM-101'))).toEqual([]);
+    expect(getChangedAttributes(originals[0]!, makeEntry('IF101', 'Friday', '07:30', 'CM-102'))).toEqual(['day', 'room']);
+  });
+
+  it('should add the weights of the changed attributes, and nothing for new classes', () => {
+    const penalty = new PerturbationPenalty([originals[0], originals[1], undefined], weights);
+    const schedule = [
+      makeEntry('IF101', 'Monday', '09:10', 'CM-101'),
+      makeEntry('IF102', 'Wednesday', '10:00', 'CM-103'),
+      makeEntry('IF103', 'Friday', '07:30', 'CM-101'),
+    ];
+
+    expect(penalty.distance(0, schedule[0]!)).toBe(20);
+    expect(penalty.distance(2, schedule[2]!)).toBe(0);
+    expect(penalty.measure(schedule)).toBe(80);
+  });
+
+  it('should only keep an evaluated neighbour once committed', () => {
+    const penalty = new PerturbationPenalty(originals, weights);
+    const schedule = originals.map((entry) => ({ ...entry }));
+    expect(penalty.reset(schedule)).toBe(0);
+
+    schedule[1] = makeEntry('IF102', 'Tuesday', '08:20', 'CM-103');
+    expect(penalty.evaluate(schedule, [1])).toBe(10);
+    penalty.discard();
+    expect(penalty.evaluate(schedule, [])).toBe(0);
+
+    penalty.evaluate(schedule, [1]);
+    penalty.commit();
+    schedule[0] = makeEntry('IF101', 'Friday', '07:30', 'CM-101');
+    expect(penalty.evaluate(schedule, [0])).toBe(40);
+  });
+});
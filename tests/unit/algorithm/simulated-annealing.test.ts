@@ -0,0 +1,1038 @@
+/**
+ * Unit tests for the Simulated Annealing solver
+ */
+
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import { SimulatedAnnealing } from '../../../src/algorithm/simulated-annealing.js';
+import { SeededRandom } from '../../../src/utils/random.js';
+import { TimeSlotRegistry } from '../../../src/constants/time-slots.js';
+import { PlacementMove, getPlacement, placeAtTimeSlot } from '../../../src/algorithm/moves.js';
+import { TabuSearch } from '../../../src/algorithm/tabu-search.js';
+import { readCheckpoint } from '../../../src/algorithm/checkpoint.js';
+import { DEFAULT_SOFT_CONSTRAINT_WEIGHTS } from '../../../src/algorithm/config.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type {
+  Room,
+  ClassRequirement,
+  AlgorithmConfig,
+  Solution,
+  SolverProgressEvent,
+  NeighborhoodOperator,
+  PlacementChange,
+} from '../../../src/types/index.js';
+import { rooms, lecturers, makeClass, classes } from './fixtures.js';
+
+// Kept before any test replaces it, for the tests that write checkpoints
+const { writeFileSync } = fs;
+
+const baseConfig: AlgorithmConfig = {
+  maxIterations: 400,
+  reheatingThreshold: 100,
+};
+
+describe('SimulatedAnnealing', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('seeded runs', () => {
+    it('should produce identical solutions for the same seed', () => {
+      const first = new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, seed: 1234 }).solve();
+      const second = new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, seed: 1234 }).solve();
+
+      expect(second.schedule).toEqual(first.schedule);
+      expect(second.fitness).toBe(first.fitness);
+    });
+
+    it('should report the seed that was used', () => {
+      const solution = new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, seed: 99 }).solve();
+
+      expect(solution.metadata?.seed).toBe(99);
+    });
+
+    it('should report a generated seed that replays the run', () => {
+      const first = new SimulatedAnnealing(rooms, lecturers, classes, baseConfig).solve();
+      const seed = first.metadata?.seed;
+
+      expect(seed).toBeDefined();
+
+      const replay = new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, seed: seed! }).solve();
+      expect(replay.schedule).toEqual(first.schedule);
+    });
+
+    it('should accept a custom random generator', () => {
+      const first = new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, random: new SeededRandom(5) }).solve();
+      const second = new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, random: new SeededRandom(5) }).solve();
+
+      expect(second.schedule).toEqual(first.schedule);
+      expect(first.metadata?.seed).toBeUndefined();
+    });
+
+    it('should print nothing when quiet, with the same result', () => {
+      const log = jest.mocked(console.log);
+      const warn = jest.mocked(console.warn);
+      log.mockClear();
+      warn.mockClear();
+
+      const quiet = new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, seed: 1234, quiet: true }).solve();
+      expect(log).not.toHaveBeenCalled();
+      expect(warn).not.toHaveBeenCalled();
+
+      const loud = new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, seed: 1234 }).solve();
+      expect(log).toHaveBeenCalled();
+      expect(quiet.schedule).toEqual(loud.schedule);
+    });
+  });
+
+  describe('fitness evaluation', () => {
+    it('should give the same result with delta and full evaluation', () => {
+      const delta = new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, seed: 7 }).solve();
+      const full = new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...baseConfig,
+        seed: 7,
+        fitnessEvaluation: 'full',
+      }).solve();
+
+      expect(delta.schedule).toEqual(full.schedule);
+      expect(delta.fitness).toBe(full.fitness);
+    });
+
+    it('should not report mismatches in verify mode', () => {
+      expect(() =>
+        new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, seed: 7, fitnessEvaluation: 'verify' }).solve()
+      ).not.toThrow();
+    });
+  });
+
+  describe('cooling schedules', () => {
+    it('should match the default run with an explicit geometric schedule', () => {
+      const defaults = new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, seed: 11 }).solve();
+      const geometric = new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...baseConfig,
+        seed: 11,
+        coolingSchedule: 'geometric',
+      }).solve();
+
+      expect(geometric.schedule).toEqual(defaults.schedule);
+    });
+
+    it('should run with every built-in schedule', () => {
+      for (const type of ['linear', 'logarithmic', 'lundy-mees', 'adaptive'] as const) {
+        const solution = new SimulatedAnnealing(rooms, lecturers, classes, {
+          ...baseConfig,
+          seed: 11,
+          coolingSchedule: { type },
+        }).solve();
+
+        expect(solution.schedule.length).toBeGreaterThan(0);
+      }
+    });
+
+    it('should call a custom cooling function with run statistics', () => {
+      const calls: Array<{ iteration: number; temperature: number; acceptanceRatio: number }> = [];
+      new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...baseConfig,
+        seed: 11,
+        coolingSchedule: (iteration, temperature, stats) => {
+          calls.push({ iteration, temperature, acceptanceRatio: stats.acceptanceRatio });
+          return temperature * 0.9;
+        },
+      }).solve();
+
+      expect(calls.length).toBeGreaterThan(0);
+      expect(calls[0]!.iteration).toBe(0);
+      expect(calls[0]!.temperature).toBe(10000);
+      expect(calls.every((call) => call.acceptanceRatio >= 0 && call.acceptanceRatio <= 1)).toBe(true);
+    });
+
+    it('should reject an invalid temperature from a custom cooling function', () => {
+      const solver = new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...baseConfig,
+        seed: 11,
+        coolingSchedule: () => Number.NaN,
+      });
+
+      expect(() => solver.solve()).toThrow('invalid temperature');
+    });
+  });
+
+  describe('initial temperature', () => {
+    it('should report the configured initial temperature', () => {
+      const solution = new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, seed: 5 }).solve();
+
+      expect(solution.metadata?.initialTemperature).toBe(10000);
+      expect(solution.metadata?.temperatureCalibration).toBeUndefined();
+    });
+
+    it('should calibrate and report the initial temperature in auto mode', () => {
+      const config: AlgorithmConfig = {
+        ...baseConfig,
+        seed: 5,
+        initialTemperature: 'auto',
+        temperatureCalibration: { targetAcceptanceRatio: 0.8, samples: 50 },
+      };
+      const first = new SimulatedAnnealing(rooms, lecturers, classes, config).solve();
+      const second = new SimulatedAnnealing(rooms, lecturers, classes, config).solve();
+
+      expect(first.metadata?.initialTemperature).toBeGreaterThan(0);
+      expect(first.metadata?.temperatureCalibration).toMatchObject({ targetAcceptanceRatio: 0.8, samples: 50 });
+      expect(second.metadata?.initialTemperature).toBe(first.metadata?.initialTemperature);
+      expect(second.schedule).toEqual(first.schedule);
+    });
+  });
+
+  describe('warm start', () => {
+    // With no iterations, solve() returns the initial solution
+    const initialOnly: AlgorithmConfig = { ...baseConfig, maxIterations: 0, seed: 21 };
+
+    it('should keep every entry of a schedule that still matches', () => {
+      const previous = new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, seed: 21 }).solve();
+      const warm = new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...initialOnly,
+        initialSchedule: previous.schedule,
+      }).solve();
+
+      expect(warm.metadata?.warmStart).toEqual({
+        kept: previous.schedule.length,
+        repaired: [],
+        dropped: [],
+        inserted: 0,
+      });
+      expect(warm.schedule.map((e) => [e.classId, e.timeSlot.day, e.timeSlot.startTime, e.room])).toEqual(
+        previous.schedule.map((e) => [e.classId, e.timeSlot.day, e.timeSlot.startTime, e.room])
+      );
+    });
+
+    it('should drop, repair and insert entries when the input changed', () => {
+      const previous = new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, seed: 21 }).solve();
+      const edited = previous.schedule.map((entry) => ({ ...entry, timeSlot: { ...entry.timeSlot } }));
+      const byId = (id: string) => edited.find((entry) => entry.classId === id)!;
+      byId('IF102').room = 'OLD-ROOM';
+      byId('IF103').timeSlot.startTime = '06:00';
+
+      // IF101 removed, IF107 added
+      const newClasses = [...classes.filter((c) => c.Kode_Matakuliah !== 'IF101'), makeClass('IF107', 'IF-1B', 'L001')];
+      const warm = new SimulatedAnnealing(rooms, lecturers, newClasses, {
+        ...initialOnly,
+        initialSchedule: edited,
+      }).solve();
+      const report = warm.metadata!.warmStart!;
+
+      expect(report.kept).toBe(3);
+      expect(report.inserted).toBe(1);
+      expect(report.dropped).toEqual([{ classId: 'IF101', class: 'IF-1A', reason: 'No matching class requirement' }]);
+      expect(report.repaired).toEqual([
+        { classId: 'IF102', class: 'IF-1A', reason: 'Room no longer exists' },
+        { classId: 'IF103', class: 'IF-1B', reason: 'Time slot is no longer available' },
+      ]);
+
+      const ids = warm.schedule.map((entry) => entry.classId);
+      expect(ids).toEqual(['IF102', 'IF103', 'IF104', 'IF105', 'IF106', 'IF107']);
+      expect(warm.schedule.find((entry) => entry.classId === 'IF102')!.room).not.toBe('OLD-ROOM');
+    });
+
+    it('should take class attributes from the current requirements', () => {
+      const previous = new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, seed: 21 }).solve();
+      const newClasses = classes.map((c) => (c.Kode_Matakuliah === 'IF105' ? { ...c, Kode_Dosen1: 'L002', SKS: 2 } : c));
+      const warm = new SimulatedAnnealing(rooms, lecturers, newClasses, {
+        ...initialOnly,
+        initialSchedule: previous.schedule,
+      }).solve();
+      const entry = warm.schedule.find((e) => e.classId === 'IF105')!;
+
+      expect(entry.lecturers).toEqual(['L002']);
+      expect(entry.sks).toBe(2);
+      expect(warm.metadata?.warmStart?.kept).toBe(6);
+    });
+  });
+
+  describe('locked entries', () => {
+    const placementOf = (solution: Solution, id: string) => {
+      const entry = solution.schedule.find((e) => e.classId === id)!;
+      return { day: entry.timeSlot.day, startTime: entry.timeSlot.startTime, room: entry.room };
+    };
+
+    it('should keep fully locked classes and partially locked attributes', () => {
+      const lockedClasses = classes.map((c) => {
+        switch (c.Kode_Matakuliah) {
+          case 'IF101':
+            return { ...c, Locked_Day: 'Tuesday', Locked_Time: '8.20', Locked_Room: 'CM-101' };
+          case 'IF102':
+            return { ...c, Locked_Day: 'Wednesday' };
+          case 'IF103':
+            return { ...c, Locked_Room: 'CM-103' };
+          default:
+            return c;
+        }
+      });
+
+      for (const seed of [1, 2, 3]) {
+        const solution = new SimulatedAnnealing(rooms, lecturers, lockedClasses, { ...baseConfig, seed }).solve();
+
+        expect(placementOf(solution, 'IF101')).toEqual({ day: 'Tuesday', startTime: '08:20', room: 'CM-101' });
+        expect(placementOf(solution, 'IF102').day).toBe('Wednesday');
+        expect(placementOf(solution, 'IF103').room).toBe('CM-103');
+      }
+    });
+
+    it('should keep the initial placement of classes locked with Locked: "yes"', () => {
+      const previous = new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, seed: 4 }).solve();
+      const lockedClasses = classes.map((c) => (c.Kode_Matakuliah === 'IF105' ? { ...c, Locked: 'yes' } : c));
+      const solution = new SimulatedAnnealing(rooms, lecturers, lockedClasses, {
+        ...baseConfig,
+        seed: 5,
+        initialSchedule: previous.schedule,
+      }).solve();
+
+      expect(placementOf(solution, 'IF105')).toEqual(placementOf(previous, 'IF105'));
+    });
+
+    it('should place classes locked with Locked: "yes" before the other classes', () => {
+      // IF101 takes the first time slot of L001 when the classes are placed in input order
+      const unlocked = new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, seed: 7, maxIterations: 0 }).solve();
+      const lockedClasses = classes.map((c) => (c.Kode_Matakuliah === 'IF105' ? { ...c, Locked: 'yes' } : c));
+      const solution = new SimulatedAnnealing(rooms, lecturers, lockedClasses, { ...baseConfig, seed: 7 }).solve();
+
+      const first = placementOf(unlocked, 'IF101');
+      expect(placementOf(solution, 'IF105')).toMatchObject({ day: first.day, startTime: first.startTime });
+    });
+
+    it('should still report violations caused by locked entries', () => {
+      // Both classes share lecturer L001 and are locked to the same time
+      const lockedClasses = classes.map((c) =>
+        c.Kode_Matakuliah === 'IF101' || c.Kode_Matakuliah === 'IF103'
+          ? { ...c, Locked_Day: 'Monday', Locked_Time: '07:30', Locked_Room: c.Kode_Matakuliah === 'IF101' ? 'CM-101' : 'CM-102' }
+          : c
+      );
+      const solution = new SimulatedAnnealing(rooms, lecturers, lockedClasses, { ...baseConfig, seed: 6 }).solve();
+
+      expect(placementOf(solution, 'IF103')).toEqual({ day: 'Monday', startTime: '07:30', room: 'CM-102' });
+      expect(solution.hardViolations).toBeGreaterThan(0);
+    });
+
+    it('should reject locks to unknown rooms or time slots', () => {
+      const unknownRoom = classes.map((c) => (c.Kode_Matakuliah === 'IF101' ? { ...c, Locked_Room: 'XX-999' } : c));
+      const unknownTime = classes.map((c) =>
+        c.Kode_Matakuliah === 'IF101' ? { ...c, Locked_Day: 'Monday', Locked_Time: '06:00', Locked_Room: 'CM-101' } : c
+      );
+
+      expect(() => new SimulatedAnnealing(rooms, lecturers, unknownRoom, { ...baseConfig, seed: 1 }).solve())
+        .toThrow('Locked room XX-999');
+      expect(() => new SimulatedAnnealing(rooms, lecturers, unknownTime, { ...baseConfig, seed: 1 }).solve())
+        .toThrow('is not a configured time slot');
+    });
+  });
+
+  describe('repair mode', () => {
+    const placementKey = (e: Solution['schedule'][number]) => `${e.timeSlot.day} ${e.timeSlot.startTime} ${e.room}`;
+
+    it('should fix new conflicts while keeping the other entries in place', () => {
+      const previous = new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, seed: 21 }).solve();
+      expect(previous.hardViolations).toBe(0);
+
+      // IF102 (L002) shares IF105's time; IF105 is then handed over to L002
+      const if105 = previous.schedule.find((e) => e.classId === 'IF105')!;
+      const edited = {
+        ...previous,
+        schedule: previous.schedule.map((e) =>
+          e.classId === 'IF102' ? { ...e, timeSlot: { ...if105.timeSlot }, room: e.room === if105.room ? 'CM-103' : e.room } : e
+        ),
+      };
+      const changedClasses = classes.map((c) => (c.Kode_Matakuliah === 'IF105' ? { ...c, Kode_Dosen1: 'L002' } : c));
+      const repaired = new SimulatedAnnealing(rooms, lecturers, changedClasses, {
+        ...baseConfig,
+        seed: 3,
+        repair: { previous: edited },
+      }).solve();
+      const report = repaired.metadata!.repair!;
+
+      expect(repaired.hardViolations).toBe(0);
+      expect(report.changed.length).toBeGreaterThan(0);
+      expect(report.changed.length + report.unchanged).toBe(classes.length);
+      expect(report.changed.some((change) => change.reason.includes('HC1'))).toBe(true);
+
+      for (const entry of repaired.schedule) {
+        const original = edited.schedule.find((e) => e.classId === entry.classId)!;
+        const change = report.changed.find((c) => c.classId === entry.classId);
+        if (change) {
+          expect(change.from).toEqual({ day: original.timeSlot.day, startTime: original.timeSlot.startTime, room: original.room });
+          expect(change.to).toEqual({ day: entry.timeSlot.day, startTime: entry.timeSlot.startTime, room: entry.room });
+        } else {
+          expect(placementKey(entry)).toBe(placementKey(original));
+        }
+      }
+
+      const weights = { day: 30, startTime: 20, room: 10 };
+      const distance = report.changed.reduce(
+        (sum, change) => sum + change.attributes.reduce((total, attribute) => total + weights[attribute], 0),
+        0
+      );
+      expect(report.distance).toBe(distance);
+    });
+
+    it('should calibrate the initial temperature unless it is set', () => {
+      const previous = new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, seed: 21 }).solve();
+      const calibrated = new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, seed: 3, repair: { previous } }).solve();
+      const fixed = new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...baseConfig,
+        seed: 3,
+        initialTemperature: 500,
+        repair: { previous, weights: { day: 100 } },
+      }).solve();
+
+      expect(calibrated.metadata?.temperatureCalibration).toBeDefined();
+      expect(fixed.metadata?.initialTemperature).toBe(500);
+      expect(fixed.metadata?.repair).toBeDefined();
+    });
+
+    it('should not combine repair with initialSchedule', () => {
+      const previous = new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, seed: 21 }).solve();
+
+      expect(
+        () => new SimulatedAnnealing(rooms, lecturers, classes, { repair: { previous }, initialSchedule: previous.schedule })
+      ).toThrow('cannot be combined');
+    });
+  });
+
+  describe('unscheduled classes', () => {
+    // One room and three Monday slots: greedy placement puts X (2 periods) at 07:30
+    // and Y at 09:10, leaving no room for Z; X, Y and Z only fit as Y, Z, X
+    const slot = (startTime: string, period: number) => ({ day: 'Monday', startTime, endTime: '', period });
+    const tightConfig: AlgorithmConfig = {
+      ...baseConfig,
+      customTimeSlots: { pagi: [slot('07:30', 1), slot('08:20', 2), slot('09:10', 3)] },
+    };
+    const tightClasses = [
+      makeClass('X', 'IF-1A', 'L001'),
+      makeClass('Y', 'IF-1B', 'L002', { SKS: 1 }),
+      makeClass('Z', 'IF-1C', 'L002', { SKS: 1 }),
+    ];
+
+    beforeAll(() => {
+      // Do not overwrite unscheduled-classes.json in the working directory
+      jest.spyOn(fs, 'writeFileSync').mockImplementation(() => {});
+    });
+
+    it('should insert classes the initial solution could not place', () => {
+      const initial = new SimulatedAnnealing([rooms[0]!], lecturers, tightClasses, { ...tightConfig, maxIterations: 0 }).solve();
+      expect(initial.schedule.map((e) => e.classId)).toEqual(['X', 'Y']);
+      expect(initial.metadata?.unassigned).toEqual([{ classId: 'Z', className: 'Course Z', class: 'IF-1C', prodi: 'INFORMATIKA' }]);
+      expect(initial.fitness).toBeGreaterThanOrEqual(10000);
+
+      for (const seed of [1, 2, 3]) {
+        const solution = new SimulatedAnnealing([rooms[0]!], lecturers, tightClasses, { ...tightConfig, seed }).solve();
+
+        expect(solution.schedule.map((e) => e.classId).sort()).toEqual(['X', 'Y', 'Z']);
+        expect(solution.hardViolations).toBe(0);
+        expect(solution.metadata?.unassigned).toEqual([]);
+      }
+    });
+
+    it('should give the same result with delta and full evaluation', () => {
+      const delta = new SimulatedAnnealing([rooms[0]!], lecturers, tightClasses, { ...tightConfig, seed: 4 }).solve();
+      const full = new SimulatedAnnealing([rooms[0]!], lecturers, tightClasses, {
+        ...tightConfig,
+        seed: 4,
+        fitnessEvaluation: 'full',
+      }).solve();
+
+      expect(full.schedule).toEqual(delta.schedule);
+      expect(full.fitness).toBe(delta.fitness);
+    });
+
+    it('should freeze classes locked with Locked: "yes" where they are inserted', () => {
+      // Locked classes are placed first: lock X and Y too, so Z is still the one left out
+      const lockedClasses = tightClasses.map((c) => (c.Kode_Matakuliah === 'Z' ? { ...c, Locked: 'yes' } : { ...c, Locked_Day: 'Monday' }));
+
+      for (const seed of [1, 2, 3]) {
+        const solver = new SimulatedAnnealing([rooms[0]!], lecturers, lockedClasses, { ...tightConfig, seed });
+        const solution = solver.solve();
+        const index = solution.schedule.findIndex((e) => e.classId === 'Z');
+        const entry = solution.schedule[index]!;
+
+        expect(index).toBe(2);
+        expect(solver['entryLocks'][index]).toEqual({ day: 'Monday', startTime: entry.timeSlot.startTime, room: entry.room });
+        expect(solver['movableIndices']).not.toContain(index);
+      }
+    });
+
+    it('should only report the classes still unscheduled at the end of the run', () => {
+      const writeFileSync = jest.mocked(fs.writeFileSync);
+      const reports = () => writeFileSync.mock.calls.filter(([file]) => String(file).endsWith('unscheduled-classes.json'));
+      writeFileSync.mockClear();
+
+      new SimulatedAnnealing([rooms[0]!], lecturers, tightClasses, { ...tightConfig, seed: 1 }).solve();
+      expect(reports()).toHaveLength(0);
+
+      new SimulatedAnnealing([rooms[0]!], lecturers, tightClasses, { ...tightConfig, seed: 1, insertionRate: 0 }).solve();
+      expect(reports()).toHaveLength(1);
+      const report = JSON.parse(String(reports()[0]![1]));
+      expect(report.summary).toEqual({ totalClasses: 3, scheduled: 2, unscheduled: 1 });
+      expect(report.skippedClasses).toEqual([
+        { reason: 'Could not find valid room/time slot combination', class: 'Course Z', code: 'Z' },
+      ]);
+    });
+
+    it('should leave classes out when insertion is disabled', () => {
+      const solution = new SimulatedAnnealing([rooms[0]!], lecturers, tightClasses, {
+        ...tightConfig,
+        seed: 1,
+        insertionRate: 0,
+      }).solve();
+
+      expect(solution.schedule).toHaveLength(2);
+      expect(solution.metadata?.unassigned).toHaveLength(1);
+    });
+  });
+
+  describe('operator selection', () => {
+    it.each(['success-rate', 'probability-matching', 'adaptive-pursuit', 'ucb1', 'sliding-window'] as const)(
+      'should report operator usage with %s selection',
+      (strategy) => {
+        const config: AlgorithmConfig = { ...baseConfig, seed: 5, operatorSelection: strategy, operatorUsageWindow: 100 };
+        const solution = new SimulatedAnnealing(rooms, lecturers, classes, config).solve();
+        const again = new SimulatedAnnealing(rooms, lecturers, classes, config).solve();
+        const usage = solution.metadata!.operatorUsage!;
+
+        expect(again.schedule).toEqual(solution.schedule);
+        expect(usage.strategy).toBe(strategy);
+
+        const windowTotal = usage.windows.reduce((sum, window) => sum + window.iterations, 0);
+        const phaseTotal = [usage.phase1, usage.phase2]
+          .flatMap((counts) => Object.values(counts))
+          .reduce((sum, counts) => sum + counts.selections, 0);
+        expect(windowTotal).toBe(solution.metadata!.iterations);
+        expect(phaseTotal).toBe(solution.metadata!.iterations);
+        expect(usage.windows.every((window) => window.iterations <= 100)).toBe(true);
+      }
+    );
+  });
+
+  describe('custom operators', () => {
+    // Moves every class of a cohort to another day, keeping the start times
+    const cohortDay: NeighborhoodOperator = {
+      name: 'cohort-day',
+      propose: ({ schedule, random, movableIndices, getCandidateTimeSlots }) => {
+        const cohort = schedule[movableIndices[Math.floor(random.next() * movableIndices.length)]!]!.class;
+        const days = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'];
+        const day = days[Math.floor(random.next() * days.length)]!;
+
+        const changes: PlacementChange[] = [];
+        for (const index of movableIndices) {
+          const entry = schedule[index]!;
+          const slot = getCandidateTimeSlots(index)
+            .find((candidate) => candidate.day === day && candidate.startTime === entry.timeSlot.startTime);
+          if (entry.class === cohort && slot) {
+            changes.push({ index, placement: placeAtTimeSlot(entry, getPlacement(entry), slot) });
+          }
+        }
+        return new PlacementMove(changes);
+      },
+    };
+
+    it('should select registered operators and report their statistics', () => {
+      const config: AlgorithmConfig = { ...baseConfig, seed: 6, operators: [cohortDay] };
+      const solution = new SimulatedAnnealing(rooms, lecturers, classes, config).solve();
+      const again = new SimulatedAnnealing(rooms, lecturers, classes, config).solve();
+      const full = new SimulatedAnnealing(rooms, lecturers, classes, { ...config, fitnessEvaluation: 'full' }).solve();
+
+      const stats = solution.metadata?.operatorStats;
+      expect(Object.keys(stats ?? {})).toEqual(['move', 'swap', 'kempe', 'insertion', 'cohort-day']);
+      expect(stats?.['cohort-day']?.attempts).toBeGreaterThan(0);
+      expect(solution.schedule).toHaveLength(classes.length);
+      expect(again.schedule).toEqual(solution.schedule);
+      expect(full.schedule).toEqual(solution.schedule);
+    });
+
+    it('should skip operators that are not applicable', () => {
+      const propose = jest.fn(cohortDay.propose);
+      const solution = new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...baseConfig,
+        seed: 6,
+        operators: [{ name: 'never', isApplicable: () => false, propose }],
+      }).solve();
+
+      expect(propose).not.toHaveBeenCalled();
+      expect(solution.metadata?.operatorStats?.['never']?.attempts).toBe(0);
+    });
+
+    it('should reject duplicate operator names', () => {
+      expect(() => new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...baseConfig,
+        operators: [{ ...cohortDay, name: 'move' }],
+      })).toThrow('Operator name "move" is already in use');
+    });
+  });
+
+  describe('parallel tempering', () => {
+    it('should exchange replicas along a geometric ladder and report it', () => {
+      const config: AlgorithmConfig = {
+        ...baseConfig,
+        seed: 11,
+        parallelTempering: { replicas: 3, minTemperature: 1, maxTemperature: 100, exchangeInterval: 20 },
+      };
+      const solution = new SimulatedAnnealing(rooms, lecturers, classes, config).solve();
+      const again = new SimulatedAnnealing(rooms, lecturers, classes, config).solve();
+      const full = new SimulatedAnnealing(rooms, lecturers, classes, { ...config, fitnessEvaluation: 'full' }).solve();
+      const report = solution.metadata?.parallelTempering;
+
+      expect(report?.temperatures.map((temperature) => Math.round(temperature))).toEqual([1, 10, 100]);
+      // 400 iterations = 6 full rounds of 3 x 20 steps, pairs alternating
+      expect(report?.exchangeAttempts).toEqual([3, 3]);
+      expect(report?.exchangesAccepted.every((accepted, i) => accepted <= report.exchangeAttempts[i]!)).toBe(true);
+      expect(solution.metadata?.iterations).toBe(400);
+      expect(solution.metadata?.stopReason).toBe('max-iterations');
+      expect(solution.schedule).toHaveLength(classes.length);
+      expect(again.schedule).toEqual(solution.schedule);
+      expect(full.schedule).toEqual(solution.schedule);
+    });
+
+    it('should sort explicit temperatures coldest first', () => {
+      const solution = new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...baseConfig,
+        seed: 11,
+        parallelTempering: { temperatures: [50, 5, 500] },
+      }).solve();
+
+      expect(solution.metadata?.parallelTempering?.temperatures).toEqual([5, 50, 500]);
+    });
+
+    it('should reject ladders with fewer than two positive temperatures', () => {
+      expect(() => new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...baseConfig,
+        parallelTempering: { replicas: 1 },
+      })).toThrow('parallelTempering needs at least 2 replicas');
+      expect(() => new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...baseConfig,
+        parallelTempering: { temperatures: [10, 0] },
+      })).toThrow('parallelTempering.temperatures must be positive');
+    });
+  });
+
+  describe('polish', () => {
+    it('should descend from the search result and report the improvement', () => {
+      const config: AlgorithmConfig = { ...baseConfig, seed: 13, polish: 'first-improvement' };
+      const plain = new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, seed: 13 }).solve();
+      const solution = new SimulatedAnnealing(rooms, lecturers, classes, config).solve();
+      const full = new SimulatedAnnealing(rooms, lecturers, classes, { ...config, fitnessEvaluation: 'full' }).solve();
+      const report = solution.metadata?.polish;
+
+      expect(report?.strategy).toBe('first-improvement');
+      expect(report?.initialFitness).toBe(plain.fitness);
+      expect(report?.finalFitness).toBe(solution.fitness);
+      expect(report?.improvement).toBeCloseTo(plain.fitness - solution.fitness);
+      expect(report?.finalHardViolations).toBeLessThanOrEqual(report!.initialHardViolations);
+      expect(report?.evaluations).toBeGreaterThan(0);
+      // The last sweep found nothing to improve
+      expect(report!.moves + report!.swaps).toBeGreaterThanOrEqual(report!.passes - 1);
+      expect(full.schedule).toEqual(solution.schedule);
+      expect(full.fitness).toBeCloseTo(solution.fitness);
+    });
+
+    it('should limit the sweeps and skip swaps when configured', () => {
+      const solution = new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...baseConfig,
+        seed: 13,
+        polish: { type: 'steepest', swaps: false, maxPasses: 1 },
+      }).solve();
+
+      expect(solution.metadata?.polish).toMatchObject({ strategy: 'steepest', passes: 1, swaps: 0 });
+    });
+
+    it('should reject unknown strategies', () => {
+      expect(() => new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...baseConfig,
+        polish: 'greedy' as never,
+      })).toThrow('Unknown polish strategy: greedy');
+    });
+  });
+
+  describe('multi-objective', () => {
+    it('should keep the search unchanged and return a non-dominated Pareto front', () => {
+      const plain = new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, seed: 17 }).solve();
+      const solution = new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...baseConfig,
+        seed: 17,
+        multiObjective: { mode: 'pareto', objectives: ['preferredTime', 'compactness'] },
+      }).solve();
+      const front = solution.metadata?.paretoFront ?? [];
+
+      expect(solution.schedule).toEqual(plain.schedule);
+      expect(Object.keys(solution.metadata?.objectives ?? {})).toEqual(['preferredTime', 'compactness']);
+      expect(front.length).toBeGreaterThan(0);
+      for (const a of front) {
+        for (const b of front) {
+          const dominated =
+            a.hardViolations < b.hardViolations ||
+            (a.hardViolations === b.hardViolations &&
+              a.objectives.preferredTime! <= b.objectives.preferredTime! &&
+              a.objectives.compactness! <= b.objectives.compactness! &&
+              (a.objectives.preferredTime! < b.objectives.preferredTime! ||
+                a.objectives.compactness! < b.objectives.compactness!));
+          expect(dominated).toBe(false);
+        }
+      }
+    });
+
+    it('should rank solutions by the objectives in lexicographic mode', () => {
+      const saturdayClasses = {
+        name: 'saturdayClasses',
+        evaluate: (schedule: Solution['schedule']) => schedule.filter((entry) => entry.timeSlot.day === 'Saturday').length,
+      };
+      const solution = new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...baseConfig,
+        seed: 17,
+        multiObjective: { mode: 'lexicographic', objectives: [saturdayClasses, 'preferredTime'] },
+      }).solve();
+
+      expect(solution.metadata?.objectives).toEqual({
+        saturdayClasses: saturdayClasses.evaluate(solution.schedule),
+        preferredTime: expect.any(Number),
+      });
+      expect(solution.metadata?.objectives?.saturdayClasses).toBe(0);
+      expect(solution.metadata?.paretoFront).toBeUndefined();
+    });
+
+    it('should reject invalid objective lists', () => {
+      expect(() => new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...baseConfig,
+        multiObjective: { mode: 'lexicographic' },
+      })).toThrow('multiObjective.objectives is required in lexicographic mode');
+      expect(() => new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...baseConfig,
+        multiObjective: { mode: 'pareto', objectives: ['lunchBreak' as never] },
+      })).toThrow('Unknown objective: lunchBreak');
+      expect(() => new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...baseConfig,
+        multiObjective: { mode: 'pareto', objectives: ['compactness', 'compactness'] },
+      })).toThrow('Duplicate objective: compactness');
+    });
+  });
+
+  describe('stopping criteria', () => {
+    it('should record the natural end of the run', () => {
+      const solution = new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, seed: 8 }).solve();
+
+      expect(['max-iterations', 'min-temperature']).toContain(solution.metadata?.stopReason);
+      expect(solution.metadata?.iterations).toBeGreaterThan(0);
+      expect(solution.metadata?.elapsedMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should stop when the time limit is reached', () => {
+      const solution = new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...baseConfig,
+        seed: 8,
+        timeLimitMs: 0,
+      }).solve();
+
+      expect(solution.metadata?.stopReason).toBe('time-limit');
+      expect(solution.metadata?.iterations).toBe(0);
+    });
+
+    it('should stop when the target fitness is reached', () => {
+      const solution = new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...baseConfig,
+        seed: 8,
+        targetFitness: 1e12,
+      }).solve();
+
+      expect(solution.metadata?.stopReason).toBe('target-fitness');
+    });
+
+    it('should stop after the stagnation limit', () => {
+      const solution = new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...baseConfig,
+        maxIterations: 5000,
+        seed: 8,
+        stagnationLimit: 50,
+      }).solve();
+
+      expect(solution.metadata?.stopReason).toBe('stagnation');
+      expect(solution.metadata?.iterations).toBeLessThan(5000);
+    });
+
+    it('should stop once hard violations are gone and the soft penalty is low enough', () => {
+      const solution = new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...baseConfig,
+        seed: 8,
+        softPenaltyThreshold: 1e9,
+      }).solve();
+
+      expect(solution.metadata?.stopReason).toBe('soft-penalty-threshold');
+      expect(solution.hardViolations).toBe(0);
+    });
+  });
+
+  describe('solveAsync', () => {
+    it('should produce the same solution as solve() for the same seed', async () => {
+      const sync = new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, seed: 42 }).solve();
+      const async = await new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, seed: 42 }).solveAsync();
+
+      expect(async.schedule).toEqual(sync.schedule);
+      expect(async.fitness).toBe(sync.fitness);
+    });
+
+    it('should emit progress events from start to complete', async () => {
+      const events: SolverProgressEvent[] = [];
+      const solver = new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, seed: 42 });
+
+      await solver.solveAsync({ batchSize: 50, onProgress: (event) => events.push(event) });
+
+      expect(events[0]?.type).toBe('start');
+      expect(events[events.length - 1]?.type).toBe('complete');
+      expect(events.some((e) => e.type === 'progress')).toBe(true);
+
+      const iterations = events.map((e) => e.iteration);
+      expect(iterations).toEqual([...iterations].sort((a, b) => a - b));
+    });
+
+    it('should reject when the signal is aborted', async () => {
+      const controller = new AbortController();
+      const solver = new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, seed: 42 });
+
+      const promise = solver.solveAsync({
+        signal: controller.signal,
+        batchSize: 10,
+        onProgress: (event) => {
+          if (event.type === 'progress') controller.abort();
+        },
+      });
+
+      await expect(promise).rejects.toThrow();
+    });
+  });
+
+  describe('convergence trace', () => {
+    it('should record the run every interval iterations without changing it', () => {
+      const config: AlgorithmConfig = { ...baseConfig, seed: 9 };
+      const plain = new SimulatedAnnealing(rooms, lecturers, classes, config).solve();
+      const traced = new SimulatedAnnealing(rooms, lecturers, classes, { ...config, trace: { interval: 100 } }).solve();
+      const points = traced.metadata?.trace?.points ?? [];
+
+      expect(traced.schedule).toEqual(plain.schedule);
+      expect(plain.metadata?.trace).toBeUndefined();
+      expect(traced.metadata?.trace?.interval).toBe(100);
+      expect(points.map((point) => point.iteration)).toEqual([0, 100, 200, 300, 400]);
+      for (const point of points.slice(1)) {
+        expect(point.accepted + point.rejected).toBe(100);
+        expect(Object.values(point.operators).reduce((sum, count) => sum + count, 0)).toBe(100);
+      }
+      expect(points[points.length - 1]?.bestFitness).toBe(traced.fitness);
+      expect(points.every((point, i) => i === 0 || point.bestFitness <= points[i - 1]!.bestFitness)).toBe(true);
+    });
+
+    it('should end the trace with the last iteration', () => {
+      const solution = new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...baseConfig,
+        seed: 9,
+        maxIterations: 250,
+        trace: { interval: 100 },
+      }).solve();
+
+      expect(solution.metadata?.trace?.points.map((point) => point.iteration)).toEqual([0, 100, 200, 250]);
+      expect(() => new SimulatedAnnealing(rooms, lecturers, classes, { trace: { interval: 0 } }))
+        .toThrow('trace.interval must be at least 1');
+    });
+  });
+
+  describe('adaptive weights', () => {
+    it('should learn the soft constraint weights in phase 2 and report them', () => {
+      const solution = new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...baseConfig,
+        seed: 4,
+        fitnessEvaluation: 'verify',
+        adaptiveWeights: { interval: 50, maxRatio: 2 },
+      }).solve();
+      const report = solution.metadata?.adaptiveWeights;
+
+      expect(report?.initial).toEqual(DEFAULT_SOFT_CONSTRAINT_WEIGHTS);
+      expect(report?.updates).toBeGreaterThan(0);
+      expect(report?.final).not.toEqual(report?.initial);
+      for (const [name, weight] of Object.entries(report!.final)) {
+        const configured = DEFAULT_SOFT_CONSTRAINT_WEIGHTS[name as keyof typeof DEFAULT_SOFT_CONSTRAINT_WEIGHTS];
+        expect(weight).toBeGreaterThanOrEqual(configured / 2 - 1e-9);
+        expect(weight).toBeLessThanOrEqual(configured * 2 + 1e-9);
+      }
+      expect(report?.initialWeightsFitness).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should not change the run when the weights cannot move', () => {
+      const config: AlgorithmConfig = { ...baseConfig, seed: 4 };
+      const plain = new SimulatedAnnealing(rooms, lecturers, classes, config).solve();
+      const fixed = new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...config,
+        adaptiveWeights: { interval: 50, maxRatio: 1 },
+      }).solve();
+
+      expect(fixed.schedule).toEqual(plain.schedule);
+      expect(fixed.fitness).toBe(plain.fitness);
+      expect(fixed.metadata?.adaptiveWeights?.final).toEqual(DEFAULT_SOFT_CONSTRAINT_WEIGHTS);
+      expect(fixed.metadata?.adaptiveWeights?.initialWeightsFitness).toBe(plain.fitness);
+      expect(plain.metadata?.adaptiveWeights).toBeUndefined();
+    });
+
+    it('should validate the adaptive weights settings', () => {
+      expect(() => new SimulatedAnnealing(rooms, lecturers, classes, { adaptiveWeights: { interval: 0 } }))
+        .toThrow('adaptiveWeights.interval must be at least 1');
+      expect(() => new SimulatedAnnealing(rooms, lecturers, classes, { adaptiveWeights: { maxRatio: 0.5 } }))
+        .toThrow('adaptiveWeights.maxRatio must be at least 1');
+      expect(() => new SimulatedAnnealing(rooms, lecturers, classes, {
+        adaptiveWeights: {},
+        parallelTempering: { replicas: 2 },
+      })).toThrow('adaptiveWeights cannot be combined with parallelTempering or multiObjective');
+    });
+  });
+
+  describe('checkpoints', () => {
+    let dir: string;
+
+    beforeAll(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'timetable-sa-'));
+      // Write checkpoints, but still not unscheduled-classes.json
+      jest.spyOn(fs, 'writeFileSync').mockImplementation((file, data, options) => {
+        if (!String(file).endsWith('unscheduled-classes.json')) writeFileSync(file, data, options);
+      });
+    });
+
+    afterAll(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should continue a run from its checkpoint file with the same result', () => {
+      const filePath = path.join(dir, 'run.json');
+      const config: AlgorithmConfig = { ...baseConfig, seed: 7, checkpoint: { filePath, interval: 150 }, trace: { interval: 40 } };
+      const complete = new SimulatedAnnealing(rooms, lecturers, classes, config).solve();
+
+      const checkpoint = readCheckpoint(filePath);
+      expect(checkpoint.iteration).toBe(300);
+      expect(checkpoint.algorithm).toBe('simulated-annealing');
+      expect(fs.existsSync(`${filePath}.tmp`)).toBe(false);
+
+      const resumed = new SimulatedAnnealing(rooms, lecturers, classes, config).resume(filePath);
+
+      expect(resumed.schedule).toEqual(complete.schedule);
+      expect(resumed.fitness).toBe(complete.fitness);
+      expect(resumed.metadata?.iterations).toBe(400);
+      expect(resumed.metadata?.operatorStats).toEqual(complete.metadata?.operatorStats);
+      expect(resumed.metadata?.operatorUsage).toEqual(complete.metadata?.operatorUsage);
+      // The trace continues the points recorded before the checkpoint
+      const withoutTime = (solution: Solution) => solution.metadata?.trace?.points.map(({ elapsedMs, ...point }) => point);
+      expect(withoutTime(resumed)).toEqual(withoutTime(complete));
+    });
+
+    it('should restore inserted classes and parallel tempering replicas with resumeAsync', async () => {
+      const slot = (startTime: string, period: number) => ({ day: 'Monday', startTime, endTime: '', period });
+      const tightClasses = [
+        makeClass('X', 'IF-1A', 'L001'),
+        makeClass('Y', 'IF-1B', 'L002', { SKS: 1 }),
+        makeClass('Z', 'IF-1C', 'L002', { SKS: 1 }),
+      ];
+      const cases: [Room[], ClassRequirement[], AlgorithmConfig][] = [
+        [[rooms[0]!], tightClasses, { customTimeSlots: { pagi: [slot('07:30', 1), slot('08:20', 2), slot('09:10', 3)] } }],
+        [rooms, classes, { parallelTempering: { replicas: 3, minTemperature: 1, maxTemperature: 100, exchangeInterval: 20 } }],
+      ];
+
+      for (const [index, [caseRooms, caseClasses, caseConfig]] of cases.entries()) {
+        const filePath = path.join(dir, `case-${index}.json`);
+        const config: AlgorithmConfig = { ...baseConfig, ...caseConfig, seed: 3, checkpoint: { filePath, interval: 150 } };
+        const complete = new SimulatedAnnealing(caseRooms, lecturers, caseClasses, config).solve();
+        if (index === 0) {
+          // Z was inserted before the checkpoint
+          expect(readCheckpoint(filePath).insertedClasses).toEqual([2]);
+        }
+        const resumed = await new SimulatedAnnealing(caseRooms, lecturers, caseClasses, config).resumeAsync(
+          readCheckpoint(filePath),
+          { batchSize: 25 }
+        );
+
+        expect(resumed.schedule).toEqual(complete.schedule);
+        expect(resumed.fitness).toBe(complete.fitness);
+        expect(resumed.metadata?.parallelTempering).toEqual(complete.metadata?.parallelTempering);
+      }
+    });
+
+    it('should restore the learned soft constraint weights', () => {
+      const filePath = path.join(dir, 'weights.json');
+      const config: AlgorithmConfig = {
+        ...baseConfig,
+        seed: 4,
+        adaptiveWeights: { interval: 50, maxRatio: 2 },
+        checkpoint: { filePath, interval: 350 },
+      };
+      const complete = new SimulatedAnnealing(rooms, lecturers, classes, config).solve();
+      const checkpoint = readCheckpoint(filePath);
+      const resumed = new SimulatedAnnealing(rooms, lecturers, classes, config).resume(checkpoint);
+
+      expect(checkpoint.adaptiveWeights?.updates).toBeGreaterThan(0);
+      expect(resumed.schedule).toEqual(complete.schedule);
+      expect(resumed.fitness).toBe(complete.fitness);
+      expect(resumed.metadata?.adaptiveWeights).toEqual(complete.metadata?.adaptiveWeights);
+    });
+
+    it('should reject checkpoints that do not fit the solver', () => {
+      const filePath = path.join(dir, 'mismatch.json');
+      new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, seed: 5, checkpoint: { filePath, interval: 100 } }).solve();
+
+      expect(() => new TabuSearch(rooms, lecturers, classes, { maxIterations: baseConfig.maxIterations!, seed: 5 }).resume(filePath))
+        .toThrow('A simulated-annealing checkpoint cannot be resumed by tabu-search');
+      expect(() => new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...baseConfig,
+        parallelTempering: { replicas: 2 },
+      }).resume(filePath)).toThrow('Checkpoint does not match the parallelTempering setting of this solver');
+      expect(() => new SimulatedAnnealing(rooms, lecturers, classes.slice(1), baseConfig).resume(filePath))
+        .toThrow('Checkpoint does not match the classes of this solver');
+      expect(() => new SimulatedAnnealing(rooms, lecturers, classes, baseConfig).resume({ ...readCheckpoint(filePath), version: 0 }))
+        .toThrow('Unsupported checkpoint version: 0');
+    });
+
+    it('should validate the checkpoint settings', () => {
+      const filePath = path.join(dir, 'invalid.json');
+
+      expect(() => new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, checkpoint: { filePath, interval: 0 } }))
+        .toThrow('checkpoint.interval must be at least 1');
+      expect(() => new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...baseConfig,
+        random: new SeededRandom(1),
+        checkpoint: { filePath },
+      })).not.toThrow();
+      expect(() => new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...baseConfig,
+        random: { next: () => 0.5 },
+        checkpoint: { filePath },
+      })).toThrow('checkpoint needs the built-in seeded generator');
+    });
+  });
+
+  describe('time slots', () => {
+    it('should keep time slots separate between solver instances', () => {
+      const monday = TimeSlotRegistry.fromConfig(undefined, undefined, ['Monday']);
+      const tuesday = TimeSlotRegistry.fromConfig(undefined, undefined, ['Tuesday']);
+
+      const mondaySolver = new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...baseConfig,
+        seed: 3,
+        customTimeSlots: { pagi: [...monday.pagi], sore: [...monday.sore] },
+      });
+      const tuesdaySolver = new SimulatedAnnealing(rooms, lecturers, classes, {
+        ...baseConfig,
+        seed: 3,
+        customTimeSlots: { pagi: [...tuesday.pagi], sore: [...tuesday.sore] },
+      });
+
+      const mondaySolution = mondaySolver.solve();
+      const tuesdaySolution = tuesdaySolver.solve();
+
+      expect(mondaySolution.schedule.length).toBeGreaterThan(0);
+      expect(mondaySolution.schedule.every((entry) => entry.timeSlot.day === 'Monday')).toBe(true);
+      expect(tuesdaySolution.schedule.every((entry) => entry.timeSlot.day === 'Tuesday')).toBe(true);
+      expect(mondaySolver.getTimeSlots().days).toEqual(['Monday']);
+    });
+  });
+});
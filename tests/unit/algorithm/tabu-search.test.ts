@@ -0,0 +1,127 @@
+/**
+ * Unit tests for the Tabu Search solver
+ */
+
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import { TabuSearch } from '../../../src/algorithm/tabu-search.js';
+import { SimulatedAnnealing } from '../../../src/algorithm/simulated-annealing.js';
+import { LateAcceptanceHillClimbing } from '../../../src/algorithm/late-acceptance.js';
+import { readCheckpoint } from '../../../src/algorithm/checkpoint.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { AlgorithmConfig, Solver } from '../../../src/types/index.js';
+import { rooms, lecturers, classes } from './fixtures.js';
+
+const baseConfig: AlgorithmConfig = {
+  maxIterations: 60,
+  seed: 21,
+  tabuSearch: { tenure: 5, candidates: 8 },
+};
+
+describe('TabuSearch', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should produce identical solutions for the same seed, with delta or full evaluation', () => {
+    const solution = new TabuSearch(rooms, lecturers, classes, baseConfig).solve();
+    const again = new TabuSearch(rooms, lecturers, classes, baseConfig).solve();
+    const full = new TabuSearch(rooms, lecturers, classes, { ...baseConfig, fitnessEvaluation: 'full' }).solve();
+
+    expect(solution.schedule).toHaveLength(classes.length);
+    expect(again.schedule).toEqual(solution.schedule);
+    expect(full.schedule).toEqual(solution.schedule);
+    expect(full.fitness).toBeCloseTo(solution.fitness);
+  });
+
+  it('should report the tabu list activity', () => {
+    const solution = new TabuSearch(rooms, lecturers, classes, baseConfig).solve();
+    const report = solution.metadata?.tabuSearch;
+
+    expect(solution.metadata?.algorithm).toBe('tabu-search');
+    expect(solution.metadata?.iterations).toBe(60);
+    expect(solution.metadata?.stopReason).toBe('max-iterations');
+    expect(solution.metadata?.initialTemperature).toBeUndefined();
+    expect(report).toMatchObject({ tenure: 5, candidates: 8 });
+    expect(report?.tabuRejections).toBeGreaterThan(0);
+    // Every candidate of every iteration counts as an operator attempt
+    const attempts = Object.values(solution.metadata!.operatorStats!).reduce((sum, stats) => sum + stats.attempts, 0);
+    expect(attempts).toBe(60 * 8);
+  });
+
+  it('should solve asynchronously like solve()', async () => {
+    const solution = new TabuSearch(rooms, lecturers, classes, baseConfig).solve();
+    const async = await new TabuSearch(rooms, lecturers, classes, baseConfig).solveAsync({ batchSize: 7 });
+
+    expect(async.schedule).toEqual(solution.schedule);
+  });
+
+  it('should resume from a checkpoint with the same tabu list', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'timetable-sa-'));
+    const filePath = path.join(dir, 'tabu.json');
+    try {
+      const config: AlgorithmConfig = { ...baseConfig, checkpoint: { filePath, interval: 25 } };
+      const solution = new TabuSearch(rooms, lecturers, classes, config).solve();
+      expect(readCheckpoint(filePath).iteration).toBe(50);
+
+      const resumed = new TabuSearch(rooms, lecturers, classes, config).resume(filePath);
+      expect(resumed.schedule).toEqual(solution.schedule);
+      expect(resumed.metadata?.tabuSearch).toEqual(solution.metadata?.tabuSearch);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should be interchangeable with the other solvers', () => {
+    const solvers: Solver[] = [
+      new SimulatedAnnealing(rooms, lecturers, classes, baseConfig),
+      new TabuSearch(rooms, lecturers, classes, baseConfig),
+      new LateAcceptanceHillClimbing(rooms, lecturers, classes, baseConfig),
+    ];
+    const solutions = solvers.map((solver) => solver.solve());
+
+    expect(solutions.map((solution) => solution.metadata?.algorithm)).toEqual([
+      'simulated-annealing',
+      'tabu-search',
+      'late-acceptance',
+    ]);
+    for (const solution of solutions) {
+      expect(solution.violationReport?.summary.totalHardViolations).toBe(solution.hardViolations);
+    }
+  });
+
+  it('should reject invalid settings', () => {
+    for (const tabuSearch of [{ tenure: 0 }, { tenure: -3 }, { tenure: 2.5 }, { tenure: NaN }]) {
+      expect(() => new TabuSearch(rooms, lecturers, classes, { tabuSearch }))
+        .toThrow('tabuSearch.tenure must be a whole number of at least 1');
+    }
+    for (const tabuSearch of [{ candidates: 0 }, { candidates: 1.5 }]) {
+      expect(() => new TabuSearch(rooms, lecturers, classes, { tabuSearch }))
+        .toThrow('tabuSearch.candidates must be a whole number of at least 1');
+    }
+  });
+
+  it('should reject the annealing settings', () => {
+    const cases: [AlgorithmConfig, string][] = [
+      [{ parallelTempering: { replicas: 2 } }, 'parallelTempering'],
+      [{ initialTemperature: 'auto' }, 'initialTemperature'],
+      [{ coolingRate: 0.99 }, 'coolingRate'],
+      [{ coolingSchedule: 'linear' }, 'coolingSchedule'],
+      [{ reheatingThreshold: 100 }, 'reheatingThreshold'],
+      [{ maxReheats: 0 }, 'maxReheats'],
+      [{ polish: 'steepest' }, 'polish'],
+    ];
+
+    for (const [config, setting] of cases) {
+      for (const Solver of [TabuSearch, LateAcceptanceHillClimbing]) {
+        expect(() => new Solver(rooms, lecturers, classes, config)).toThrow(`${setting} is only supported by SimulatedAnnealing`);
+      }
+    }
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Unit tests for initial temperature calibration
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { calibrateTemperature, acceptanceRatioAt } from '../../../src/algorithm/temperature.js';
+
+describe('calibrateTemperature', () => {
+  it('should match the closed form for equal deltas', () => {
+    const temperature = calibrateTemperature([50, 50, 50], 0.8);
+
+    expect(temperature).toBeCloseTo(-50 / Math.log(0.8), 4);
+  });
+
+  it('should reach the target acceptance ratio for mixed deltas', () => {
+    const deltas = [1, 10, 100, 1000, 100000];
+    const temperature = calibrateTemperature(deltas, 0.5)!;
+
+    expect(acceptanceRatioAt(deltas, temperature)).toBeCloseTo(0.5, 6);
+  });
+
+  it('should ignore improving and neutral neighbours', () => {
+    expect(calibrateTemperature([-20, 0, 30], 0.8)).toBeCloseTo(calibrateTemperature([30], 0.8)!, 6);
+  });
+
+  it('should return undefined without worsening neighbours', () => {
+    expect(calibrateTemperature([-5, 0], 0.8)).toBeUndefined();
+    expect(calibrateTemperature([], 0.8)).toBeUndefined();
+  });
+
+  it('should reject a target outside (0, 1)', () => {
+    expect(() => calibrateTemperature([10], 1)).toThrow('between 0 and 1');
+    expect(() => calibrateTemperature([10], 0)).toThrow('between 0 and 1');
+  });
+});
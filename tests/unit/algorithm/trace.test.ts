@@ -0,0 +1,99 @@
+/**
+ * Unit tests for convergence traces
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { TraceRecorder, traceToCsv, writeTrace, writeTraceChart } from '../../../src/algorithm/trace.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { TracePoint } from '../../../src/types/index.js';
+
+function point(iteration: number, overrides: Partial<TracePoint> = {}): Omit<TracePoint, 'accepted' | 'rejected' | 'operators'> {
+  return {
+    iteration,
+    phase: 1,
+    elapsedMs: iteration,
+    temperature: 100,
+    currentFitness: 500,
+    bestFitness: 400,
+    hardViolations: 1,
+    bestHardViolations: 1,
+    reheats: 0,
+    ...overrides,
+  };
+}
+
+describe('Convergence trace', () => {
+  it('should count outcomes and operators between points', () => {
+    const recorder = new TraceRecorder(3);
+    recorder.addPoint(point(0));
+    recorder.countOperator('move');
+    recorder.countOutcome(true);
+    recorder.countOperator('swap');
+    recorder.countOutcome(false);
+    recorder.countOperator('move');
+    recorder.countOutcome(true);
+    recorder.addPoint(point(3));
+
+    const trace = recorder.getTrace();
+    expect(trace.interval).toBe(3);
+    expect(trace.points.map((p) => [p.iteration, p.accepted, p.rejected, p.operators])).toEqual([
+      [0, 0, 0, {}],
+      [3, 2, 1, { move: 2, swap: 1 }],
+    ]);
+    expect(recorder.lastIteration).toBe(3);
+  });
+
+  it('should continue from a saved state', () => {
+    const recorder = new TraceRecorder(5);
+    recorder.addPoint(point(0));
+    recorder.countOperator('kempe');
+    recorder.countOutcome(false);
+
+    const restored = new TraceRecorder(5);
+    restored.setState(JSON.parse(JSON.stringify(recorder.getState())));
+    recorder.addPoint(point(5));
+    restored.addPoint(point(5));
+
+    expect(restored.getTrace()).toEqual(recorder.getTrace());
+  });
+
+  it('should format one CSV row per point and one column per operator', () => {
+    const recorder = new TraceRecorder(1);
+    recorder.countOperator('move');
+    recorder.countOutcome(true);
+    recorder.addPoint(point(1));
+    recorder.countOperator('swap');
+    recorder.countOutcome(false);
+    recorder.addPoint(point(2, { phase: 2, reheats: 1 }));
+
+    expect(traceToCsv(recorder.getTrace()).split('\n')).toEqual([
+      'iteration,phase,elapsedMs,temperature,currentFitness,bestFitness,hardViolations,bestHardViolations,' +
+        'reheats,accepted,rejected,operator:move,operator:swap',
+      '1,1,1,100,500,400,1,1,0,1,0,1,0',
+      '2,2,2,100,500,400,1,1,1,0,1,0,1',
+      '',
+    ]);
+  });
+
+  it('should write CSV, JSON and SVG files', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'timetable-sa-'));
+    try {
+      const recorder = new TraceRecorder(10);
+      recorder.addPoint(point(0));
+      recorder.addPoint(point(10));
+      const trace = recorder.getTrace();
+
+      writeTrace(path.join(dir, 'runs', 'trace.csv'), trace);
+      writeTrace(path.join(dir, 'runs', 'trace.json'), trace);
+      writeTraceChart(path.join(dir, 'runs', 'trace.svg'), trace);
+
+      expect(fs.readFileSync(path.join(dir, 'runs', 'trace.csv'), 'utf-8')).toBe(traceToCsv(trace));
+      expect(JSON.parse(fs.readFileSync(path.join(dir, 'runs', 'trace.json'), 'utf-8'))).toEqual(trace);
+      expect(fs.readFileSync(path.join(dir, 'runs', 'trace.svg'), 'utf-8')).toMatch(/^<svg /);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Unit tests for the racing hyperparameter tuner
+ */
+
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
+import { HyperparameterTuner, pairedTTestPValue } from '../../../src/algorithm/tuner.js';
+import { SimulatedAnnealing } from '../../../src/algorithm/simulated-annealing.js';
+import { FitnessEvaluator } from '../../../src/algorithm/fitness-evaluator.js';
+import { DEFAULT_ALGORITHM_CONFIG, DEFAULT_SOFT_CONSTRAINT_WEIGHTS } from '../../../src/algorithm/config.js';
+import { ConstraintChecker } from '../../../src/constraints/checker.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { AlgorithmConfig, TuningOptions } from '../../../src/types/index.js';
+import { rooms, lecturers, classes } from './fixtures.js';
+
+const baseConfig: AlgorithmConfig = {
+  maxIterations: 150,
+  reheatingThreshold: 50,
+};
+
+const options: TuningOptions = {
+  ranges: {
+    initialTemperature: [10, 1000],
+    coolingRate: [0.9, 0.99],
+    maxReheats: [0, 3],
+  },
+  candidates: 4,
+  minSeeds: 2,
+  maxSeeds: 3,
+  seed: 5,
+};
+
+describe('HyperparameterTuner', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should race the candidates on shared seeds and return the best configuration', () => {
+    const result = new HyperparameterTuner(rooms, lecturers, classes, baseConfig, options).tune();
+    const again = new HyperparameterTuner(rooms, lecturers, classes, baseConfig, options).tune();
+
+    expect(result.candidates).toHaveLength(4);
+    expect(result.candidates[0]!.parameters).toEqual({});
+    expect(result.seeds).toEqual([5, 6, 7].slice(0, result.seeds.length));
+    expect(result.runs).toBe(result.candidates.reduce((sum, candidate) => sum + candidate.scores.length, 0));
+    for (const candidate of result.candidates.slice(1)) {
+      const { initialTemperature, coolingRate, maxReheats } = candidate.parameters;
+      expect(initialTemperature).toBeGreaterThanOrEqual(10);
+      expect(initialTemperature).toBeLessThanOrEqual(1000);
+      expect(coolingRate).toBeGreaterThanOrEqual(0.9);
+      expect(coolingRate).toBeLessThanOrEqual(0.99);
+      expect(Number.isInteger(maxReheats)).toBe(true);
+      expect(candidate.scores).toHaveLength(candidate.eliminatedAfter ?? result.seeds.length);
+    }
+
+    // The base configuration scores its plain runs
+    result.candidates[0]!.scores.forEach((score, i) => {
+      const solution = new SimulatedAnnealing(rooms, lecturers, classes, { ...baseConfig, seed: result.seeds[i]! }).solve();
+      expect(score).toBe(solution.fitness);
+    });
+
+    const best = result.candidates[result.bestCandidate]!;
+    expect(result.best).toEqual({ ...baseConfig, ...best.parameters });
+    expect(best.eliminatedAfter).toBeUndefined();
+    expect(again.candidates).toEqual(result.candidates);
+  });
+
+  it('should score candidates under the base soft constraint weights', () => {
+    const result = new HyperparameterTuner(rooms, lecturers, classes, baseConfig, {
+      ranges: { softConstraintWeights: { preferredTime: [50, 100], compactness: [1, 2] } },
+      candidates: 2,
+      minSeeds: 2,
+      maxSeeds: 2,
+      seed: 8,
+    }).tune();
+    const candidate = result.candidates[1]!;
+    const solution = new SimulatedAnnealing(rooms, lecturers, classes, {
+      ...result.best,
+      ...baseConfig,
+      softConstraintWeights: candidate.parameters.softConstraintWeights!,
+      seed: result.seeds[0]!,
+    }).solve();
+    const evaluator = new FitnessEvaluator(
+      new ConstraintChecker(rooms, lecturers),
+      DEFAULT_ALGORITHM_CONFIG.hardConstraintWeight,
+      DEFAULT_SOFT_CONSTRAINT_WEIGHTS
+    );
+
+    expect(result.stopReason).toBe('max-seeds');
+    expect(solution.fitness).not.toBeCloseTo(candidate.scores[0]!);
+    expect(candidate.scores[0]).toBeCloseTo(evaluator.evaluate(solution.schedule).fitness);
+  });
+
+  it('should write the best configuration as JSON', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'timetable-sa-'));
+    const outputPath = path.join(dir, 'tuned', 'config.json');
+    try {
+      const result = new HyperparameterTuner(rooms, lecturers, classes, baseConfig, {
+        ...options,
+        candidates: 2,
+        outputPath,
+      }).tune();
+
+      expect(JSON.parse(fs.readFileSync(outputPath, 'utf-8'))).toEqual(result.best);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should only write data settings as JSON', () => {
+    const custom: AlgorithmConfig = {
+      ...baseConfig,
+      constraints: { customConstraints: [{ name: 'c', description: 'c', type: 'hard', checkFunction: () => true }] },
+    };
+
+    expect(() => new HyperparameterTuner(rooms, lecturers, classes, custom, { ...options, outputPath: 'tuned.json' }))
+      .toThrow('HyperparameterTuner cannot write custom constraint functions to outputPath');
+    expect(() => new HyperparameterTuner(rooms, lecturers, classes, { ...baseConfig, coolingSchedule: (_i, t) => t * 0.9 }, {
+      ...options,
+      outputPath: 'tuned.json',
+    })).toThrow('HyperparameterTuner cannot write a custom cooling function to outputPath');
+    expect(() => new HyperparameterTuner(rooms, lecturers, classes, custom, options)).not.toThrow();
+  });
+
+  it('should run quiet solvers without replacing the console', () => {
+    const log = jest.mocked(console.log);
+    log.mockClear();
+
+    new HyperparameterTuner(rooms, lecturers, classes, baseConfig, { ...options, candidates: 2, maxSeeds: 2 }).tune();
+
+    const messages = log.mock.calls.map(([message]) => String(message));
+    expect(messages[0]).toContain('Racing 2 configurations');
+    expect(messages.some((message) => message.includes('Simulated Annealing'))).toBe(false);
+    expect(messages).not.toContain('');
+    expect(console.log).toBe(log);
+  });
+
+  it('should not print the race when the base configuration is quiet', () => {
+    const log = jest.mocked(console.log);
+    log.mockClear();
+
+    new HyperparameterTuner(rooms, lecturers, classes, { ...baseConfig, quiet: true }, { ...options, candidates: 2, maxSeeds: 2 }).tune();
+
+    expect(log).not.toHaveBeenCalled();
+  });
+
+  it('should validate the budget and ranges', () => {
+    const tuner = (config: AlgorithmConfig, overrides: Partial<TuningOptions>) =>
+      new HyperparameterTuner(rooms, lecturers, classes, config, { ...options, ...overrides });
+
+    expect(() => tuner(baseConfig, { minSeeds: 1 })).toThrow('minSeeds must be at least 2');
+    expect(() => tuner(baseConfig, { maxSeeds: 1 })).toThrow('maxSeeds must be at least minSeeds');
+    expect(() => tuner(baseConfig, { maxRuns: 7 })).toThrow('maxRuns must allow minSeeds runs of every candidate');
+    expect(() => tuner(baseConfig, { ranges: { coolingRate: [0.99, 0.9] } }))
+      .toThrow('Invalid tuning range for coolingRate: [0.99, 0.9]');
+    expect(() => tuner(baseConfig, { ranges: { softConstraintWeights: { researchDay: [10, 5] } } }))
+      .toThrow('Invalid tuning range for softConstraintWeights.researchDay: [10, 5]');
+    expect(() => tuner(baseConfig, { ranges: { initialTemperature: [0, 10] } }))
+      .toThrow('The initialTemperature range must be positive');
+    expect(() => tuner({ ...baseConfig, checkpoint: { filePath: 'run.json' } }, {}))
+      .toThrow('HyperparameterTuner does not support checkpoints');
+  });
+});
+
+describe('pairedTTestPValue', () => {
+  it('should match the critical values of the t distribution', () => {
+    // Differences with mean 1, standard deviation 1 and n = 5 (t = 2.236, 4 degrees of freedom)
+    const differences = [1, 1 + Math.SQRT2, 1 - Math.SQRT2, 1, 1];
+
+    expect(pairedTTestPValue(differences)).toBeCloseTo(0.0445, 4);
+    expect(pairedTTestPValue(differences.map((d) => -d))).toBeCloseTo(1 - 0.0445, 4);
+    expect(pairedTTestPValue([2, 2, 2])).toBe(0);
+    expect(pairedTTestPValue([0, 0, 0])).toBe(1);
+  });
+});
@@ -12,6 +12,7 @@ import {
   DEFAULT_PAGI_CONFIG,
   DEFAULT_SORE_CONFIG,
   DEFAULT_DAYS,
+  TimeSlotRegistry,
 } from '../../../src/constants/time-slots.js';
 import type { TimeSlot } from '../../../src/types/index.js';
 
@@ -340,4 +341,60 @@ describe('Time Slot Configuration', () => {
       }
     });
   });
+
+  describe('TimeSlotRegistry', () => {
+    it('should generate the same slots as initializeTimeSlots', () => {
+      initializeTimeSlots({ startTime: '08:00' }, { startTime: '16:00' }, ['Monday', 'Tuesday']);
+      const registry = TimeSlotRegistry.fromConfig({ startTime: '08:00' }, { startTime: '16:00' }, ['Monday', 'Tuesday']);
+
+      expect(registry.pagi).toEqual(TIME_SLOTS_PAGI);
+      expect(registry.sore).toEqual(TIME_SLOTS_SORE);
+      expect(registry.all).toEqual(TIME_SLOTS);
+      expect(registry.days).toEqual(['Monday', 'Tuesday']);
+    });
+
+    it('should not change or be changed by the module-level slots', () => {
+      initializeTimeSlots();
+      const registry = TimeSlotRegistry.fromConfig({ startTime: '09:00' });
+
+      setCustomTimeSlots([{ day: 'Monday', startTime: '07:00', endTime: '07:50', period: 1 }]);
+
+      expect(registry.pagi[0]?.startTime).toBe('09:00');
+      expect(TIME_SLOTS_PAGI[0]?.startTime).toBe('07:00');
+    });
+
+    it('should keep independent registries separate', () => {
+      const first = TimeSlotRegistry.fromCustomSlots([
+        { day: 'Monday', startTime: '08:00', endTime: '08:50', period: 1 },
+      ]);
+      const second = TimeSlotRegistry.fromCustomSlots([
+        { day: 'Friday', startTime: '10:00', endTime: '10:50', period: 1 },
+      ]);
+
+      expect(first.pagi).toHaveLength(1);
+      expect(first.pagi[0]?.day).toBe('Monday');
+      expect(second.pagi[0]?.day).toBe('Friday');
+    });
+
+    it('should generate missing custom lists from the defaults', () => {
+      const pagi: TimeSlot[] = [{ day: 'Monday', startTime: '08:00', endTime: '08:50', period: 1 }];
+      const registry = TimeSlotRegistry.fromCustomSlots(pagi);
+
+      expect(registry.pagi).toEqual(pagi);
+      expect(registry.sore).toEqual(TimeSlotRegistry.fromConfig().sore);
+    });
+
+    it('should derive days from custom slots in week order', () => {
+      const registry = TimeSlotRegistry.fromCustomSlots(
+        [
+          { day: 'Wednesday', startTime: '08:00', endTime: '08:50', period: 1 },
+          { day: 'Monday', startTime: '08:00', endTime: '08:50', period: 1 },
+        ],
+        [{ day: 'Sunday', startTime: '18:30', endTime: '19:20', period: 1 }]
+      );
+
+      expect(registry.days).toEqual(['Monday', 'Wednesday', 'Sunday']);
+      expect(registry.all).toHaveLength(3);
+    });
+  });
 });
@@ -0,0 +1,251 @@
+/**
+ * Unit tests for declarative constraint rules
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { parseConstraintRules, compileConstraintRules } from '../../../src/constraints/rules.js';
+import { ConstraintChecker } from '../../../src/constraints/checker.js';
+import { mergeConfig } from '../../../src/algorithm/config.js';
+import { SimulatedAnnealing } from '../../../src/algorithm/simulated-annealing.js';
+import type { Room, Lecturer, ScheduleEntry, ClassRequirement, ConstraintRule, CustomConstraint } from '../../../src/types/index.js';
+
+const rooms: Room[] = [
+  { Code: 'CM-101', Name: 'Classroom 101', Type: 'Regular', Capacity: 40 },
+  { Code: 'CM-102', Name: 'Classroom 102', Type: 'Regular', Capacity: 40 },
+  { Code: 'CM-Lab1', Name: 'Computer Lab 1', Type: 'Lab', Capacity: 40 },
+];
+
+const lecturers: Lecturer[] = [
+  {
+    'Prodi Code': 'IF',
+    Code: 'L001',
+    Name: 'Dr. John Doe',
+    Prefered_Time: '08.00 - 10.00 monday',
+    Research_Day: 'Friday',
+    Transit_Time: 15,
+    Max_Daily_Periods: 8,
+    Prefered_Room: 'CM-101',
+  },
+  {
+    'Prodi Code': 'IF',
+    Code: 'L002',
+    Name: 'Dr. Jane Smith',
+    Prefered_Time: '10.00 - 12.00 tuesday',
+    Research_Day: 'Thursday',
+    Transit_Time: 30,
+    Max_Daily_Periods: 6,
+    Prefered_Room: 'CM-102',
+  },
+];
+
+function makeEntry(overrides: Partial<ScheduleEntry> = {}): ScheduleEntry {
+  return {
+    classId: 'IF101',
+    className: 'Programming',
+    class: 'IF-1A',
+    prodi: 'INFORMATIKA',
+    lecturers: ['L001'],
+    room: 'CM-101',
+    timeSlot: { day: 'Monday', startTime: '08:00', endTime: '09:40', period: 1 },
+    sks: 2,
+    needsLab: false,
+    participants: 30,
+    classType: 'pagi',
+    prayerTimeAdded: 0,
+    ...overrides,
+  };
+}
+
+function check(rule: ConstraintRule, entry: ScheduleEntry, schedule: ScheduleEntry[] = []) {
+  const checker = new ConstraintChecker(rooms, lecturers, undefined, undefined, compileConstraintRules([rule]));
+  return { ...checker.checkCustomConstraints(schedule, entry), violations: checker.getViolations() };
+}
+
+describe('Constraint rules', () => {
+  describe('compileConstraintRules', () => {
+    it('should only check the classes the rule selects', () => {
+      const rule: ConstraintRule = {
+        name: 'No Saturday for MM',
+        type: 'hard',
+        rule: 'avoid-days',
+        prodi: 'magister manajemen',
+        days: ['saturday'],
+      };
+      const saturday = { day: 'Saturday', startTime: '08:00', endTime: '09:40', period: 1 };
+
+      expect(check(rule, makeEntry({ prodi: 'Magister Manajemen', timeSlot: saturday })).hardViolations).toBe(1);
+      expect(check(rule, makeEntry({ prodi: 'Magister Manajemen' })).hardViolations).toBe(0);
+      expect(check(rule, makeEntry({ timeSlot: saturday })).hardViolations).toBe(0);
+    });
+
+    it('should require every selector field to match', () => {
+      const rule: ConstraintRule = {
+        name: 'IF-1A theory in CM-101',
+        type: 'hard',
+        rule: 'allowed-rooms',
+        class: ['IF-1A', 'IF-1B'],
+        lecturer: 'L002',
+        rooms: ['CM-101'],
+      };
+
+      expect(check(rule, makeEntry({ lecturers: ['L001', 'L002'], room: 'CM-102' })).hardViolations).toBe(1);
+      expect(check(rule, makeEntry({ lecturers: ['L001'], room: 'CM-102' })).hardViolations).toBe(0);
+      expect(check(rule, makeEntry({ class: ['IF-3A', 'IF-1B'], lecturers: ['L002'], room: 'CM-102' })).hardViolations).toBe(1);
+      expect(check(rule, makeEntry({ lecturers: ['L002'] })).hardViolations).toBe(0);
+    });
+
+    it('should check days, room types and times', () => {
+      const evening = { day: 'Wednesday', startTime: '15:30', endTime: '17:10', period: 9 };
+      const cases: [ConstraintRule, Partial<ScheduleEntry>, number][] = [
+        [{ name: 'r', type: 'hard', rule: 'allowed-days', days: ['Monday', 'Tuesday'] }, {}, 0],
+        [{ name: 'r', type: 'hard', rule: 'allowed-days', days: ['Monday', 'Tuesday'] }, { timeSlot: evening }, 1],
+        [{ name: 'r', type: 'hard', rule: 'room-type', course: 'IF101', roomType: 'lab' }, { room: 'CM-Lab1' }, 0],
+        [{ name: 'r', type: 'hard', rule: 'room-type', course: 'IF101', roomType: 'lab' }, {}, 1],
+        [{ name: 'r', type: 'hard', rule: 'room-type', course: 'IF101', roomType: 'lab' }, { room: 'Unknown' }, 1],
+        [{ name: 'r', type: 'hard', rule: 'earliest-start', time: '08:00' }, {}, 0],
+        [{ name: 'r', type: 'hard', rule: 'earliest-start', time: '08:01' }, {}, 1],
+        [{ name: 'r', type: 'hard', rule: 'latest-end', classType: 'pagi', time: '17:00' }, { timeSlot: evening }, 1],
+        [{ name: 'r', type: 'hard', rule: 'latest-end', classType: 'pagi', time: '17:10' }, { timeSlot: evening }, 0],
+        [{ name: 'r', type: 'hard', rule: 'latest-end', classType: 'sore', time: '17:00' }, { timeSlot: evening }, 0],
+      ];
+
+      for (const [rule, overrides, expected] of cases) {
+        expect(check(rule, makeEntry(overrides)).hardViolations).toBe(expected);
+      }
+    });
+
+    it('should count daily periods per lecturer or per class group', () => {
+      const schedule = [
+        makeEntry({ classId: 'IF102', lecturers: ['L001', 'L002'], sks: 3 }),
+        makeEntry({ classId: 'IF103', class: 'IF-1B', lecturers: ['L002'], sks: 3 }),
+        makeEntry({ classId: 'IF104', lecturers: ['L002'], sks: 2, timeSlot: { day: 'Tuesday', startTime: '08:00', endTime: '09:40', period: 1 } }),
+      ];
+      const entry = makeEntry({ lecturers: ['L002'] });
+
+      // L002 teaches 3 + 3 periods on Monday before this class
+      expect(check({ name: 'r', type: 'hard', rule: 'max-daily-periods', max: 8 }, entry, schedule).hardViolations).toBe(0);
+      expect(check({ name: 'r', type: 'hard', rule: 'max-daily-periods', max: 7 }, entry, schedule).hardViolations).toBe(1);
+      expect(check({ name: 'r', type: 'hard', rule: 'max-daily-periods', lecturer: 'L001', max: 4 }, entry, schedule).hardViolations).toBe(0);
+      expect(check({ name: 'r', type: 'hard', rule: 'max-daily-periods', class: 'IF-1A', max: 7 }, entry, schedule).hardViolations).toBe(0);
+      // IF-1A has 3 periods on Monday before this class
+      expect(check({ name: 'r', type: 'hard', rule: 'max-daily-periods', per: 'class', max: 5 }, entry, schedule).hardViolations).toBe(0);
+      expect(check({ name: 'r', type: 'hard', rule: 'max-daily-periods', per: 'class', max: 4 }, entry, schedule).hardViolations).toBe(1);
+    });
+
+    it('should keep class groups of the same name in different prodi apart', () => {
+      const rule: ConstraintRule = { name: 'r', type: 'hard', rule: 'max-daily-periods', per: 'class', max: 4 };
+      const schedule = [makeEntry({ classId: 'MM101', class: 'A', prodi: 'MANAJEMEN', lecturers: ['L002'], sks: 3 })];
+
+      expect(check(rule, makeEntry({ class: 'A', sks: 3 }), schedule).hardViolations).toBe(0);
+      expect(check(rule, makeEntry({ class: 'A', prodi: 'MANAJEMEN', sks: 3 }), schedule).hardViolations).toBe(1);
+    });
+
+    it('should score soft rules with their weight and report every violation', () => {
+      const rule: ConstraintRule = { name: 'Mornings for IF-1A', type: 'soft', weight: 25, rule: 'latest-end', class: 'IF-1A', time: '09:00' };
+      const result = check(rule, makeEntry());
+
+      expect(result.softPenalty).toBe(25);
+      expect(result.violations).toEqual([
+        expect.objectContaining({
+          constraintType: 'Custom Soft: Mornings for IF-1A',
+          reason: 'class IF-1A: finished by 09:00',
+          severity: 'soft',
+        }),
+      ]);
+      const { weight: _weight, ...unweighted } = rule;
+      expect(check(unweighted, makeEntry()).softPenalty).toBe(10);
+      expect(check({ ...rule, description: 'Keep afternoons free' }, makeEntry()).violations[0]?.reason).toBe('Keep afternoons free');
+    });
+  });
+
+  describe('parseConstraintRules', () => {
+    it('should accept a list of rules or a rules document', () => {
+      const rules = [{ name: 'r', type: 'hard', rule: 'avoid-days', days: ['Saturday'] }];
+
+      expect(parseConstraintRules(rules)).toEqual(rules);
+      expect(parseConstraintRules({ rules })).toEqual(rules);
+      expect(() => parseConstraintRules({ constraints: rules }))
+        .toThrow("Constraint rules must be an array or an object with a 'rules' array");
+    });
+
+    it('should reject invalid rules with their position and name', () => {
+      const cases: [unknown, string][] = [
+        ['avoid-days', 'Constraint rule 1 must be an object'],
+        [{ type: 'hard', rule: 'avoid-days', days: ['Monday'] }, "Constraint rule 1: 'name' must be a non-empty string"],
+        [{ name: 'r', type: 'strict', rule: 'avoid-days', days: ['Monday'] }, `Constraint rule 1 ("r"): 'type' must be "hard" or "soft"`],
+        [{ name: 'r', type: 'hard', rule: 'never', days: ['Monday'] }, 'Constraint rule 1 ("r"): unknown rule "never"'],
+        [{ name: 'r', type: 'hard', rule: 'constructor' }, 'Constraint rule 1 ("r"): unknown rule "constructor"'],
+        [{ name: 'r', type: 'hard', rule: 'avoid-days', prod: 'IF', days: ['Monday'] }, `unknown field 'prod' for rule "avoid-days"`],
+        [{ name: 'r', type: 'hard', rule: 'avoid-days', days: [] }, "'days' must be a non-empty list of days"],
+        [{ name: 'r', type: 'hard', rule: 'avoid-days', lecturer: 7, days: ['Monday'] }, "'lecturer' must be a string or a list of strings"],
+        [{ name: 'r', type: 'soft', weight: -1, rule: 'avoid-days', days: ['Monday'] }, "'weight' must be a number greater than 0"],
+        [{ name: 'r', type: 'soft', weight: 0, rule: 'avoid-days', days: ['Monday'] }, "'weight' must be a number greater than 0"],
+        [{ name: 'r', type: 'hard', rule: 'room-type' }, "'roomType' must be a string"],
+        [{ name: 'r', type: 'hard', rule: 'allowed-rooms', rooms: 'CM-101' }, "'rooms' must be a non-empty list of room codes"],
+        [{ name: 'r', type: 'hard', rule: 'max-daily-periods', max: '4' }, "'max' must be a number of at least 0"],
+        [{ name: 'r', type: 'hard', rule: 'max-daily-periods', max: 4, per: 'day' }, `'per' must be "lecturer" or "class"`],
+        [{ name: 'r', type: 'hard', rule: 'latest-end', time: '5pm' }, "'time' must be a time in HH:MM format"],
+      ];
+
+      for (const [rule, message] of cases) {
+        expect(() => parseConstraintRules([rule])).toThrow(message);
+      }
+      expect(() => parseConstraintRules([{ name: 'ok', type: 'hard', rule: 'earliest-start', time: '7:30' }, {}]))
+        .toThrow("Constraint rule 2: 'name' must be a non-empty string");
+    });
+  });
+
+  describe('AlgorithmConfig.constraints.rules', () => {
+    it('should validate rules and keep them apart from the custom constraints', () => {
+      const custom: CustomConstraint = { name: 'c', description: 'custom', type: 'hard', checkFunction: () => true };
+      const rule: ConstraintRule = { name: 'No Saturday', type: 'hard', rule: 'avoid-days', days: ['Saturday'] };
+      const merged = mergeConfig({ constraints: { customConstraints: [custom], rules: [rule] } });
+
+      expect(merged.constraints.customConstraints).toEqual([custom]);
+      expect(merged.constraints.rules).toEqual([rule]);
+      expect(() => mergeConfig({ constraints: { rules: [{ name: 'r' } as ConstraintRule] } }))
+        .toThrow(`Constraint rule 1 ("r"): 'type' must be "hard" or "soft"`);
+    });
+
+    it('should steer the search away from classes the rules forbid', () => {
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      const classes: ClassRequirement[] = ['IF101', 'IF102', 'IF103', 'IF104'].map((code, i) => ({
+        Prodi: 'INFORMATIKA',
+        Kelas: i % 2 === 0 ? 'IF-1A' : 'IF-1B',
+        Kode_Matakuliah: code,
+        Mata_Kuliah: `Course ${code}`,
+        SKS: 2,
+        Jenis: 'Teori',
+        Peserta: 30,
+        Kode_Dosen1: i < 2 ? 'L001' : 'L002',
+        Kode_Dosen2: '',
+        Kode_Dosen_Prodi_Lain1: '',
+        Kode_Dosen_Prodi_Lain2: '',
+        Class_Type: 'pagi',
+        should_on_the_lab: 'no',
+        rooms: '',
+      }));
+
+      try {
+        const solution = new SimulatedAnnealing(rooms, lecturers, classes, {
+          seed: 3,
+          maxIterations: 2000,
+          constraints: {
+            rules: [
+              { name: 'IF-1A early in the week', type: 'hard', rule: 'allowed-days', class: 'IF-1A', days: ['Monday', 'Tuesday'] },
+              { name: 'L002 not in CM-101', type: 'hard', rule: 'allowed-rooms', lecturer: 'L002', rooms: ['CM-102', 'CM-Lab1'] },
+            ],
+          },
+        }).solve();
+
+        expect(solution.hardViolations).toBe(0);
+        for (const entry of solution.schedule) {
+          if (entry.class === 'IF-1A') expect(['Monday', 'Tuesday']).toContain(entry.timeSlot.day);
+          if (entry.lecturers.includes('L002')) expect(entry.room).not.toBe('CM-101');
+        }
+      } finally {
+        jest.restoreAllMocks();
+      }
+    });
+  });
+});
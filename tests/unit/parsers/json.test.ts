@@ -3,7 +3,10 @@
  */
 
 import { describe, it, expect } from '@jest/globals';
-import { loadDataFromObject } from '../../../src/parsers/json.js';
+import { loadDataFromObject, loadConstraintRulesFromJSON } from '../../../src/parsers/json.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import type { TimetableInput } from '../../../src/types/index.js';
 
 describe('JSON Parsers', () => {
@@ -148,4 +151,25 @@ describe('JSON Parsers', () => {
       expect(result.classes[0]?.should_on_the_lab).toBe('yes');
     });
   });
+
+  describe('loadConstraintRulesFromJSON', () => {
+    it('should load and validate the rules of a JSON file', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'timetable-sa-'));
+      const filePath = path.join(dir, 'rules.json');
+      const rules = [
+        { name: 'No Saturday for MM', type: 'hard', rule: 'avoid-days', prodi: 'Magister Manajemen', days: ['Saturday'] },
+        { name: 'L003 short days', type: 'soft', weight: 20, rule: 'max-daily-periods', lecturer: 'L003', max: 4 },
+      ];
+      try {
+        fs.writeFileSync(filePath, JSON.stringify({ rules }));
+        expect(loadConstraintRulesFromJSON(filePath)).toEqual(rules);
+
+        fs.writeFileSync(filePath, JSON.stringify([{ ...rules[0], days: 'Saturday' }]));
+        expect(() => loadConstraintRulesFromJSON(filePath))
+          .toThrow(`Constraint rule 1 ("No Saturday for MM"): 'days' must be a non-empty list of days`);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
 });
@@ -0,0 +1,54 @@
+/**
+ * Unit tests for the SVG convergence chart
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { renderConvergenceChart } from '../../../src/utils/convergence-chart.js';
+import type { ConvergenceTrace, TracePoint } from '../../../src/types/index.js';
+
+function point(iteration: number, overrides: Partial<TracePoint> = {}): TracePoint {
+  return {
+    iteration,
+    phase: 1,
+    elapsedMs: 0,
+    temperature: 1000 / (iteration + 1),
+    currentFitness: 100000 / (iteration + 1),
+    bestFitness: 100000 / (iteration + 1),
+    hardViolations: 0,
+    bestHardViolations: 0,
+    reheats: 0,
+    accepted: 0,
+    rejected: 0,
+    operators: {},
+    ...overrides,
+  };
+}
+
+describe('Convergence chart', () => {
+  it('should plot fitness and temperature with phase and reheat markers', () => {
+    const trace: ConvergenceTrace = {
+      interval: 100,
+      points: [point(0), point(100), point(200, { phase: 2 }), point(300, { phase: 2, reheats: 1, temperature: 500 })],
+    };
+    const svg = renderConvergenceChart(trace, { width: 600, height: 300, title: 'Seed <1>' });
+
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="600" height="300"/);
+    expect(svg.trim().endsWith('</svg>')).toBe(true);
+    expect(svg).toContain('Seed &lt;1&gt;');
+    // Current fitness, best fitness and temperature
+    expect(svg.match(/<polyline /g)).toHaveLength(3);
+    expect(svg).toContain('Phase 2');
+    expect(svg).toContain('>Reheat<');
+    expect(svg).toContain('Temperature (log)');
+  });
+
+  it('should leave out the temperature axis when the run has no temperature', () => {
+    const trace: ConvergenceTrace = { interval: 10, points: [point(0, { temperature: 0 }), point(10, { temperature: 0 })] };
+    const svg = renderConvergenceChart(trace);
+
+    expect(svg).toContain('width="800" height="400"');
+    expect(svg.match(/<polyline /g)).toHaveLength(2);
+    expect(svg).not.toContain('Temperature');
+    expect(svg).not.toContain('Phase 2');
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Unit tests for seedable random number generation
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  SeededRandom,
+  createRandom,
+  generateSeed,
+  randomInt,
+  randomChoice,
+} from '../../../src/utils/random.js';
+
+describe('Random Utilities', () => {
+  describe('SeededRandom', () => {
+    it('should produce the same sequence for the same seed', () => {
+      const a = new SeededRandom(42);
+      const b = new SeededRandom(42);
+
+      for (let i = 0; i < 100; i++) {
+        expect(a.next()).toBe(b.next());
+      }
+    });
+
+    it('should produce different sequences for different seeds', () => {
+      const a = new SeededRandom(1);
+      const b = new SeededRandom(2);
+
+      const seqA = Array.from({ length: 10 }, () => a.next());
+      const seqB = Array.from({ length: 10 }, () => b.next());
+
+      expect(seqA).not.toEqual(seqB);
+    });
+
+    it('should return floats in [0, 1)', () => {
+      const rng = new SeededRandom(123);
+
+      for (let i = 0; i < 1000; i++) {
+        const value = rng.next();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+
+    it('should continue a sequence after restoring its state', () => {
+      const rng = new SeededRandom(7);
+      rng.next();
+      rng.next();
+
+      const state = rng.getState();
+      const expected = [rng.next(), rng.next(), rng.next()];
+
+      const restored = new SeededRandom(0);
+      restored.setState(state);
+
+      expect([restored.next(), restored.next(), restored.next()]).toEqual(expected);
+    });
+  });
+
+  describe('createRandom', () => {
+    it('should seed the generator with the given seed', () => {
+      expect(createRandom(99).next()).toBe(new SeededRandom(99).next());
+    });
+  });
+
+  describe('generateSeed', () => {
+    it('should return an unsigned 32-bit integer', () => {
+      const seed = generateSeed();
+      expect(Number.isInteger(seed)).toBe(true);
+      expect(seed).toBeGreaterThanOrEqual(0);
+      expect(seed).toBeLessThan(4294967296);
+    });
+  });
+
+  describe('randomInt and randomChoice', () => {
+    it('should stay within bounds', () => {
+      const rng = new SeededRandom(5);
+
+      for (let i = 0; i < 200; i++) {
+        const value = randomInt(rng, 4);
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(4);
+      }
+    });
+
+    it('should pick an element of the array', () => {
+      const rng = new SeededRandom(5);
+      const items = ['a', 'b', 'c'];
+
+      for (let i = 0; i < 50; i++) {
+        expect(items).toContain(randomChoice(rng, items));
+      }
+    });
+  });
+});